@@ -32,40 +32,54 @@ import {
   Zap,
   Smartphone,
   Scan,
-  CheckCircle2
+  CheckCircle2,
+  FolderPlus,
+  Tag,
+  Merge,
+  Layers,
+  Repeat,
+  EyeOff,
+  GraduationCap,
+  MessagesSquare,
+  ChevronUp,
+  ChevronDown,
+  ScanText
 } from 'lucide-react';
 import { toPng } from 'html-to-image';
-import { Book, Highlight, Thought, ViewState } from './types';
-import { searchForBook, analyzeHighlightImage, identifyBookFromCover, synthesizeBook, transcribeAudio } from './services/geminiService';
-import { parseImportText } from './services/ebookImportService';
+import { Book, Conversation, Flashcard, FlashcardDraft, FlashcardGrade, Highlight, ReadingStatus, ReviewGrade, Shelf, Thought, ViewState } from './types';
+import { AI_PROVIDERS, AI_TASKS, AISettings, AITask, AITaskRoute, analyzeHighlightImage, DEFAULT_MODELS, generateFlashcards, getAISettings, identifyBookFromCover, OCR_MODES, OcrMode, setAISettings, synthesizeBook, transcribeAudio } from './services/aiService';
+import { AIProviderId } from './services/aiProvider';
+import { BookMetadata, CatalogueProviderId, getMetadataProviders, getProviderOrder, metadataToBook, normalizeIsbn, searchBookCandidates, searchForBook, setProviderOrder } from './services/metadataService';
+import { parseImportText, parseKoboDatabase, parseAppleBooksHtml, parseGooglePlayBooksHtml, ImportedBookData } from './services/ebookImportService';
+import { BookRepository, FlashcardRepository, HighlightRepository, ShelfRepository } from './services/libraryRepository';
+import { exportLibraryBackup, parseLibraryBackup, restoreLibraryBackup, RestoreMode } from './services/backupService';
+import { exportMarkdownVault } from './services/markdownExportService';
+import { exportReadwiseCsv } from './services/csvExportService';
+import { buildImportPlan, applyImportPlan, setSimilarityThreshold, withoutExcluded, ImportPlan } from './services/importPlanService';
+import { collectTags, normalizeTag, renameTag, tagsOf } from './services/tagService';
+import { applyTagSuggestions, clusterThemes, suggestTags, themeToSuggestions, TagSuggestion, Theme } from './services/themeService';
+import { createSearchIndex, parseSearchQuery } from './services/searchIndex';
+import { libraryEmbeddings, SimilarHighlight } from './services/embeddingService';
+import { buildReviewQueue, countDue, recordReview } from './services/reviewService';
+import { buildStudyQueue, clozeToText, createFlashcard, recordFlashcardGrade } from './services/flashcardService';
+import { createScanQueue, resolvePageNumbers, ScanItem, ScanQueue } from './services/scanSessionService';
+import { draftsFromExtraction, emptyDraft, HighlightDraft, highlightsFromDrafts } from './services/highlightDraftService';
+import { cardSource, exportFlashcardsApkg, exportFlashcardsCsv } from './services/ankiExportService';
+import { askAboutHighlights, clearConversation, LIBRARY_SCOPE, loadConversation } from './services/bookChatService';
+import { applyLibraryView, getLibraryView, setLibraryView, LIBRARY_SORTS, LibraryView } from './services/libraryViewService';
 import CameraModal from './components/CameraModal';
-
-// --- Local Storage Helpers ---
-const STORAGE_KEY_BOOKS = 'lumina_books';
-const STORAGE_KEY_HIGHLIGHTS = 'lumina_highlights';
-
-const getStoredBooks = (): Book[] => {
-  const stored = localStorage.getItem(STORAGE_KEY_BOOKS);
-  return stored ? JSON.parse(stored) : [];
-};
-
-const saveBooks = (books: Book[]) => {
-  localStorage.setItem(STORAGE_KEY_BOOKS, JSON.stringify(books));
-};
-
-const getStoredHighlights = (bookId: string): Highlight[] => {
-  const stored = localStorage.getItem(STORAGE_KEY_HIGHLIGHTS);
-  const allHighlights: any[] = stored ? JSON.parse(stored) : [];
-  
-  return allHighlights
-    .filter((h: any) => h.bookId === bookId)
-    .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
-};
-
-const getAllHighlightsWithBooks = (): { highlight: Highlight, book: Book }[] => {
-  const storedHighlights = localStorage.getItem(STORAGE_KEY_HIGHLIGHTS);
-  const allHighlights: any[] = storedHighlights ? JSON.parse(storedHighlights) : [];
-  const books = getStoredBooks();
+import ImportPreview from './components/ImportPreview';
+import BookSearchResults from './components/BookSearchResults';
+import TagSuggestionReview from './components/TagSuggestionReview';
+import ThemeClusters from './components/ThemeClusters';
+import FlashcardEditor from './components/FlashcardEditor';
+import BookChatPanel from './components/BookChatPanel';
+import HighlightDraftList from './components/HighlightDraftList';
+import ScanSessionReview from './components/ScanSessionReview';
+
+// --- Library Helpers ---
+const getAllHighlightsWithBooks = async (): Promise<{ highlight: Highlight, book: Book }[]> => {
+  const [books, allHighlights] = await Promise.all([BookRepository.getAll(), HighlightRepository.getAll()]);
   const bookMap = new Map(books.map(b => [b.id, b]));
 
   return allHighlights
@@ -76,24 +90,6 @@ const getAllHighlightsWithBooks = (): { highlight: Highlight, book: Book }[] =>
     }));
 };
 
-const updateStoredHighlight = (updatedHighlight: Highlight) => {
-  const stored = localStorage.getItem(STORAGE_KEY_HIGHLIGHTS);
-  const allHighlights: Highlight[] = stored ? JSON.parse(stored) : [];
-  const index = allHighlights.findIndex(h => h.id === updatedHighlight.id);
-  
-  if (index !== -1) {
-    allHighlights[index] = updatedHighlight;
-    localStorage.setItem(STORAGE_KEY_HIGHLIGHTS, JSON.stringify(allHighlights));
-  }
-};
-
-const deleteStoredHighlight = (highlightId: string) => {
-  const stored = localStorage.getItem(STORAGE_KEY_HIGHLIGHTS);
-  const allHighlights: Highlight[] = stored ? JSON.parse(stored) : [];
-  const filtered = allHighlights.filter(h => h.id !== highlightId);
-  localStorage.setItem(STORAGE_KEY_HIGHLIGHTS, JSON.stringify(filtered));
-};
-
 // --- Components ---
 
 const LoadingSpinner = () => <Loader2 className="animate-spin text-accent" size={24} />;
@@ -312,6 +308,13 @@ const ShareCardModal = ({ highlight, book, onClose }: { highlight: Highlight, bo
 };
 
 const ReadingDashboard = ({ books, highlights }: { books: Book[], highlights: { highlight: Highlight, book: Book }[] }) => {
+  const navigate = useNavigate();
+  const dueCount = useMemo(() => countDue(highlights.map(h => h.highlight)), [highlights]);
+  const [cardsDue, setCardsDue] = useState(0);
+
+  useEffect(() => {
+    FlashcardRepository.getAll().then(cards => setCardsDue(buildStudyQueue(cards).length));
+  }, [highlights]);
   const streakCount = useMemo(() => {
     if (highlights.length === 0) return 0;
     const dates = highlights.map(h => new Date(h.highlight.createdAt).toDateString());
@@ -363,30 +366,167 @@ const ReadingDashboard = ({ books, highlights }: { books: Book[], highlights: {
           <span className="text-[9px] font-bold text-accent/60 uppercase tracking-widest leading-none">Streak</span>
         </div>
       </div>
+      {dueCount > 0 && (
+        <button onClick={() => navigate('/review')} className="mt-3 w-full bg-white p-4 rounded-[24px] shadow-sm border border-gray-100 flex items-center gap-3 text-left hover:border-accent/30 transition-all">
+          <div className="p-2 bg-emerald-50 text-emerald-500 rounded-xl"><Repeat size={16} /></div>
+          <span className="flex-1 text-xs font-bold text-ink">{dueCount} {dueCount === 1 ? 'highlight' : 'highlights'} to review today</span>
+          <ChevronRight size={16} className="text-gray-300" />
+        </button>
+      )}
+      {cardsDue > 0 && (
+        <button onClick={() => navigate('/study')} className="mt-3 w-full bg-white p-4 rounded-[24px] shadow-sm border border-gray-100 flex items-center gap-3 text-left hover:border-accent/30 transition-all">
+          <div className="p-2 bg-violet-50 text-violet-500 rounded-xl"><GraduationCap size={16} /></div>
+          <span className="flex-1 text-xs font-bold text-ink">{cardsDue} {cardsDue === 1 ? 'flashcard' : 'flashcards'} to study</span>
+          <ChevronRight size={16} className="text-gray-300" />
+        </button>
+      )}
     </div>
   );
 };
 
-const BookSettingsModal = ({ book, isOpen, onClose, onUpdate, onDelete }: { book: Book, isOpen: boolean, onClose: () => void, onUpdate: (title: string, author: string) => void, onDelete: () => void }) => {
-  const [title, setTitle] = useState(book.title);
-  const [author, setAuthor] = useState(book.author);
+const READING_STATUSES: { id: ReadingStatus; label: string }[] = [
+  { id: 'want-to-read', label: 'Want to Read' },
+  { id: 'reading', label: 'Reading' },
+  { id: 'finished', label: 'Finished' },
+  { id: 'abandoned', label: 'Abandoned' },
+];
+
+// Starting or finishing a book stamps today's date unless one was already entered.
+const withReadingStatus = (book: Book, status: ReadingStatus | undefined): Book => {
+  const today = new Date().toISOString();
+  return {
+    ...book,
+    readingStatus: status,
+    startedAt: book.startedAt || (status === 'reading' || status === 'finished' ? today : undefined),
+    finishedAt: status === 'finished' ? book.finishedAt || today : book.finishedAt,
+  };
+};
+
+const FilterChip: React.FC<{ active: boolean, onClick: () => void, children: React.ReactNode }> = ({ active, onClick, children }) => (
+  <button
+    onClick={onClick}
+    className={`px-3 py-1.5 rounded-full text-[10px] font-bold uppercase tracking-widest border whitespace-nowrap transition ${active ? 'bg-ink text-white border-ink' : 'bg-white text-gray-400 border-gray-200 hover:text-ink'}`}
+  >
+    {children}
+  </button>
+);
+
+const toggleValue = <T,>(values: T[], value: T) =>
+  values.includes(value) ? values.filter(v => v !== value) : [...values, value];
+
+const splitList = (value: string) => value.split(',').map(v => v.trim()).filter(Boolean);
+
+const BookSettingsModal: React.FC<{ book: Book, shelves: Shelf[], isOpen: boolean, onClose: () => void, onUpdate: (changes: Partial<Book>) => void, onDelete: () => void }> = ({ book, shelves, isOpen, onClose, onUpdate, onDelete }) => {
+  const [draft, setDraft] = useState<Book>(book);
+  const [authors, setAuthors] = useState((book.authors?.length ? book.authors : [book.author]).join(', '));
+  const [categories, setCategories] = useState((book.categories || []).join(', '));
   if (!isOpen) return null;
+
+  const set = (changes: Partial<Book>) => setDraft(d => ({ ...d, ...changes }));
+  const inputClass = "w-full p-3 bg-gray-50 rounded-xl focus:ring-2 focus:ring-accent/20 outline-none";
+  const labelClass = "text-[10px] font-bold text-gray-400 uppercase tracking-widest mb-1 block";
+
+  // Only the fields this form edits are sent, so counts and dates changed elsewhere since it opened survive.
+  const handleSave = () => {
+    const authorList = splitList(authors);
+    onUpdate({
+      title: draft.title,
+      readingStatus: draft.readingStatus,
+      startedAt: draft.startedAt,
+      finishedAt: draft.finishedAt,
+      publisher: draft.publisher,
+      publishedDate: draft.publishedDate,
+      pageCount: draft.pageCount,
+      language: draft.language,
+      shelfIds: draft.shelfIds,
+      author: authorList[0] || draft.author,
+      authors: authorList,
+      categories: splitList(categories),
+      isbn10: draft.isbn10 ? normalizeIsbn(draft.isbn10) : undefined,
+      isbn13: draft.isbn13 ? normalizeIsbn(draft.isbn13) : undefined,
+    });
+  };
+
   return (
     <div className="fixed inset-0 z-[60] bg-black/60 flex items-center justify-center p-4">
-      <div className="bg-white w-full max-w-sm rounded-3xl p-6 shadow-2xl">
+      <div className="bg-white w-full max-w-sm rounded-3xl p-6 shadow-2xl max-h-[90vh] flex flex-col">
         <h2 className="text-lg font-bold mb-6 font-serif">Book Settings</h2>
-        <div className="space-y-4 mb-8">
+        <div className="space-y-4 mb-8 overflow-y-auto hide-scrollbar">
+          <div>
+            <label className={labelClass}>Title</label>
+            <input value={draft.title} onChange={(e) => set({ title: e.target.value })} className={inputClass} />
+          </div>
           <div>
-            <label className="text-[10px] font-bold text-gray-400 uppercase tracking-widest mb-1 block">Title</label>
-            <input value={title} onChange={(e) => setTitle(e.target.value)} className="w-full p-3 bg-gray-50 rounded-xl focus:ring-2 focus:ring-accent/20 outline-none" />
+            <label className={labelClass}>Authors</label>
+            <input value={authors} onChange={(e) => setAuthors(e.target.value)} placeholder="Separate with commas" className={inputClass} />
           </div>
           <div>
-            <label className="text-[10px] font-bold text-gray-400 uppercase tracking-widest mb-1 block">Author</label>
-            <input value={author} onChange={(e) => setAuthor(e.target.value)} className="w-full p-3 bg-gray-50 rounded-xl focus:ring-2 focus:ring-accent/20 outline-none" />
+            <label className={labelClass}>Reading Status</label>
+            <select value={draft.readingStatus || ''} onChange={(e) => setDraft(d => withReadingStatus(d, (e.target.value || undefined) as ReadingStatus | undefined))} className={inputClass}>
+              <option value="">Not set</option>
+              {READING_STATUSES.map(s => <option key={s.id} value={s.id}>{s.label}</option>)}
+            </select>
           </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className={labelClass}>Started</label>
+              <input type="date" value={draft.startedAt?.slice(0, 10) || ''} onChange={(e) => set({ startedAt: e.target.value ? new Date(e.target.value).toISOString() : undefined })} className={inputClass} />
+            </div>
+            <div>
+              <label className={labelClass}>Finished</label>
+              <input type="date" value={draft.finishedAt?.slice(0, 10) || ''} onChange={(e) => set({ finishedAt: e.target.value ? new Date(e.target.value).toISOString() : undefined })} className={inputClass} />
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className={labelClass}>ISBN-13</label>
+              <input value={draft.isbn13 || ''} onChange={(e) => set({ isbn13: e.target.value })} className={inputClass} />
+            </div>
+            <div>
+              <label className={labelClass}>ISBN-10</label>
+              <input value={draft.isbn10 || ''} onChange={(e) => set({ isbn10: e.target.value })} className={inputClass} />
+            </div>
+          </div>
+          <div>
+            <label className={labelClass}>Publisher</label>
+            <input value={draft.publisher || ''} onChange={(e) => set({ publisher: e.target.value || undefined })} className={inputClass} />
+          </div>
+          <div className="grid grid-cols-3 gap-3">
+            <div>
+              <label className={labelClass}>Published</label>
+              <input value={draft.publishedDate || ''} onChange={(e) => set({ publishedDate: e.target.value || undefined })} placeholder="YYYY" className={inputClass} />
+            </div>
+            <div>
+              <label className={labelClass}>Pages</label>
+              <input type="number" min={1} value={draft.pageCount || ''} onChange={(e) => set({ pageCount: Number(e.target.value) || undefined })} className={inputClass} />
+            </div>
+            <div>
+              <label className={labelClass}>Language</label>
+              <input value={draft.language || ''} onChange={(e) => set({ language: e.target.value || undefined })} placeholder="en" className={inputClass} />
+            </div>
+          </div>
+          <div>
+            <label className={labelClass}>Genres</label>
+            <input value={categories} onChange={(e) => setCategories(e.target.value)} placeholder="Separate with commas" className={inputClass} />
+          </div>
+          {shelves.length > 0 && (
+            <div>
+              <label className={labelClass}>Shelves</label>
+              <div className="flex flex-wrap gap-2">
+                {shelves.map(shelf => {
+                  const onShelf = !!draft.shelfIds?.includes(shelf.id);
+                  return (
+                    <FilterChip key={shelf.id} active={onShelf} onClick={() => set({ shelfIds: onShelf ? draft.shelfIds!.filter(id => id !== shelf.id) : [...(draft.shelfIds || []), shelf.id] })}>
+                      {shelf.name}
+                    </FilterChip>
+                  );
+                })}
+              </div>
+            </div>
+          )}
         </div>
         <div className="flex flex-col gap-2">
-           <button onClick={() => onUpdate(title, author)} className="w-full py-3 bg-accent text-white font-bold rounded-xl hover:bg-accent/90 transition">Save Changes</button>
+           <button onClick={handleSave} className="w-full py-3 bg-accent text-white font-bold rounded-xl hover:bg-accent/90 transition">Save Changes</button>
            <button onClick={onDelete} className="w-full py-3 text-red-500 font-bold hover:bg-red-50 rounded-xl transition flex items-center justify-center gap-2"><Trash2 size={18} /> Delete Book</button>
            <button onClick={onClose} className="w-full py-3 text-gray-400 font-medium">Cancel</button>
         </div>
@@ -395,12 +535,32 @@ const BookSettingsModal = ({ book, isOpen, onClose, onUpdate, onDelete }: { book
   );
 };
 
-const ImportModal = ({ isOpen, onClose, onImport }: { isOpen: boolean, onClose: () => void, onImport: (text: string) => Promise<any> }) => {
+type ImportTab = 'KINDLE' | 'NOOK' | 'KOBO' | 'APPLE' | 'GOOGLE' | 'READWISE' | 'BACKUP';
+
+const IMPORT_TABS: { id: ImportTab; label: string; guide: string; accept: string }[] = [
+  { id: 'KINDLE', label: 'Kindle (USB)', accept: '.txt', guide: "Connect your Kindle device. Navigate to 'documents' and drag 'My Clippings.txt' into the box below." },
+  { id: 'NOOK', label: 'Nook / Mobile HTML', accept: '.html,.htm', guide: "Export your highlights as HTML from the mobile app (Kindle or Nook) and upload the file below." },
+  { id: 'KOBO', label: 'Kobo', accept: '.sqlite', guide: "Connect your Kobo and enable hidden files. Open the '.kobo' folder and drag 'KoboReader.sqlite' into the box below." },
+  { id: 'APPLE', label: 'Apple Books', accept: '.html,.htm', guide: "In Apple Books, open the book's Notes, tap Share and email them to yourself. Save the email as HTML and upload it below." },
+  { id: 'GOOGLE', label: 'Play Books', accept: '.html,.htm', guide: "Play Books saves notes to 'Play Books Notes' in Google Drive. Download the book's notes document as a Web page, unzip it and upload the .html file below." },
+  { id: 'READWISE', label: 'Readwise CSV', accept: '.csv', guide: "In Readwise, open Export and choose CSV. Upload the downloaded file below; notes become thoughts and original dates are kept." },
+  { id: 'BACKUP', label: 'Lumina Backup', accept: '.json', guide: "Upload a backup created with Export Library. Merge keeps your current library and adds what is missing; Replace restores the backup exactly." },
+];
+
+const ImportModal = ({ isOpen, onClose, onImport, onRestore }: { isOpen: boolean, onClose: () => void, onImport: (plan: ImportPlan) => Promise<any>, onRestore: (text: string, mode: RestoreMode) => Promise<any> }) => {
   const [text, setText] = useState('');
+  const [fileBytes, setFileBytes] = useState<Uint8Array | null>(null);
   const [loading, setLoading] = useState(false);
-  const [activeTab, setActiveTab] = useState<'KINDLE' | 'NOOK'>('KINDLE');
+  const [parsedBooks, setParsedBooks] = useState<ImportedBookData[] | null>(null);
+  const [plan, setPlan] = useState<ImportPlan | null>(null);
+  const [libraryBooks, setLibraryBooks] = useState<Book[]>([]);
+  const [excludedKeys, setExcludedKeys] = useState<Set<string>>(new Set());
+  const [bookOverrides, setBookOverrides] = useState<Record<string, string | null>>({});
+  const [activeTab, setActiveTab] = useState<ImportTab>('KINDLE');
+  const [restoreMode, setRestoreMode] = useState<RestoreMode>('merge');
   const [isDragging, setIsDragging] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const tab = IMPORT_TABS.find(t => t.id === activeTab)!;
 
   const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement> | React.DragEvent) => {
     let file: File | undefined;
@@ -411,12 +571,37 @@ const ImportModal = ({ isOpen, onClose, onImport }: { isOpen: boolean, onClose:
     }
     if (!file) return;
     const reader = new FileReader();
+    if (activeTab === 'KOBO') {
+      const fileName = file.name;
+      reader.onload = (event) => {
+        if (!event.target?.result) return;
+        const bytes = new Uint8Array(event.target.result as ArrayBuffer);
+        setFileBytes(bytes);
+        setText(`${fileName} (${Math.round(bytes.length / 1024)} KB)`);
+      };
+      reader.readAsArrayBuffer(file);
+      return;
+    }
     reader.onload = (event) => {
       if (event.target?.result) setText(event.target.result as string);
     };
     reader.readAsText(file);
   };
 
+  const clearFile = () => {
+    setText('');
+    setFileBytes(null);
+    setParsedBooks(null);
+    setPlan(null);
+    setExcludedKeys(new Set());
+    setBookOverrides({});
+  };
+
+  const selectTab = (id: ImportTab) => {
+    setActiveTab(id);
+    clearFile();
+  };
+
   const handleDragOver = (e: React.DragEvent) => {
     e.preventDefault();
     setIsDragging(true);
@@ -430,12 +615,69 @@ const ImportModal = ({ isOpen, onClose, onImport }: { isOpen: boolean, onClose:
     handleFileUpload(e);
   };
 
+  const parseSelectedFile = async (): Promise<ImportedBookData[]> => {
+    switch (activeTab) {
+      case 'KOBO': return fileBytes ? parseKoboDatabase(fileBytes) : [];
+      case 'APPLE': return parseAppleBooksHtml(text);
+      case 'GOOGLE': return parseGooglePlayBooksHtml(text);
+      default: return parseImportText(text);
+    }
+  };
+
   const handleSubmit = async () => {
     if (!text.trim()) return;
     setLoading(true);
     try {
-      await onImport(text);
-      setText('');
+      if (activeTab === 'BACKUP') {
+        if (restoreMode === 'replace' && !confirm("Replace your entire library with this backup? Current books and highlights will be removed.")) return;
+        await onRestore(text, restoreMode);
+        clearFile();
+        onClose();
+      } else {
+        const importedBooksData = await parseSelectedFile();
+        if (importedBooksData.length === 0) throw new Error("No highlights detected in that file.");
+        setParsedBooks(importedBooksData);
+        setLibraryBooks(await BookRepository.getAll());
+        setPlan(await buildImportPlan(importedBooksData));
+      }
+    } catch (e: any) { alert(e.message); } finally { setLoading(false); }
+  };
+
+  const handleThresholdChange = async (threshold: number) => {
+    if (!parsedBooks) return;
+    setSimilarityThreshold(threshold);
+    setPlan(await buildImportPlan(parsedBooks, threshold, bookOverrides));
+  };
+
+  const handleToggleHighlights = (keys: string[], selected: boolean) => {
+    setExcludedKeys(prev => {
+      const next = new Set(prev);
+      keys.forEach(k => selected ? next.delete(k) : next.add(k));
+      return next;
+    });
+  };
+
+  const handleReassignBook = async (bookKey: string, bookId: string | null) => {
+    if (!parsedBooks || !plan) return;
+    const overrides = { ...bookOverrides, [bookKey]: bookId };
+    setBookOverrides(overrides);
+    setPlan(await buildImportPlan(parsedBooks, plan.threshold, overrides));
+  };
+
+  const handleEditBook = (bookKey: string, changes: { title?: string; author?: string }) => {
+    if (!parsedBooks || !plan) return;
+    const index = Number(bookKey);
+    const edited = { ...parsedBooks[index], ...changes };
+    setParsedBooks(parsedBooks.map((b, i) => i === index ? edited : b));
+    setPlan({ ...plan, books: plan.books.map(b => b.key === bookKey ? { ...b, imported: edited } : b) });
+  };
+
+  const handleConfirmImport = async () => {
+    if (!plan) return;
+    setLoading(true);
+    try {
+      await onImport(withoutExcluded(plan, excludedKeys));
+      clearFile();
       onClose();
     } catch (e: any) { alert(e.message); } finally { setLoading(false); }
   };
@@ -446,68 +688,89 @@ const ImportModal = ({ isOpen, onClose, onImport }: { isOpen: boolean, onClose:
     <div className="fixed inset-0 z-[70] bg-black/60 flex items-center justify-center p-4 animate-in fade-in duration-200">
       <div className="bg-white rounded-[32px] w-full max-w-xl p-8 shadow-2xl overflow-hidden flex flex-col max-h-[90vh]">
         <div className="flex justify-between items-center mb-6">
-          <h2 className="text-xl font-serif font-bold text-ink">Sync Ebook Highlights</h2>
+          <h2 className="text-xl font-serif font-bold text-ink">{plan ? 'Review Import' : 'Sync Ebook Highlights'}</h2>
           <button onClick={onClose} className="p-2 hover:bg-gray-100 rounded-full text-gray-400"><X size={24} /></button>
         </div>
-        
-        <div className="flex gap-2 p-1 bg-gray-100 rounded-2xl mb-8">
-           <button onClick={() => setActiveTab('KINDLE')} className={`flex-1 py-2 text-xs font-bold rounded-xl transition ${activeTab === 'KINDLE' ? 'bg-white shadow-sm text-ink' : 'text-gray-400'}`}>Kindle (USB)</button>
-           <button onClick={() => setActiveTab('NOOK')} className={`flex-1 py-2 text-xs font-bold rounded-xl transition ${activeTab === 'NOOK' ? 'bg-white shadow-sm text-ink' : 'text-gray-400'}`}>Nook / Mobile HTML</button>
-        </div>
 
-        <div className="flex-1 overflow-y-auto space-y-8 pb-4 hide-scrollbar">
-          <div className="bg-accent/5 p-5 rounded-[24px] border border-accent/10">
-            <h3 className="text-[10px] font-bold text-accent mb-2 uppercase tracking-widest">Guide</h3>
-            <p className="text-xs text-ink/70 leading-relaxed font-medium">
-              {activeTab === 'KINDLE' 
-                ? "Connect your Kindle device. Navigate to 'documents' and drag 'My Clippings.txt' into the box below."
-                : "Export your highlights as HTML from the mobile app (Kindle or Nook) and upload the file below."}
-            </p>
+        {plan ? (
+          <ImportPreview
+            plan={plan}
+            libraryBooks={libraryBooks}
+            excludedKeys={excludedKeys}
+            isCommitting={loading}
+            onThresholdChange={handleThresholdChange}
+            onToggleHighlights={handleToggleHighlights}
+            onReassignBook={handleReassignBook}
+            onEditBook={handleEditBook}
+            onBack={() => setPlan(null)}
+            onConfirm={handleConfirmImport}
+          />
+        ) : (
+          <>
+          <div className="flex gap-2 p-1 bg-gray-100 rounded-2xl mb-8 overflow-x-auto hide-scrollbar">
+             {IMPORT_TABS.map(t => (
+               <button key={t.id} onClick={() => selectTab(t.id)} className={`flex-1 px-3 py-2 text-xs font-bold rounded-xl transition whitespace-nowrap ${activeTab === t.id ? 'bg-white shadow-sm text-ink' : 'text-gray-400'}`}>{t.label}</button>
+             ))}
           </div>
 
-          <div 
-             onDragOver={handleDragOver}
-             onDragLeave={handleDragLeave}
-             onDrop={handleDrop}
-             onClick={() => fileInputRef.current?.click()}
-             className={`border-2 border-dashed rounded-[32px] p-12 flex flex-col items-center justify-center cursor-pointer transition-all group ${
-               isDragging ? 'border-accent bg-accent/5 scale-[1.02]' : 'border-gray-200 hover:border-accent/40 hover:bg-accent/5'
-             }`}
-          >
-             <div className="w-16 h-16 rounded-3xl bg-gray-50 flex items-center justify-center text-gray-400 group-hover:bg-accent group-hover:text-white transition-all mb-4 shadow-sm">
-                <Upload size={28} />
-             </div>
-             <p className="text-sm font-bold text-ink">Drop your export file here</p>
-             <p className="text-[10px] text-gray-400 font-bold uppercase tracking-widest mt-2">or click to browse files</p>
-             <input ref={fileInputRef} type="file" accept=".txt,.html" onChange={handleFileUpload} className="hidden" />
-          </div>
+          <div className="flex-1 overflow-y-auto space-y-8 pb-4 hide-scrollbar">
+            <div className="bg-accent/5 p-5 rounded-[24px] border border-accent/10">
+              <h3 className="text-[10px] font-bold text-accent mb-2 uppercase tracking-widest">Guide</h3>
+              <p className="text-xs text-ink/70 leading-relaxed font-medium">{tab.guide}</p>
+            </div>
 
-          {text && (
-            <div className="relative animate-in slide-in-from-bottom-2">
-              <div className="flex justify-between items-center mb-2 px-2">
-                <span className="text-[10px] font-bold text-gray-400 uppercase tracking-widest">Content Loaded</span>
-                <button onClick={() => setText('')} className="text-xs text-red-500 font-bold hover:underline">Clear</button>
+            {activeTab === 'BACKUP' && (
+              <div className="flex gap-2 p-1 bg-gray-100 rounded-2xl">
+                 <button onClick={() => setRestoreMode('merge')} className={`flex-1 py-2 text-xs font-bold rounded-xl transition ${restoreMode === 'merge' ? 'bg-white shadow-sm text-ink' : 'text-gray-400'}`}>Merge</button>
+                 <button onClick={() => setRestoreMode('replace')} className={`flex-1 py-2 text-xs font-bold rounded-xl transition ${restoreMode === 'replace' ? 'bg-white shadow-sm text-red-500' : 'text-gray-400'}`}>Replace</button>
               </div>
-              <textarea
-                value={text}
-                readOnly
-                className="w-full h-32 p-4 bg-gray-50 border border-gray-200 rounded-2xl font-mono text-[10px] focus:outline-none resize-none opacity-60"
-              />
+            )}
+
+            <div 
+               onDragOver={handleDragOver}
+               onDragLeave={handleDragLeave}
+               onDrop={handleDrop}
+               onClick={() => fileInputRef.current?.click()}
+               className={`border-2 border-dashed rounded-[32px] p-12 flex flex-col items-center justify-center cursor-pointer transition-all group ${
+                 isDragging ? 'border-accent bg-accent/5 scale-[1.02]' : 'border-gray-200 hover:border-accent/40 hover:bg-accent/5'
+               }`}
+            >
+               <div className="w-16 h-16 rounded-3xl bg-gray-50 flex items-center justify-center text-gray-400 group-hover:bg-accent group-hover:text-white transition-all mb-4 shadow-sm">
+                  <Upload size={28} />
+               </div>
+               <p className="text-sm font-bold text-ink">Drop your export file here</p>
+               <p className="text-[10px] text-gray-400 font-bold uppercase tracking-widest mt-2">or click to browse files</p>
+               <input ref={fileInputRef} type="file" accept={tab.accept} onChange={handleFileUpload} className="hidden" />
             </div>
-          )}
-        </div>
 
-        <div className="flex justify-end gap-3 pt-6 border-t border-gray-100">
-          <button onClick={onClose} className="px-6 py-2.5 text-gray-400 font-bold text-xs uppercase tracking-widest hover:text-ink transition">Cancel</button>
-          <button 
-            onClick={handleSubmit} 
-            disabled={!text.trim() || loading} 
-            className="px-8 py-2.5 bg-accent text-white font-bold text-xs uppercase tracking-widest rounded-2xl hover:bg-accent/90 disabled:opacity-50 shadow-lg shadow-accent/20 transition flex items-center gap-2"
-          >
-            {loading ? <Loader2 size={14} className="animate-spin" /> : <RefreshCw size={14} />}
-            {loading ? 'Processing...' : 'Sync Highlights'}
-          </button>
-        </div>
+            {text && (
+              <div className="relative animate-in slide-in-from-bottom-2">
+                <div className="flex justify-between items-center mb-2 px-2">
+                  <span className="text-[10px] font-bold text-gray-400 uppercase tracking-widest">Content Loaded</span>
+                  <button onClick={clearFile} className="text-xs text-red-500 font-bold hover:underline">Clear</button>
+                </div>
+                <textarea
+                  value={text}
+                  readOnly
+                  className="w-full h-32 p-4 bg-gray-50 border border-gray-200 rounded-2xl font-mono text-[10px] focus:outline-none resize-none opacity-60"
+                />
+              </div>
+            )}
+          </div>
+
+          <div className="flex justify-end gap-3 pt-6 border-t border-gray-100">
+            <button onClick={onClose} className="px-6 py-2.5 text-gray-400 font-bold text-xs uppercase tracking-widest hover:text-ink transition">Cancel</button>
+            <button 
+              onClick={handleSubmit} 
+              disabled={!text.trim() || loading} 
+              className="px-8 py-2.5 bg-accent text-white font-bold text-xs uppercase tracking-widest rounded-2xl hover:bg-accent/90 disabled:opacity-50 shadow-lg shadow-accent/20 transition flex items-center gap-2"
+            >
+              {loading ? <Loader2 size={14} className="animate-spin" /> : <RefreshCw size={14} />}
+              {loading ? 'Processing...' : activeTab === 'BACKUP' ? 'Restore Backup' : 'Review Highlights'}
+            </button>
+          </div>
+          </>
+        )}
       </div>
     </div>
   );
@@ -516,7 +779,9 @@ const ImportModal = ({ isOpen, onClose, onImport }: { isOpen: boolean, onClose:
 interface ImportSummary {
   totalBooksProcessed: number;
   totalHighlightsAdded: number;
-  updates: { title: string; newCount: number }[];
+  totalHighlightsUpdated?: number;
+  updates: { title: string; newCount: number; updatedCount?: number }[];
+  conflicts?: { title: string; detail: string }[];
 }
 
 const ImportSummaryModal = ({ summary, onClose }: { summary: ImportSummary, onClose: () => void }) => {
@@ -548,12 +813,25 @@ const ImportSummaryModal = ({ summary, onClose }: { summary: ImportSummary, onCl
                 {summary.updates.length > 0 ? summary.updates.map((up, i) => (
                    <div key={i} className="flex justify-between items-center bg-gray-50/50 p-3 rounded-xl border border-gray-100">
                       <span className="text-xs font-serif font-bold text-ink/80 truncate pr-4">{up.title}</span>
-                      <span className="text-[10px] font-bold px-2 py-1 bg-white rounded-lg text-accent shadow-sm border border-accent/5">+{up.newCount}</span>
+                      <span className="text-[10px] font-bold px-2 py-1 bg-white rounded-lg text-accent shadow-sm border border-accent/5 whitespace-nowrap">+{up.newCount}{up.updatedCount ? ` · ${up.updatedCount} updated` : ''}</span>
                    </div>
                 )) : (
                    <div className="text-center py-6 text-gray-400 text-xs italic">No new highlights found in this batch.</div>
                 )}
              </div>
+             {summary.conflicts && summary.conflicts.length > 0 && (
+                <>
+                  <h3 className="text-[10px] font-bold text-red-400 uppercase tracking-widest mt-6 mb-4 sticky top-0 bg-white py-1">Conflicts ({summary.conflicts.length})</h3>
+                  <div className="space-y-3">
+                     {summary.conflicts.map((c, i) => (
+                        <div key={i} className="bg-red-50/50 p-3 rounded-xl border border-red-100">
+                           <span className="block text-xs font-serif font-bold text-ink/80 truncate">{c.title}</span>
+                           <span className="block text-[10px] text-gray-500 mt-1">{c.detail}</span>
+                        </div>
+                     ))}
+                  </div>
+                </>
+             )}
           </div>
 
           <button onClick={onClose} className="w-full py-4 bg-ink text-white rounded-2xl font-bold shadow-xl hover:bg-slate-800 transition-all active:scale-[0.98]">Got it</button>
@@ -566,48 +844,123 @@ const Library = () => {
   const [books, setBooks] = useState<Book[]>([]);
   const [isAddingBook, setIsAddingBook] = useState(false);
   const [addBookQuery, setAddBookQuery] = useState('');
+  const [bookCandidates, setBookCandidates] = useState<BookMetadata[] | null>(null);
+  const [shelves, setShelves] = useState<Shelf[]>([]);
+  const [libraryView, setLibraryViewState] = useState<LibraryView>(getLibraryView);
   const [isGlobalSearchOpen, setIsGlobalSearchOpen] = useState(false);
   const [globalSearchQuery, setGlobalSearchQuery] = useState('');
+  const [isSemanticSearch, setIsSemanticSearch] = useState(false);
+  const [semanticResults, setSemanticResults] = useState<SimilarHighlight[] | null>(null);
+  const [isSemanticSearching, setIsSemanticSearching] = useState(false);
   const [isImportModalOpen, setIsImportModalOpen] = useState(false);
+  const [isExportMenuOpen, setIsExportMenuOpen] = useState(false);
   const [importSummary, setImportSummary] = useState<ImportSummary | null>(null);
   const [isAdding, setIsAdding] = useState(false);
   const [isScannerOpen, setIsScannerOpen] = useState(false);
   const [dailyPick, setDailyPick] = useState<{ highlight: Highlight, book: Book } | null>(null);
+  const [libraryChat, setLibraryChat] = useState<Conversation | null>(null);
   const navigate = useNavigate();
 
-  const allHighlightsWithBooks = useMemo(() => getAllHighlightsWithBooks(), [books]);
+  const [allHighlightsWithBooks, setAllHighlightsWithBooks] = useState<{ highlight: Highlight, book: Book }[]>([]);
 
   useEffect(() => {
-    setBooks(getStoredBooks());
+    getAllHighlightsWithBooks().then(setAllHighlightsWithBooks);
+  }, [books]);
+
+  useEffect(() => {
+    BookRepository.getAll().then(setBooks);
+    ShelfRepository.getAll().then(setShelves);
     refreshDailyPick();
   }, []);
 
-  const refreshDailyPick = () => {
-    const all = getAllHighlightsWithBooks();
-    if (all.length > 0) setDailyPick(all[Math.floor(Math.random() * all.length)]);
+  const visibleBooks = useMemo(
+    () => applyLibraryView(books, allHighlightsWithBooks.map(({ highlight }) => highlight), libraryView),
+    [books, allHighlightsWithBooks, libraryView]
+  );
+  const isFiltered = libraryView.statuses.length > 0 || libraryView.sources.length > 0 || !!libraryView.shelfId;
+
+  const updateLibraryView = (changes: Partial<LibraryView>) => {
+    const next = { ...libraryView, ...changes };
+    setLibraryViewState(next);
+    setLibraryView(next);
+  };
+
+  const handleCreateShelf = async () => {
+    const name = prompt("Name your new shelf")?.trim();
+    if (!name) return;
+    const shelf: Shelf = { id: crypto.randomUUID(), name, createdAt: new Date().toISOString() };
+    await ShelfRepository.put(shelf);
+    setShelves(await ShelfRepository.getAll());
+  };
+
+  const handleDeleteShelf = async (shelf: Shelf) => {
+    if (!confirm(`Delete the "${shelf.name}" shelf? Its books stay in your library.`)) return;
+    await ShelfRepository.delete(shelf.id);
+    setShelves(await ShelfRepository.getAll());
+    setBooks(await BookRepository.getAll());
+    updateLibraryView({ shelfId: null });
+  };
+
+  // The reflection card shows the next highlight due for review, falling back to a random one.
+  const refreshDailyPick = async () => {
+    const all = await getAllHighlightsWithBooks();
+    if (all.length === 0) return;
+    const [next] = buildReviewQueue(all.map(({ highlight }) => highlight));
+    setDailyPick(all.find(({ highlight }) => highlight.id === next?.id) || all[Math.floor(Math.random() * all.length)]);
+  };
+
+  // Semantic search runs on Enter rather than per keystroke, since each query is an API call.
+  const handleSemanticSearch = async () => {
+    if (!globalSearchQuery.trim()) return;
+    setIsSemanticSearching(true);
+    try {
+      await libraryEmbeddings.sync(allHighlightsWithBooks.map(({ highlight }) => highlight));
+      setSemanticResults(await libraryEmbeddings.search(globalSearchQuery));
+    } catch (e) {
+      alert("Semantic search is unavailable right now.");
+    } finally {
+      setIsSemanticSearching(false);
+    }
   };
 
+  const searchIndex = useMemo(() => createSearchIndex(), []);
+  const indexedHighlightsRef = useRef<typeof allHighlightsWithBooks | null>(null);
+
   const filteredLibrary = useMemo(() => {
     if (!globalSearchQuery.trim()) return null;
-    const lower = globalSearchQuery.toLowerCase();
-    const matchingBooks = books.filter(b => b.title.toLowerCase().includes(lower) || b.author.toLowerCase().includes(lower));
-    const matchingHighlights = allHighlightsWithBooks.filter(({ highlight }) => highlight.text.toLowerCase().includes(lower) || highlight.thoughts.some(t => t.text.toLowerCase().includes(lower)));
-    return { books: matchingBooks, highlights: matchingHighlights };
-  }, [globalSearchQuery, books, allHighlightsWithBooks]);
+    // Only re-sync when the highlight list itself changed, not on every keystroke.
+    if (indexedHighlightsRef.current !== allHighlightsWithBooks) {
+      searchIndex.sync(allHighlightsWithBooks);
+      indexedHighlightsRef.current = allHighlightsWithBooks;
+    }
+    const parsed = parseSearchQuery(globalSearchQuery);
+    const words = [...parsed.terms, ...(parsed.prefix ? [parsed.prefix] : [])];
+    const hasFilters = Object.keys(parsed.filters).length > 0;
+    const matchingBooks = hasFilters || words.length === 0 ? [] : books.filter(b => {
+      const haystack = `${b.title} ${b.authors?.join(' ') || b.author}`.toLowerCase();
+      return globalSearchQuery.toLowerCase().split(/\s+/).filter(Boolean).every(w => haystack.includes(w.replace(/"/g, '')));
+    });
+    return { books: matchingBooks, highlights: searchIndex.search(parsed) };
+  }, [globalSearchQuery, books, allHighlightsWithBooks, searchIndex]);
 
   const handleAddBook = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!addBookQuery.trim()) return;
     setIsAdding(true);
-    const newBook = await searchForBook(addBookQuery);
+    const candidates = await searchBookCandidates(addBookQuery);
     setIsAdding(false);
-    if (newBook) {
-      const updatedBooks = [newBook, ...books];
-      setBooks(updatedBooks);
-      saveBooks(updatedBooks);
-      setAddBookQuery('');
-      setIsAddingBook(false);
-    } else { alert("Book not found. You can try snapping a photo of the cover."); }
+    setBookCandidates(candidates);
+  };
+
+  const handleSelectCandidate = async (candidate: BookMetadata) => {
+    setIsAdding(true);
+    const newBook = { ...metadataToBook(candidate), createdAt: new Date().toISOString() };
+    await BookRepository.put(newBook);
+    setIsAdding(false);
+    setBooks([newBook, ...books]);
+    setBookCandidates(null);
+    setAddBookQuery('');
+    setIsAddingBook(false);
   };
 
   const handleCoverScan = async (imageSrc: string) => {
@@ -615,101 +968,133 @@ const Library = () => {
     setIsAdding(true);
     const result = await identifyBookFromCover(imageSrc);
     if (result && result.title) {
-      const query = result.isbn ? `isbn:${result.isbn}` : `${result.title} ${result.author}`;
-      const newBook = await searchForBook(query);
+      const newBook = await searchForBook({ isbn: result.isbn, title: result.title, author: result.author });
       const finalBook: Book = newBook || { id: crypto.randomUUID(), title: result.title, author: result.author || "Unknown", coverUrl: imageSrc, totalHighlights: 0 };
       if (finalBook.coverUrl.includes('placehold.co')) finalBook.coverUrl = imageSrc;
-      const updatedBooks = [finalBook, ...books];
-      setBooks(updatedBooks);
-      saveBooks(updatedBooks);
+      await BookRepository.put(finalBook);
+      setBooks([finalBook, ...books]);
       setIsAddingBook(false);
     } else { alert("Could not identify book. Try searching by title."); }
     setIsAdding(false);
   };
 
-  const handleBulkImport = async (importText: string) => {
-    const importedBooksData = parseImportText(importText);
-    if (importedBooksData.length === 0) throw new Error("No highlights detected in that file.");
-
-    const currentBooks = [...getStoredBooks()];
-    const allHighlights = JSON.parse(localStorage.getItem(STORAGE_KEY_HIGHLIGHTS) || '[]');
-    let addedCount = 0;
-    const updates: { title: string; newCount: number }[] = [];
-
-    for (const iBook of importedBooksData) {
-       let bookObj = currentBooks.find(b => b.title.toLowerCase() === iBook.title.toLowerCase());
-       let newHighlightsInBook = 0;
-
-       if (!bookObj) {
-         const meta = await searchForBook(`${iBook.title} ${iBook.author}`);
-         bookObj = meta || { id: crypto.randomUUID(), title: iBook.title, author: iBook.author, coverUrl: `https://placehold.co/400x600?text=${encodeURIComponent(iBook.title)}`, totalHighlights: 0 };
-         currentBooks.unshift(bookObj);
-       }
-       
-       iBook.highlights.forEach(h => {
-         const exists = allHighlights.some((eh: any) => eh.bookId === bookObj!.id && eh.text === h.text);
-         if (!exists) {
-           allHighlights.push({ 
-             id: crypto.randomUUID(), 
-             bookId: bookObj!.id, 
-             text: h.text, 
-             pageNumber: h.page ? parseInt(h.page) : undefined, 
-             thoughts: [], 
-             createdAt: new Date().toISOString(),
-             source: 'digital'
-           });
-           addedCount++;
-           newHighlightsInBook++;
-           bookObj!.totalHighlights++;
-         }
-       });
-
-       if (newHighlightsInBook > 0) {
-          updates.push({ title: iBook.title, newCount: newHighlightsInBook });
-       }
-    }
+  const handleBulkImport = async (plan: ImportPlan) => {
+    const result = await applyImportPlan(plan);
+    setBooks(await BookRepository.getAll());
+    setImportSummary(result);
+  };
 
-    setBooks(currentBooks);
-    saveBooks(currentBooks);
-    localStorage.setItem(STORAGE_KEY_HIGHLIGHTS, JSON.stringify(allHighlights));
-    
+  const handleRestoreBackup = async (backupText: string, mode: RestoreMode) => {
+    const backup = parseLibraryBackup(backupText);
+    const report = await restoreLibraryBackup(backup, mode);
+    setBooks(await BookRepository.getAll());
+    refreshDailyPick();
     setImportSummary({
-       totalBooksProcessed: importedBooksData.length,
-       totalHighlightsAdded: addedCount,
-       updates
+       totalBooksProcessed: report.booksRestored,
+       totalHighlightsAdded: report.highlightsAdded,
+       updates: report.updates,
+       conflicts: report.conflicts
     });
   };
 
+  const handleExportLibrary = async () => {
+    try { await exportLibraryBackup(); } catch (e) { alert("Export failed."); }
+  };
+
+  const handleExportCsv = async () => {
+    try { await exportReadwiseCsv(); } catch (e) { alert("Export failed."); }
+  };
+
+  const handleExportFlashcards = async (format: 'apkg' | 'csv') => {
+    try {
+      const count = format === 'apkg' ? await exportFlashcardsApkg() : await exportFlashcardsCsv();
+      if (count === 0) alert("No flashcards yet. Open a highlight to make some.");
+    } catch (e) { alert("Flashcard export failed."); }
+  };
+
+  const handleExportMarkdown = async () => {
+    try {
+      const result = await exportMarkdownVault();
+      alert(`Markdown export complete: ${result.created} created, ${result.updated} updated, ${result.unchanged} unchanged.`);
+    } catch (e: any) {
+      if (e?.name !== 'AbortError') alert("Markdown export failed.");
+    }
+  };
+
   return (
     <div className="min-h-screen bg-paper pb-20">
       <header className="sticky top-0 z-30 bg-paper/95 backdrop-blur-md border-b border-gray-100 px-6 py-4">
         <div className="flex justify-between items-center max-w-2xl mx-auto">
           <h1 className="text-2xl font-serif font-bold text-ink">Lumina</h1>
           <div className="flex items-center gap-2">
+            <div className="relative">
+              <button onClick={() => setIsExportMenuOpen(!isExportMenuOpen)} title="Export" className="p-2 rounded-full text-gray-500 hover:bg-gray-100 transition"><Download size={22} /></button>
+              {isExportMenuOpen && (
+                <div className="absolute right-0 mt-2 w-56 bg-white rounded-2xl shadow-xl border border-gray-100 p-2 z-40 animate-in fade-in slide-in-from-top-2 duration-200">
+                  <button onClick={() => { setIsExportMenuOpen(false); handleExportLibrary(); }} className="w-full flex items-center gap-3 px-3 py-2.5 rounded-xl text-xs font-bold text-ink hover:bg-gray-50 transition"><Download size={14} /> Export Library Backup</button>
+                  <button onClick={() => { setIsExportMenuOpen(false); handleExportMarkdown(); }} className="w-full flex items-center gap-3 px-3 py-2.5 rounded-xl text-xs font-bold text-ink hover:bg-gray-50 transition"><FileText size={14} /> Markdown Vault</button>
+                  <button onClick={() => { setIsExportMenuOpen(false); handleExportCsv(); }} className="w-full flex items-center gap-3 px-3 py-2.5 rounded-xl text-xs font-bold text-ink hover:bg-gray-50 transition"><FileText size={14} /> Readwise CSV</button>
+                  <button onClick={() => { setIsExportMenuOpen(false); handleExportFlashcards('apkg'); }} className="w-full flex items-center gap-3 px-3 py-2.5 rounded-xl text-xs font-bold text-ink hover:bg-gray-50 transition"><GraduationCap size={14} /> Flashcards for Anki</button>
+                  <button onClick={() => { setIsExportMenuOpen(false); handleExportFlashcards('csv'); }} className="w-full flex items-center gap-3 px-3 py-2.5 rounded-xl text-xs font-bold text-ink hover:bg-gray-50 transition"><FileText size={14} /> Flashcards CSV</button>
+                </div>
+              )}
+            </div>
+            <button onClick={() => navigate('/tags')} title="Tags" className="p-2 rounded-full text-gray-500 hover:bg-gray-100 transition"><Tag size={22} /></button>
+            {allHighlightsWithBooks.length > 0 && <button onClick={() => loadConversation(LIBRARY_SCOPE).then(setLibraryChat)} title="Ask Your Library" className="p-2 rounded-full text-gray-500 hover:bg-gray-100 transition"><MessagesSquare size={22} /></button>}
             <button onClick={() => setIsImportModalOpen(true)} title="Bulk Sync" className="p-2 rounded-full text-gray-500 hover:bg-gray-100 transition"><Upload size={22} /></button>
             <button onClick={() => setIsGlobalSearchOpen(!isGlobalSearchOpen)} title="Search" className="p-2 rounded-full text-gray-500 hover:bg-gray-100 transition"><Search size={22} /></button>
-            <button onClick={() => setIsAddingBook(!isAddingBook)} title="Add Book" className="p-2 rounded-full text-accent hover:bg-gray-100 transition"><Plus size={22} /></button>
+            <button onClick={() => navigate('/settings')} title="Settings" className="p-2 rounded-full text-gray-500 hover:bg-gray-100 transition"><Settings size={22} /></button>
+            <button onClick={() => { setIsAddingBook(!isAddingBook); setBookCandidates(null); }} title="Add Book" className="p-2 rounded-full text-accent hover:bg-gray-100 transition"><Plus size={22} /></button>
           </div>
         </div>
         
         {isGlobalSearchOpen && (
-           <div className="max-w-2xl mx-auto mt-4 animate-in fade-in slide-in-from-top-2 duration-200"><input type="text" placeholder="Search across your library..." className="w-full px-10 py-3 rounded-2xl bg-white border border-gray-200 shadow-sm outline-none focus:ring-2 focus:ring-accent/20" value={globalSearchQuery} onChange={(e) => setGlobalSearchQuery(e.target.value)} autoFocus /></div>
+           <div className="max-w-2xl mx-auto mt-4 flex gap-2 animate-in fade-in slide-in-from-top-2 duration-200">
+             <input
+               type="text"
+               placeholder={isSemanticSearch ? 'Describe an idea and press Enter...' : 'Search your library — try "a phrase", book:, author:, tag:, before:'}
+               className="flex-1 px-10 py-3 rounded-2xl bg-white border border-gray-200 shadow-sm outline-none focus:ring-2 focus:ring-accent/20"
+               value={globalSearchQuery}
+               onChange={(e) => { setGlobalSearchQuery(e.target.value); setSemanticResults(null); }}
+               onKeyDown={(e) => e.key === 'Enter' && isSemanticSearch && handleSemanticSearch()}
+               autoFocus
+             />
+             <button
+               onClick={() => { setIsSemanticSearch(!isSemanticSearch); setSemanticResults(null); }}
+               title={isSemanticSearch ? 'Semantic Search (by meaning)' : 'Keyword Search'}
+               className={`p-3 rounded-2xl border shadow-sm transition ${isSemanticSearch ? 'bg-accent text-white border-accent' : 'bg-white text-gray-400 border-gray-200 hover:text-accent'}`}
+             >
+               {isSemanticSearching ? <Loader2 size={20} className="animate-spin" /> : <Sparkles size={20} />}
+             </button>
+           </div>
         )}
         {isAddingBook && (
           <div className="max-w-2xl mx-auto mt-4 flex gap-2 animate-in fade-in slide-in-from-top-2 duration-200">
-            <input type="text" placeholder="Book title or Author..." className="flex-1 px-4 py-3 rounded-2xl bg-white border border-accent/20 shadow-sm outline-none" value={addBookQuery} onChange={(e) => setAddBookQuery(e.target.value)} autoFocus />
+            <input type="text" placeholder="Book title, Author or isbn:..." className="flex-1 px-4 py-3 rounded-2xl bg-white border border-accent/20 shadow-sm outline-none" value={addBookQuery} onChange={(e) => setAddBookQuery(e.target.value)} onKeyDown={(e) => e.key === 'Enter' && handleAddBook(e)} autoFocus />
             <button onClick={() => setIsScannerOpen(true)} className="p-3 bg-white border border-gray-200 rounded-2xl text-gray-400 hover:text-accent transition shadow-sm"><Camera size={20} /></button>
-            <button onClick={handleAddBook} disabled={isAdding} className="bg-accent text-white px-6 py-3 rounded-2xl font-bold shadow-md active:scale-95 transition-all">{isAdding ? <Loader2 size={18} className="animate-spin" /> : 'Add'}</button>
+            <button onClick={handleAddBook} disabled={isAdding} className="bg-accent text-white px-6 py-3 rounded-2xl font-bold shadow-md active:scale-95 transition-all">{isAdding ? <Loader2 size={18} className="animate-spin" /> : bookCandidates ? 'Search' : 'Find'}</button>
           </div>
         )}
+        {isAddingBook && bookCandidates && (
+          <BookSearchResults candidates={bookCandidates} isSaving={isAdding} onSelect={handleSelectCandidate} onClose={() => setBookCandidates(null)} />
+        )}
       </header>
 
       <main className="px-6 py-8 max-w-2xl mx-auto">
-        {filteredLibrary ? (
+        {isSemanticSearch && globalSearchQuery.trim() ? (
+          <div className="space-y-6">
+             <h2 className="text-[10px] font-bold text-gray-400 uppercase tracking-widest px-2">{semanticResults ? 'Closest in Meaning' : 'Press Enter to search by meaning'}</h2>
+             {semanticResults?.map(({ highlight, score }) => {
+               const book = books.find(b => b.id === highlight.bookId);
+               return <div key={highlight.id} onClick={() => navigate(`/book/${highlight.bookId}`)} className="bg-white p-5 rounded-2xl shadow-sm border border-gray-100 cursor-pointer group hover:border-accent/30 transition-all"><blockquote className="italic font-serif leading-relaxed text-ink/80 group-hover:text-ink line-clamp-4">"{highlight.text}"</blockquote><div className="mt-3 flex items-center justify-between text-[9px] font-bold text-gray-400 uppercase tracking-widest"><span>— {book?.title}</span><span className="text-accent">{Math.round(score * 100)}% match</span></div></div>;
+             })}
+             {semanticResults && semanticResults.length === 0 && <p className="py-10 text-center text-sm text-gray-400">Nothing similar found.</p>}
+          </div>
+        ) : filteredLibrary ? (
           <div className="space-y-6">
              <h2 className="text-[10px] font-bold text-gray-400 uppercase tracking-widest px-2">Search Results</h2>
              {filteredLibrary.books.map(book => <div key={book.id} onClick={() => navigate(`/book/${book.id}`)} className="bg-white p-3 rounded-2xl flex gap-4 cursor-pointer hover:shadow-md transition shadow-sm border border-gray-100"><img src={book.coverUrl} className="w-12 h-16 object-cover rounded-lg" /><div className="flex-1"><h3 className="font-bold text-sm leading-tight mb-1">{book.title}</h3><p className="text-xs text-gray-400">{book.author}</p></div></div>)}
-             {filteredLibrary.highlights.map(({ highlight, book }) => <div key={highlight.id} onClick={() => navigate(`/book/${book.id}`)} className="bg-white p-5 rounded-2xl shadow-sm border border-gray-100 cursor-pointer group hover:border-accent/30 transition-all"><blockquote className="italic font-serif leading-relaxed text-ink/80 group-hover:text-ink">"{highlight.text}"</blockquote><div className="mt-3 flex items-center justify-between text-[9px] font-bold text-gray-400 uppercase tracking-widest"><span>— {book.title}</span><ChevronRight size={14} /></div></div>)}
+             {filteredLibrary.highlights.map(({ highlight, book, snippet }) => <div key={highlight.id} onClick={() => navigate(`/book/${book.id}`)} className="bg-white p-5 rounded-2xl shadow-sm border border-gray-100 cursor-pointer group hover:border-accent/30 transition-all"><blockquote className="italic font-serif leading-relaxed text-ink/80 group-hover:text-ink whitespace-pre-line">"{snippet.map((part, i) => part.match ? <mark key={i} className="bg-accent/20 text-ink rounded px-0.5">{part.text}</mark> : <React.Fragment key={i}>{part.text}</React.Fragment>)}"</blockquote><div className="mt-3 flex items-center justify-between text-[9px] font-bold text-gray-400 uppercase tracking-widest"><span>— {book.title}</span><ChevronRight size={14} /></div></div>)}
           </div>
         ) : (
           <>
@@ -731,15 +1116,37 @@ const Library = () => {
               </div>
             )}
             
-            <div className="flex justify-between items-center mb-6 px-2">
+            <div className="flex justify-between items-center mb-4 px-2">
               <h2 className="text-[10px] font-bold text-gray-400 uppercase tracking-widest">Your Collection</h2>
-              <div className="flex gap-2 text-[10px] font-bold text-accent uppercase tracking-widest">
-                <button className="flex items-center gap-1 opacity-50 hover:opacity-100 transition"><LayoutGrid size={12} /> Grid</button>
+              <div className="flex items-center gap-1 text-[10px] font-bold text-accent uppercase tracking-widest">
+                <LayoutGrid size={12} className="opacity-50" />
+                <select
+                  value={libraryView.sort}
+                  onChange={(e) => updateLibraryView({ sort: e.target.value as LibraryView['sort'] })}
+                  className="bg-transparent uppercase tracking-widest font-bold outline-none cursor-pointer"
+                >
+                  {LIBRARY_SORTS.map(s => <option key={s.id} value={s.id}>{s.label}</option>)}
+                </select>
               </div>
             </div>
 
+            <div className="flex gap-2 overflow-x-auto hide-scrollbar mb-8 px-2 pb-1">
+              {READING_STATUSES.map(s => (
+                <FilterChip key={s.id} active={libraryView.statuses.includes(s.id)} onClick={() => updateLibraryView({ statuses: toggleValue(libraryView.statuses, s.id) })}>{s.label}</FilterChip>
+              ))}
+              <FilterChip active={libraryView.sources.includes('scanned')} onClick={() => updateLibraryView({ sources: toggleValue(libraryView.sources, 'scanned') })}>Scanned</FilterChip>
+              <FilterChip active={libraryView.sources.includes('digital')} onClick={() => updateLibraryView({ sources: toggleValue(libraryView.sources, 'digital') })}>Digital</FilterChip>
+              {shelves.map(shelf => (
+                <FilterChip key={shelf.id} active={libraryView.shelfId === shelf.id} onClick={() => updateLibraryView({ shelfId: libraryView.shelfId === shelf.id ? null : shelf.id })}>{shelf.name}</FilterChip>
+              ))}
+              {shelves.find(s => s.id === libraryView.shelfId) && (
+                <button onClick={() => handleDeleteShelf(shelves.find(s => s.id === libraryView.shelfId)!)} title="Delete Shelf" className="p-1.5 rounded-full text-gray-300 hover:text-red-500 transition flex-shrink-0"><Trash2 size={14} /></button>
+              )}
+              <button onClick={handleCreateShelf} title="New Shelf" className="p-1.5 rounded-full text-gray-400 hover:text-accent transition flex-shrink-0"><FolderPlus size={16} /></button>
+            </div>
+
             <div className="grid grid-cols-2 sm:grid-cols-3 gap-8">
-              {books.map(book => (
+              {visibleBooks.map(book => (
                 <div key={book.id} onClick={() => navigate(`/book/${book.id}`)} className="group cursor-pointer">
                   <div className="relative aspect-[2/3] rounded-[32px] overflow-hidden shadow-lg transition-all duration-300 group-hover:-translate-y-2 group-hover:shadow-2xl bg-gray-200">
                     <img src={book.coverUrl} className="w-full h-full object-cover" />
@@ -749,6 +1156,12 @@ const Library = () => {
                   <p className="text-[10px] text-gray-400 font-bold uppercase tracking-[0.1em] mt-2 opacity-70 leading-none">{book.author}</p>
                 </div>
               ))}
+              {books.length > 0 && visibleBooks.length === 0 && (
+                <div className="col-span-full py-20 flex flex-col items-center justify-center border-2 border-dashed border-gray-100 rounded-[32px] text-gray-400">
+                  <p className="text-sm font-medium">No books match these filters</p>
+                  {isFiltered && <button onClick={() => updateLibraryView({ statuses: [], sources: [], shelfId: null })} className="mt-4 text-accent font-bold text-xs uppercase tracking-widest">Clear filters</button>}
+                </div>
+              )}
               {books.length === 0 && (
                 <div className="col-span-full py-20 flex flex-col items-center justify-center border-2 border-dashed border-gray-100 rounded-[32px] text-gray-400">
                   <BookIcon size={48} className="mb-4 opacity-20" />
@@ -761,14 +1174,69 @@ const Library = () => {
         )}
       </main>
       <CameraModal isOpen={isScannerOpen} onClose={() => setIsScannerOpen(false)} onCapture={handleCoverScan} />
-      <ImportModal isOpen={isImportModalOpen} onClose={() => setIsImportModalOpen(false)} onImport={handleBulkImport} />
+      <ImportModal isOpen={isImportModalOpen} onClose={() => setIsImportModalOpen(false)} onImport={handleBulkImport} onRestore={handleRestoreBackup} />
       {importSummary && <ImportSummaryModal summary={importSummary} onClose={() => setImportSummary(null)} />}
+      {libraryChat && (
+        <BookChatPanel
+          title="Your Library"
+          messages={libraryChat.messages}
+          sources={new Map(allHighlightsWithBooks.map(item => [item.highlight.id, item]))}
+          showBookTitles
+          onAsk={async (question) => setLibraryChat(await askAboutHighlights(LIBRARY_SCOPE, question, allHighlightsWithBooks))}
+          onClear={async () => { await clearConversation(LIBRARY_SCOPE); setLibraryChat(await loadConversation(LIBRARY_SCOPE)); }}
+          onOpenCitation={(citation) => navigate(`/book/${citation.bookId}`)}
+          onClose={() => setLibraryChat(null)}
+        />
+      )}
     </div>
   );
 };
 
-const HighlightThreadView = ({ highlight, book, onClose, onAddThought, onDelete, onShare }: { highlight: Highlight, book: Book, onClose: () => void, onAddThought: (text: string) => void, onDelete: () => void, onShare: () => void }) => {
+const HighlightThreadView = ({ highlight, book, onClose, onAddThought, onUpdateTags, onDelete, onShare }: { highlight: Highlight, book: Book, onClose: () => void, onAddThought: (text: string) => void, onUpdateTags: (tags: string[]) => void, onDelete: () => void, onShare: () => void }) => {
   const [newThought, setNewThought] = useState('');
+  const [newTag, setNewTag] = useState('');
+  const [related, setRelated] = useState<{ highlight: Highlight, book: Book, score: number }[] | null>(null);
+  const [cards, setCards] = useState<Flashcard[]>([]);
+  const [isFlashcardsOpen, setIsFlashcardsOpen] = useState(false);
+  const navigate = useNavigate();
+
+  useEffect(() => {
+    FlashcardRepository.getByHighlight(highlight.id).then(setCards);
+  }, [highlight.id]);
+
+  const handleSaveCards = async (drafts: FlashcardDraft[]) => {
+    await FlashcardRepository.putMany(drafts.map(d => createFlashcard(highlight, d)));
+    setCards(await FlashcardRepository.getByHighlight(highlight.id));
+  };
+
+  const handleDeleteCard = async (card: Flashcard) => {
+    await FlashcardRepository.delete(card.id);
+    setCards(cards.filter(c => c.id !== card.id));
+  };
+
+  useEffect(() => {
+    let cancelled = false;
+    setRelated(null);
+    (async () => {
+      try {
+        await libraryEmbeddings.syncHighlight(highlight, async () => (await getAllHighlightsWithBooks()).map(({ highlight }) => highlight));
+        const [similar, books] = await Promise.all([libraryEmbeddings.related(highlight), BookRepository.getAll()]);
+        const booksById = new Map(books.map(b => [b.id, b]));
+        // A book deleted since the last full sync takes its highlights with it.
+        const found = similar.filter(s => booksById.has(s.highlight.bookId));
+        if (!cancelled) setRelated(found.map(s => ({ ...s, book: booksById.get(s.highlight.bookId)! })));
+      } catch (e) {
+        console.warn("Related highlights unavailable", e);
+        if (!cancelled) setRelated([]);
+      }
+    })();
+    return () => { cancelled = true; };
+  }, [highlight.id, highlight.text]);
+  const addTag = () => {
+    const tag = normalizeTag(newTag);
+    if (tag && !highlight.tags.includes(tag)) onUpdateTags([...highlight.tags, tag]);
+    setNewTag('');
+  };
   return (
     <div className="fixed inset-0 z-50 bg-paper flex flex-col animate-in slide-in-from-right duration-300">
       <div className="flex items-center justify-between p-4 border-b border-gray-100 bg-paper/95 backdrop-blur-sm">
@@ -777,10 +1245,26 @@ const HighlightThreadView = ({ highlight, book, onClose, onAddThought, onDelete,
           <span className="font-serif font-bold text-sm leading-none mb-1">Conversation</span>
           <span className="text-[9px] font-bold text-gray-400 uppercase tracking-widest">{book.title}</span>
         </div>
-        <div className="flex gap-1"><button onClick={onShare} title="Share" className="p-2 text-gray-400 hover:text-accent transition-colors"><Share2 size={20} /></button><button onClick={onDelete} title="Delete" className="p-2 text-gray-400 hover:text-red-500 transition-colors"><Trash2 size={20} /></button></div>
+        <div className="flex gap-1"><button onClick={() => setIsFlashcardsOpen(true)} title="Flashcards" className="p-2 text-gray-400 hover:text-accent transition-colors relative"><GraduationCap size={20} />{cards.length > 0 && <span className="absolute top-1 right-1 w-2 h-2 rounded-full bg-accent" />}</button><button onClick={onShare} title="Share" className="p-2 text-gray-400 hover:text-accent transition-colors"><Share2 size={20} /></button><button onClick={onDelete} title="Delete" className="p-2 text-gray-400 hover:text-red-500 transition-colors"><Trash2 size={20} /></button></div>
       </div>
       <div className="flex-1 overflow-y-auto p-6 space-y-10 hide-scrollbar">
         <blockquote className="font-serif text-2xl italic leading-relaxed text-ink border-l-[6px] border-accent/20 pl-8">"{highlight.text}"</blockquote>
+        <div className="flex flex-wrap items-center gap-2">
+          {tagsOf(highlight).map(tag => (
+            <span key={tag} className="flex items-center gap-1 pl-3 pr-2 py-1 rounded-full bg-accent/10 text-accent text-[10px] font-bold tracking-wide">
+              <button onClick={() => navigate(`/tags/${encodeURIComponent(tag)}`)}>#{tag}</button>
+              {highlight.tags.includes(tag) && <button onClick={() => onUpdateTags(highlight.tags.filter(t => t !== tag))} title="Remove Tag" className="opacity-50 hover:opacity-100"><X size={10} /></button>}
+            </span>
+          ))}
+          <input
+            value={newTag}
+            onChange={(e) => setNewTag(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && addTag()}
+            onBlur={addTag}
+            placeholder="+ Add tag"
+            className="px-3 py-1 bg-transparent text-[10px] font-bold tracking-wide text-gray-400 outline-none w-24 focus:w-36 transition-all"
+          />
+        </div>
         <div className="space-y-8">
            {highlight.thoughts.map(thought => (
              <div key={thought.id} className="flex gap-4 group">
@@ -795,6 +1279,17 @@ const HighlightThreadView = ({ highlight, book, onClose, onAddThought, onDelete,
              </div>
            )}
         </div>
+        {(related === null || related.length > 0) && (
+          <div className="space-y-3">
+            <h3 className="text-[10px] font-bold text-gray-400 uppercase tracking-widest flex items-center gap-2">Related Highlights {related === null && <Loader2 size={10} className="animate-spin" />}</h3>
+            {related?.map(r => (
+              <div key={r.highlight.id} onClick={() => { onClose(); navigate(`/book/${r.book.id}`); }} className="bg-white p-4 rounded-2xl border border-gray-100 shadow-sm cursor-pointer hover:border-accent/30 transition-all">
+                <p className="text-sm font-serif italic text-ink/80 leading-relaxed line-clamp-3">"{r.highlight.text}"</p>
+                <div className="mt-2 flex justify-between text-[9px] font-bold text-gray-400 uppercase tracking-widest"><span>— {r.book?.title}</span><span className="text-accent">{Math.round(r.score * 100)}%</span></div>
+              </div>
+            ))}
+          </div>
+        )}
       </div>
       <div className="p-4 bg-white border-t border-gray-100 pb-10 flex gap-2 items-end">
         <div className="flex-1 relative">
@@ -810,6 +1305,16 @@ const HighlightThreadView = ({ highlight, book, onClose, onAddThought, onDelete,
         </div>
         <button onClick={() => { if(!newThought.trim()) return; onAddThought(newThought); setNewThought(''); }} className="p-4 bg-accent text-white rounded-2xl shadow-xl active:scale-95 transition-all"><Send size={20} /></button>
       </div>
+      {isFlashcardsOpen && (
+        <FlashcardEditor
+          highlight={highlight}
+          cards={cards}
+          onSave={handleSaveCards}
+          onDelete={handleDeleteCard}
+          onGenerate={() => generateFlashcards(highlight, book)}
+          onClose={() => setIsFlashcardsOpen(false)}
+        />
+      )}
     </div>
   );
 };
@@ -821,67 +1326,158 @@ const BookDetail = () => {
   const [highlights, setHighlights] = useState<Highlight[]>([]);
   const [isCameraOpen, setIsCameraOpen] = useState(false);
   const [isCreating, setIsCreating] = useState(false);
-  const [draftText, setDraftText] = useState('');
+  const [drafts, setDrafts] = useState<HighlightDraft[]>([]);
+  const [scanItems, setScanItems] = useState<ScanItem[] | null>(null);
+  const [isScanCameraOpen, setIsScanCameraOpen] = useState(false);
+  const scanQueue = useRef<ScanQueue | null>(null);
   const [draftPage, setDraftPage] = useState<number | string>('');
-  const [draftNote, setDraftNote] = useState('');
+  const [draftImage, setDraftImage] = useState<string | null>(null);
+  const [extraction, setExtraction] = useState<{ isReading: boolean, source?: 'ai' | 'ocr', error?: string }>({ isReading: false });
   const [selectedHighlight, setSelectedHighlight] = useState<Highlight | null>(null);
   const [synthesisResult, setSynthesisResult] = useState<string | null>(null);
   const [isSynthesizing, setIsSynthesizing] = useState(false);
   const [shareTarget, setShareTarget] = useState<{ highlight: Highlight, book: Book } | null>(null);
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [shelves, setShelves] = useState<Shelf[]>([]);
+  const [activeTag, setActiveTag] = useState<string | null>(null);
+  const [tagReview, setTagReview] = useState<{ title: string, suggestions: TagSuggestion[] } | null>(null);
+  const [themes, setThemes] = useState<Theme[] | null>(null);
+  const [isOrganizing, setIsOrganizing] = useState<'tags' | 'themes' | null>(null);
+
+  const [cardCount, setCardCount] = useState(0);
+  const [chat, setChat] = useState<Conversation | null>(null);
+
+  useEffect(() => {
+    ShelfRepository.getAll().then(setShelves);
+  }, []);
+
+  useEffect(() => {
+    if (id) FlashcardRepository.getByBook(id).then(cards => setCardCount(cards.length));
+  }, [id, selectedHighlight]);
+
+  const bookTags = useMemo(() => collectTags(highlights), [highlights]);
+  const visibleHighlights = activeTag && bookTags.some(t => t.tag === activeTag)
+    ? highlights.filter(h => tagsOf(h).includes(activeTag))
+    : highlights;
 
   useEffect(() => {
     if (!id) return;
-    const found = getStoredBooks().find(b => b.id === id);
-    if (found) { setBook(found); setHighlights(getStoredHighlights(id)); } else navigate('/');
+    BookRepository.get(id).then(async found => {
+      if (found) { setBook(found); setHighlights(await HighlightRepository.getByBook(id)); } else navigate('/');
+    });
   }, [id, navigate]);
 
-  const handleCapture = async (imageSrc: string) => {
-    setIsCameraOpen(false); setIsCreating(true);
-    const result = await analyzeHighlightImage(imageSrc);
-    setDraftText(result.text); setDraftPage(result.pageNumber || '');
+  const readDraftImage = async (imageSrc: string, ocrMode?: OcrMode) => {
+    setExtraction({ isReading: true });
+    try {
+      const result = await analyzeHighlightImage(imageSrc, { ocrMode });
+      setDrafts(result.passages.length > 0 ? draftsFromExtraction(result) : [emptyDraft()]); setDraftPage(result.pageNumber || '');
+      setExtraction({ isReading: false, source: result.source });
+    } catch (e) {
+      setExtraction({ isReading: false, error: e instanceof Error ? e.message : "Couldn't read this page." });
+      setDrafts(current => current.length > 0 ? current : [emptyDraft()]);
+    }
+  };
+
+  const handleCapture = (imageSrc: string) => {
+    setIsCameraOpen(false); setIsCreating(true); setDraftImage(imageSrc); setDrafts([]); setDraftPage('');
+    readDraftImage(imageSrc);
   };
 
-  const saveNewHighlight = () => {
-    if (!book || !draftText.trim()) return;
-    const newH: Highlight = { 
-      id: crypto.randomUUID(), 
-      bookId: book.id, 
-      text: draftText, 
-      pageNumber: parseInt(String(draftPage)) || undefined, 
-      thoughts: draftNote ? [{ id: crypto.randomUUID(), text: draftNote, createdAt: new Date().toISOString() }] : [], 
-      createdAt: new Date().toISOString(),
-      source: 'scanned'
-    };
-    const allH = JSON.parse(localStorage.getItem(STORAGE_KEY_HIGHLIGHTS) || '[]');
-    localStorage.setItem(STORAGE_KEY_HIGHLIGHTS, JSON.stringify([...allH, newH]));
-    setHighlights([newH, ...highlights]);
-    const allB = getStoredBooks();
-    const bIndex = allB.findIndex(b => b.id === book.id);
-    if (bIndex >= 0) { allB[bIndex].totalHighlights++; saveBooks(allB); setBook({ ...allB[bIndex] }); }
-    setIsCreating(false); setDraftText(''); setDraftPage(''); setDraftNote('');
+  const startManualEntry = () => {
+    setDrafts([emptyDraft()]); setDraftPage(''); setDraftImage(null); setExtraction({ isReading: false });
+    setIsCreating(true);
   };
 
-  const updateBookDetails = (title: string, author: string) => {
-    if (!book) return;
-    const allB = getStoredBooks();
-    const bIndex = allB.findIndex(b => b.id === book.id);
-    if (bIndex >= 0) {
-      allB[bIndex].title = title;
-      allB[bIndex].author = author;
-      saveBooks(allB);
-      setBook({ ...allB[bIndex] });
+  const saveNewHighlights = async () => {
+    if (!book || extraction.isReading) return;
+    const created = await highlightsFromDrafts(drafts, { bookId: book.id, pageNumber: parseInt(String(draftPage)) || undefined, imageSrc: draftImage });
+    if (created.length === 0) return;
+    await HighlightRepository.putMany(created);
+    setHighlights([...created, ...highlights]);
+    const updatedBook = { ...book, totalHighlights: book.totalHighlights + created.length };
+    await BookRepository.put(updatedBook);
+    setBook(updatedBook);
+    setIsCreating(false); setDrafts([]); setDraftPage(''); setDraftImage(null); setExtraction({ isReading: false });
+  };
+
+  useEffect(() => () => scanQueue.current?.dispose(), []);
+
+  const scanPages = useMemo(() => resolvePageNumbers(scanItems || [], book?.pageCount), [scanItems, book?.pageCount]);
+
+  const startScanSession = () => {
+    scanQueue.current?.dispose();
+    scanQueue.current = createScanQueue({ onChange: setScanItems });
+    setScanItems([]);
+    setIsScanCameraOpen(true);
+  };
+
+  const endScanSession = () => {
+    scanQueue.current?.dispose();
+    scanQueue.current = null;
+    setScanItems(null);
+    setIsScanCameraOpen(false);
+  };
+
+  const closeScanCamera = () => {
+    setIsScanCameraOpen(false);
+    if (!scanQueue.current?.items().length) endScanSession();
+  };
+
+  const cancelScanSession = () => {
+    if (scanItems?.length && !confirm("Discard all scanned pages?")) return;
+    endScanSession();
+  };
+
+  const saveScanSession = async () => {
+    if (!book || !scanItems) return;
+    const failed = scanItems.filter(i => i.status === 'failed').length;
+    if (failed > 0 && !confirm(`${failed} ${failed === 1 ? "page couldn't" : "pages couldn't"} be read and will be left out. Save the rest?`)) return;
+    const created = (await Promise.all(scanItems.filter(i => i.status === 'done').map(item =>
+      highlightsFromDrafts(item.drafts, { bookId: book.id, pageNumber: scanPages.get(item.id)?.pageNumber ?? undefined, imageSrc: item.imageSrc })
+    ))).flat();
+    if (created.length > 0) {
+      await HighlightRepository.putMany(created);
+      setHighlights([...created, ...highlights]);
+      const updatedBook = { ...book, totalHighlights: book.totalHighlights + created.length };
+      await BookRepository.put(updatedBook);
+      setBook(updatedBook);
     }
+    endScanSession();
+  };
+
+  const updateBookDetails = async (changes: Partial<Book>) => {
+    if (!book) return;
+    const updatedBook = { ...((await BookRepository.get(book.id)) || book), ...changes };
+    await BookRepository.put(updatedBook);
+    setBook(updatedBook);
     setIsSettingsOpen(false);
   };
 
-  const deleteBook = () => {
+  const handleSuggestTags = async () => {
+    setIsOrganizing('tags');
+    try {
+      const vocabulary = collectTags(await HighlightRepository.getAll()).map(t => t.tag);
+      setTagReview({ title: 'Suggested Tags', suggestions: await suggestTags(highlights, { vocabulary }) });
+    } catch (e) { alert("Tag suggestions failed."); } finally { setIsOrganizing(null); }
+  };
+
+  const handleFindThemes = async () => {
+    if (!book) return;
+    setIsOrganizing('themes');
+    try { setThemes(await clusterThemes(highlights, [book])); } catch (e) { alert("Theme discovery failed."); } finally { setIsOrganizing(null); }
+  };
+
+  const handleApplyTags = async (accepted: TagSuggestion[]) => {
+    const updated = new Map((await applyTagSuggestions(highlights, accepted)).map(h => [h.id, h]));
+    setHighlights(hls => hls.map(h => updated.get(h.id) || h));
+    setTagReview(null);
+  };
+
+  const deleteBook = async () => {
     if (!book) return;
     if (!confirm("Are you sure? This will remove the book and all associated highlights forever.")) return;
-    const allB = getStoredBooks().filter(b => b.id !== book.id);
-    saveBooks(allB);
-    const allH = JSON.parse(localStorage.getItem(STORAGE_KEY_HIGHLIGHTS) || '[]').filter((h: any) => h.bookId !== book.id);
-    localStorage.setItem(STORAGE_KEY_HIGHLIGHTS, JSON.stringify(allH));
+    await BookRepository.delete(book.id);
     navigate('/');
   };
 
@@ -892,6 +1488,8 @@ const BookDetail = () => {
       <header className="sticky top-0 z-30 bg-paper/95 backdrop-blur-md border-b border-gray-100 flex items-center p-4 gap-4">
         <button onClick={() => navigate('/')} className="p-2 hover:bg-gray-100 rounded-full transition-colors"><ChevronLeft size={24} /></button>
         <div className="flex-1 min-w-0"><h1 className="font-serif font-bold truncate text-sm">{book.title}</h1></div>
+        {highlights.length > 0 && <button onClick={() => loadConversation(book.id).then(setChat)} title="Ask Your Notes" className="p-2 text-gray-400 hover:text-accent transition-colors"><MessagesSquare size={22} /></button>}
+        {cardCount > 0 && <button onClick={() => navigate(`/study/${book.id}`)} title="Study Flashcards" className="p-2 text-gray-400 hover:text-accent transition-colors"><GraduationCap size={22} /></button>}
         <button onClick={() => setIsSettingsOpen(true)} title="Book Settings" className="p-2 text-gray-400 hover:text-ink transition-colors"><Settings size={22} /></button>
       </header>
       
@@ -903,7 +1501,10 @@ const BookDetail = () => {
           </div>
           <div className="flex-1 pb-2">
             <h2 className="font-serif text-3xl font-bold leading-tight mb-2 tracking-tight">{book.title}</h2>
-            <p className="text-gray-400 font-bold uppercase tracking-[0.2em] text-[10px] leading-none">{book.author}</p>
+            <p className="text-gray-400 font-bold uppercase tracking-[0.2em] text-[10px] leading-none">{book.authors?.length ? book.authors.join(', ') : book.author}</p>
+            {book.readingStatus && (
+              <span className="inline-block mt-3 px-2 py-1 rounded-lg bg-accent/10 text-accent text-[9px] font-bold uppercase tracking-widest">{READING_STATUSES.find(s => s.id === book.readingStatus)?.label}</span>
+            )}
             {highlights.length >= 3 && (
               <button 
                 onClick={async () => { setIsSynthesizing(true); try { setSynthesisResult(await synthesizeBook(book, highlights)); } catch(e) { alert("Synthesis failed."); } finally { setIsSynthesizing(false); } }} 
@@ -913,12 +1514,31 @@ const BookDetail = () => {
                 {isSynthesizing ? 'Synthesizing...' : 'Generate Essay'}
               </button>
             )}
+            {highlights.length > 0 && (
+              <div className="mt-3 flex gap-2">
+                <button onClick={handleSuggestTags} disabled={!!isOrganizing} className="flex items-center gap-2 bg-white border border-gray-200 text-ink px-4 py-2 rounded-full font-bold text-[10px] uppercase tracking-widest hover:border-accent/40 disabled:opacity-50 transition-all">
+                  {isOrganizing === 'tags' ? <Loader2 size={12} className="animate-spin" /> : <Tag size={12} />} Suggest Tags
+                </button>
+                {highlights.length >= 3 && (
+                  <button onClick={handleFindThemes} disabled={!!isOrganizing} className="flex items-center gap-2 bg-white border border-gray-200 text-ink px-4 py-2 rounded-full font-bold text-[10px] uppercase tracking-widest hover:border-accent/40 disabled:opacity-50 transition-all">
+                    {isOrganizing === 'themes' ? <Loader2 size={12} className="animate-spin" /> : <Layers size={12} />} Themes
+                  </button>
+                )}
+              </div>
+            )}
           </div>
         </div>
 
         <div className="space-y-12 relative">
           <div className="absolute left-0 top-0 bottom-0 w-px bg-gray-100 ml-0" />
-          {highlights.map(h => (
+          {bookTags.length > 0 && (
+            <div className="flex gap-2 overflow-x-auto hide-scrollbar pb-1">
+              {bookTags.map(({ tag, count }) => (
+                <FilterChip key={tag} active={activeTag === tag} onClick={() => setActiveTag(activeTag === tag ? null : tag)}>#{tag} · {count}</FilterChip>
+              ))}
+            </div>
+          )}
+          {visibleHighlights.map(h => (
             <div key={h.id} onClick={() => setSelectedHighlight(h)} className="group relative border-l-2 border-transparent hover:border-accent pl-8 transition-all cursor-pointer">
               <div className="flex justify-between items-start gap-4">
                 <blockquote className="font-serif italic text-xl leading-[1.6] text-ink/80 group-hover:text-ink transition-colors line-clamp-4">"{h.text}"</blockquote>
@@ -934,9 +1554,11 @@ const BookDetail = () => {
                    {h.source === 'digital' ? <Smartphone size={10} className="text-indigo-400" /> : <Scan size={10} className="text-orange-400" />}
                    {h.source === 'digital' ? 'Digital' : 'Scanned'}
                 </span>
-                {h.pageNumber && <span className="flex items-center gap-1"><FileText size={10} /> Page {h.pageNumber}</span>}
+                {h.pageNumber ? <span className="flex items-center gap-1"><FileText size={10} /> Page {h.pageNumber}</span>
+                  : h.location && <span className="flex items-center gap-1 normal-case tracking-normal"><FileText size={10} /> {h.location}</span>}
                 <span className="flex items-center gap-1"><Clock size={10} /> {new Date(h.createdAt).toLocaleDateString()}</span>
                 {h.thoughts.length > 0 && <span className="text-accent flex items-center gap-1"><MessageCircle size={10} /> {h.thoughts.length} Thoughts</span>}
+                {tagsOf(h).length > 0 && <span className="flex items-center gap-1 normal-case tracking-normal"><Tag size={10} /> {tagsOf(h).map(t => `#${t}`).join(' ')}</span>}
               </div>
             </div>
           ))}
@@ -950,46 +1572,78 @@ const BookDetail = () => {
       </main>
 
       <div className="fixed bottom-8 right-8 z-40 flex flex-col gap-4">
-         <button onClick={() => setIsCreating(true)} title="Manual Entry" className="bg-white text-ink p-4 rounded-full shadow-xl hover:scale-105 active:scale-95 transition-all border border-gray-100"><Edit3 size={24} /></button>
+         <button onClick={startScanSession} title="Scan Session" className="bg-white text-ink p-4 rounded-full shadow-xl hover:scale-105 active:scale-95 transition-all border border-gray-100"><ScanText size={24} /></button>
+         <button onClick={startManualEntry} title="Manual Entry" className="bg-white text-ink p-4 rounded-full shadow-xl hover:scale-105 active:scale-95 transition-all border border-gray-100"><Edit3 size={24} /></button>
          <button onClick={() => setIsCameraOpen(true)} title="Scan Highlight" className="bg-accent text-white p-5 rounded-[24px] shadow-2xl hover:scale-105 active:scale-95 transition-all ring-4 ring-white"><Camera size={32} /></button>
       </div>
 
-      <CameraModal isOpen={isCameraOpen} onClose={() => setIsCameraOpen(false)} onCapture={handleCapture} />
+      <CameraModal isOpen={isCameraOpen} onClose={() => setIsCameraOpen(false)} onCapture={handleCapture} editCrop />
+      <CameraModal
+        isOpen={isScanCameraOpen}
+        onClose={closeScanCamera}
+        onCapture={(imageSrc) => scanQueue.current?.add(imageSrc)}
+        continuous
+        status={scanItems && scanItems.length > 0
+          ? `${scanItems.length} captured · ${scanItems.filter(i => i.status === 'done').length} read${scanItems.some(i => i.status === 'failed') ? ` · ${scanItems.filter(i => i.status === 'failed').length} failed` : ''}`
+          : 'Photograph each marked page'}
+      />
+      {scanItems && !isScanCameraOpen && (
+        <ScanSessionReview
+          items={scanItems}
+          pages={scanPages}
+          onUpdate={(id, changes) => scanQueue.current?.update(id, changes)}
+          onRetry={(id) => scanQueue.current?.retry(id)}
+          onRemove={(id) => scanQueue.current?.remove(id)}
+          onScanMore={() => setIsScanCameraOpen(true)}
+          onSave={saveScanSession}
+          onCancel={cancelScanSession}
+        />
+      )}
       
       {isCreating && (
         <div className="fixed inset-0 z-[80] bg-paper p-6 animate-in slide-in-from-bottom duration-300 flex flex-col">
           <div className="flex justify-between items-center mb-10 max-w-2xl mx-auto w-full">
             <button onClick={() => setIsCreating(false)} className="text-gray-400 font-bold text-xs uppercase tracking-widest">Cancel</button>
-            <h2 className="font-serif font-bold text-lg">New Highlight</h2>
-            <button onClick={saveNewHighlight} className="text-accent font-bold text-xs uppercase tracking-widest">Save</button>
+            <h2 className="font-serif font-bold text-lg">{drafts.length > 1 ? `${drafts.length} Highlights` : 'New Highlight'}</h2>
+            <button onClick={saveNewHighlights} disabled={extraction.isReading} className="text-accent font-bold text-xs uppercase tracking-widest disabled:opacity-30">{drafts.length > 1 ? 'Save All' : 'Save'}</button>
           </div>
           <div className="flex-1 space-y-8 max-w-2xl mx-auto w-full overflow-y-auto hide-scrollbar">
-            <div className="relative">
-               <textarea 
-                  value={draftText} 
-                  onChange={(e) => setDraftText(e.target.value)} 
-                  placeholder="The author's words..." 
-                  className="w-full h-48 bg-white border border-gray-100 rounded-[32px] p-8 font-serif italic text-2xl shadow-inner focus:outline-none focus:ring-2 focus:ring-accent/10" 
-               />
-               <div className="absolute -bottom-4 right-8 flex gap-4 bg-paper px-4">
-                  <div className="flex items-center gap-2">
-                    <label className="text-[10px] font-bold uppercase text-gray-300 tracking-widest">Page</label>
-                    <input type="number" value={draftPage} onChange={(e) => setDraftPage(e.target.value)} className="w-16 p-2 bg-gray-50 border border-gray-100 rounded-xl text-center text-xs font-bold" />
-                  </div>
-               </div>
+            {draftImage && <img src={draftImage} alt="Captured passage" className="max-h-40 mx-auto rounded-2xl shadow-sm" />}
+            {draftImage && (extraction.isReading || extraction.error || extraction.source === 'ocr') && (
+              <div className={`flex items-center gap-3 p-4 rounded-2xl text-xs ${extraction.error ? 'bg-red-50 text-red-500' : 'bg-gray-50 text-gray-500'}`}>
+                {extraction.isReading ? <Loader2 size={14} className="animate-spin flex-shrink-0" /> : <Scan size={14} className="flex-shrink-0" />}
+                <p className="flex-1">
+                  {extraction.isReading ? 'Reading the page…' : extraction.error || 'Read on this device. Keep the passages you meant and check for misread words.'}
+                </p>
+                {!extraction.isReading && extraction.source !== 'ocr' && (
+                  <button onClick={() => readDraftImage(draftImage, 'always')} className="font-bold uppercase tracking-widest text-[10px] whitespace-nowrap hover:text-ink transition">Read On-Device</button>
+                )}
+              </div>
+            )}
+            <div className="flex items-center justify-end gap-2">
+              <label className="text-[10px] font-bold uppercase text-gray-300 tracking-widest">Page</label>
+              <input type="number" value={draftPage} onChange={(e) => setDraftPage(e.target.value)} className="w-16 p-2 bg-gray-50 border border-gray-100 rounded-xl text-center text-xs font-bold" />
             </div>
-            <textarea 
-               value={draftNote} 
-               onChange={(e) => setDraftNote(e.target.value)} 
-               placeholder="Why does this matter? Your initial thought..." 
-               className="w-full flex-1 bg-gray-50 border-0 rounded-[32px] p-8 text-ink/80 focus:outline-none focus:bg-white transition-colors" 
-            />
+            {!extraction.isReading && <HighlightDraftList drafts={drafts} onChange={setDrafts} />}
           </div>
         </div>
       )}
 
-      {selectedHighlight && <HighlightThreadView highlight={selectedHighlight} book={book} onClose={() => setSelectedHighlight(null)} onAddThought={(t) => { const nT: Thought = { id: crypto.randomUUID(), text: t, createdAt: new Date().toISOString() }; const uH = { ...selectedHighlight, thoughts: [...selectedHighlight.thoughts, nT] }; setSelectedHighlight(uH); updateStoredHighlight(uH); setHighlights(hls => hls.map(h => h.id === uH.id ? uH : h)); }} onDelete={() => { if(confirm("Remove highlight?")) { deleteStoredHighlight(selectedHighlight.id); setHighlights(hls => hls.filter(h => h.id !== selectedHighlight.id)); setSelectedHighlight(null); } }} onShare={() => setShareTarget({ highlight: selectedHighlight, book })} />}
+      {chat && (
+        <BookChatPanel
+          title={book.title}
+          messages={chat.messages}
+          sources={new Map(highlights.map(h => [h.id, { highlight: h, book }]))}
+          onAsk={async (question) => setChat(await askAboutHighlights(book.id, question, highlights.map(h => ({ highlight: h, book }))))}
+          onClear={async () => { await clearConversation(book.id); setChat(await loadConversation(book.id)); }}
+          onOpenCitation={(citation) => { const h = highlights.find(h => h.id === citation.highlightId); if (h) setSelectedHighlight(h); }}
+          onClose={() => setChat(null)}
+        />
+      )}
+      {selectedHighlight && <HighlightThreadView highlight={selectedHighlight} book={book} onClose={() => setSelectedHighlight(null)} onAddThought={(t) => { const nT: Thought = { id: crypto.randomUUID(), text: t, createdAt: new Date().toISOString() }; const uH = { ...selectedHighlight, thoughts: [...selectedHighlight.thoughts, nT] }; setSelectedHighlight(uH); HighlightRepository.put(uH); setHighlights(hls => hls.map(h => h.id === uH.id ? uH : h)); }} onUpdateTags={(tags) => { const uH = { ...selectedHighlight, tags }; setSelectedHighlight(uH); HighlightRepository.put(uH); setHighlights(hls => hls.map(h => h.id === uH.id ? uH : h)); }} onDelete={() => { if(confirm("Remove highlight?")) { HighlightRepository.delete(selectedHighlight.id); libraryEmbeddings.forget([selectedHighlight.id]); setHighlights(hls => hls.filter(h => h.id !== selectedHighlight.id)); setSelectedHighlight(null); } }} onShare={() => setShareTarget({ highlight: selectedHighlight, book })} />}
       {shareTarget && <ShareCardModal highlight={shareTarget.highlight} book={shareTarget.book} onClose={() => setShareTarget(null)} />}
+      {themes && <ThemeClusters themes={themes} highlights={highlights} onClose={() => setThemes(null)} onTagTheme={(theme) => setTagReview({ title: theme.name, suggestions: themeToSuggestions(theme) })} />}
+      {tagReview && <TagSuggestionReview title={tagReview.title} suggestions={tagReview.suggestions} highlights={highlights} onApply={handleApplyTags} onClose={() => setTagReview(null)} />}
       
       {synthesisResult && (
         <div className="fixed inset-0 z-[100] bg-paper p-8 overflow-y-auto animate-in slide-in-from-bottom duration-500 hide-scrollbar">
@@ -1010,7 +1664,9 @@ const BookDetail = () => {
       )}
 
       <BookSettingsModal 
+        key={`${book.id}-${isSettingsOpen}`}
         book={book} 
+        shelves={shelves}
         isOpen={isSettingsOpen} 
         onClose={() => setIsSettingsOpen(false)} 
         onUpdate={updateBookDetails} 
@@ -1020,11 +1676,409 @@ const BookDetail = () => {
   );
 };
 
+const TagBrowser = () => {
+  const navigate = useNavigate();
+  const [tags, setTags] = useState<{ tag: string; count: number }[] | null>(null);
+  const [highlights, setHighlights] = useState<Highlight[]>([]);
+  const [tagReview, setTagReview] = useState<{ title: string, suggestions: TagSuggestion[] } | null>(null);
+  const [themes, setThemes] = useState<Theme[] | null>(null);
+  const [isOrganizing, setIsOrganizing] = useState<'tags' | 'themes' | null>(null);
+
+  const refresh = async () => {
+    const all = await HighlightRepository.getAll();
+    setHighlights(all);
+    setTags(collectTags(all));
+  };
+  useEffect(() => { refresh(); }, []);
+
+  // Library-wide suggestions only cover untagged highlights, to keep requests small.
+  const handleSuggestTags = async () => {
+    setIsOrganizing('tags');
+    try {
+      const untagged = highlights.filter(h => tagsOf(h).length === 0);
+      setTagReview({ title: 'Suggested Tags', suggestions: await suggestTags(untagged, { vocabulary: (tags || []).map(t => t.tag) }) });
+    } catch (e) { alert("Tag suggestions failed."); } finally { setIsOrganizing(null); }
+  };
+
+  const handleFindThemes = async () => {
+    setIsOrganizing('themes');
+    try { setThemes(await clusterThemes(highlights, await BookRepository.getAll())); } catch (e) { alert("Theme discovery failed."); } finally { setIsOrganizing(null); }
+  };
+
+  const handleApplyTags = async (accepted: TagSuggestion[]) => {
+    await applyTagSuggestions(highlights, accepted);
+    setTagReview(null);
+    refresh();
+  };
+
+  const handleRename = async (tag: string) => {
+    const target = normalizeTag(prompt(`Rename #${tag} to`, tag) || '');
+    if (!target || target === tag) return;
+    if (tags?.some(t => t.tag === target) && !confirm(`#${target} already exists. Merge #${tag} into it?`)) return;
+    await renameTag(tag, target);
+    refresh();
+  };
+
+  const handleMerge = async (tag: string) => {
+    const others = (tags || []).filter(t => t.tag !== tag).map(t => t.tag);
+    const target = normalizeTag(prompt(`Merge #${tag} into which tag?\n${others.map(t => `#${t}`).join(' ')}`) || '');
+    if (!target || target === tag) return;
+    await renameTag(tag, target);
+    refresh();
+  };
+
+  return (
+    <div className="min-h-screen bg-paper pb-32">
+      <header className="sticky top-0 z-30 bg-paper/95 backdrop-blur-md border-b border-gray-100 flex items-center p-4 gap-4">
+        <button onClick={() => navigate('/')} className="p-2 hover:bg-gray-100 rounded-full transition-colors"><ChevronLeft size={24} /></button>
+        <div className="flex-1 min-w-0"><h1 className="font-serif font-bold truncate text-sm">Tags</h1></div>
+        {highlights.length > 0 && (
+          <>
+            <button onClick={handleSuggestTags} disabled={!!isOrganizing} title="Suggest Tags" className="p-2 text-gray-400 hover:text-accent disabled:opacity-50 transition-colors">{isOrganizing === 'tags' ? <Loader2 size={20} className="animate-spin" /> : <Sparkles size={20} />}</button>
+            <button onClick={handleFindThemes} disabled={!!isOrganizing} title="Themes" className="p-2 text-gray-400 hover:text-accent disabled:opacity-50 transition-colors">{isOrganizing === 'themes' ? <Loader2 size={20} className="animate-spin" /> : <Layers size={20} />}</button>
+          </>
+        )}
+      </header>
+      <main className="max-w-2xl mx-auto px-6 py-10 space-y-3">
+        {tags?.map(({ tag, count }) => (
+          <div key={tag} onClick={() => navigate(`/tags/${encodeURIComponent(tag)}`)} className="group bg-white p-4 rounded-2xl shadow-sm border border-gray-100 flex items-center gap-4 cursor-pointer hover:border-accent/30 transition-all">
+            <div className="w-10 h-10 rounded-2xl bg-accent/10 text-accent flex items-center justify-center flex-shrink-0"><Tag size={16} /></div>
+            <div className="flex-1 min-w-0">
+              <h3 className="font-bold text-sm truncate">#{tag}</h3>
+              <p className="text-[10px] text-gray-400 font-bold uppercase tracking-widest">{count} {count === 1 ? 'Highlight' : 'Highlights'}</p>
+            </div>
+            <button onClick={(e) => { e.stopPropagation(); handleRename(tag); }} title="Rename Tag" className="p-2 text-gray-300 hover:text-ink opacity-0 group-hover:opacity-100 transition"><Edit3 size={16} /></button>
+            <button onClick={(e) => { e.stopPropagation(); handleMerge(tag); }} title="Merge Into Another Tag" className="p-2 text-gray-300 hover:text-ink opacity-0 group-hover:opacity-100 transition"><Merge size={16} /></button>
+            <ChevronRight size={16} className="text-gray-300" />
+          </div>
+        ))}
+        {tags && tags.length === 0 && (
+          <div className="py-20 flex flex-col items-center justify-center text-gray-400 text-center">
+            <Tag size={48} className="mb-4 opacity-20" />
+            <p className="text-sm">No tags yet. Add tags to a highlight, or write #hashtags in your thoughts.</p>
+          </div>
+        )}
+      </main>
+      {themes && <ThemeClusters themes={themes} highlights={highlights} onClose={() => setThemes(null)} onTagTheme={(theme) => setTagReview({ title: theme.name, suggestions: themeToSuggestions(theme) })} />}
+      {tagReview && <TagSuggestionReview title={tagReview.title} suggestions={tagReview.suggestions} highlights={highlights} onApply={handleApplyTags} onClose={() => setTagReview(null)} />}
+    </div>
+  );
+};
+
+const TagHighlights = () => {
+  const { tag = '' } = useParams<{ tag: string }>();
+  const navigate = useNavigate();
+  const [items, setItems] = useState<{ highlight: Highlight, book: Book }[] | null>(null);
+
+  useEffect(() => {
+    getAllHighlightsWithBooks().then(all => setItems(all.filter(({ highlight }) => tagsOf(highlight).includes(normalizeTag(tag)))));
+  }, [tag]);
+
+  return (
+    <div className="min-h-screen bg-paper pb-32">
+      <header className="sticky top-0 z-30 bg-paper/95 backdrop-blur-md border-b border-gray-100 flex items-center p-4 gap-4">
+        <button onClick={() => navigate('/tags')} className="p-2 hover:bg-gray-100 rounded-full transition-colors"><ChevronLeft size={24} /></button>
+        <div className="flex-1 min-w-0"><h1 className="font-serif font-bold truncate text-sm">#{normalizeTag(tag)}</h1></div>
+      </header>
+      <main className="max-w-2xl mx-auto px-6 py-10 space-y-6">
+        {items?.map(({ highlight, book }) => (
+          <div key={highlight.id} onClick={() => navigate(`/book/${book.id}`)} className="bg-white p-5 rounded-2xl shadow-sm border border-gray-100 cursor-pointer group hover:border-accent/30 transition-all">
+            <blockquote className="italic font-serif leading-relaxed text-ink/80 group-hover:text-ink">"{highlight.text}"</blockquote>
+            <div className="mt-3 flex items-center justify-between text-[9px] font-bold text-gray-400 uppercase tracking-widest"><span>— {book.title}</span><ChevronRight size={14} /></div>
+          </div>
+        ))}
+        {items && items.length === 0 && <p className="py-20 text-center text-sm text-gray-400">No highlights with this tag.</p>}
+      </main>
+    </div>
+  );
+};
+
+const REVIEW_GRADES: { id: ReviewGrade; label: string; icon: React.ReactNode }[] = [
+  { id: 'never', label: 'Never Show', icon: <EyeOff size={16} /> },
+  { id: 'less-often', label: 'Less Often', icon: <Clock size={16} /> },
+  { id: 'keep', label: 'Keep', icon: <Repeat size={16} /> },
+];
+
+const ReviewSession = () => {
+  const navigate = useNavigate();
+  const [queue, setQueue] = useState<{ highlight: Highlight, book: Book }[] | null>(null);
+  const [position, setPosition] = useState(0);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // The queue is built once per visit so grading a card doesn't reshuffle the rest.
+  useEffect(() => {
+    getAllHighlightsWithBooks().then(all => {
+      const byId = new Map<string, { highlight: Highlight, book: Book }>(all.map(item => [item.highlight.id, item]));
+      setQueue(buildReviewQueue(all.map(({ highlight }) => highlight)).map(h => byId.get(h.id)!));
+    });
+  }, []);
+
+  const current = queue?.[position];
+
+  const handleGrade = async (grade: ReviewGrade) => {
+    if (!current) return;
+    setIsSaving(true);
+    try {
+      await recordReview(current.highlight, grade);
+      setPosition(p => p + 1);
+    } catch (e) { alert("Couldn't save this review."); } finally { setIsSaving(false); }
+  };
+
+  return (
+    <div className="min-h-screen bg-paper pb-32">
+      <header className="sticky top-0 z-30 bg-paper/95 backdrop-blur-md border-b border-gray-100 flex items-center p-4 gap-4">
+        <button onClick={() => navigate('/')} className="p-2 hover:bg-gray-100 rounded-full transition-colors"><ChevronLeft size={24} /></button>
+        <div className="flex-1 min-w-0"><h1 className="font-serif font-bold truncate text-sm">Review</h1></div>
+        {queue && queue.length > 0 && <span className="text-[10px] font-bold text-gray-400 uppercase tracking-widest">{Math.min(position + 1, queue.length)} / {queue.length}</span>}
+      </header>
+      <main className="max-w-2xl mx-auto px-6 py-10">
+        {!queue && <div className="py-20 flex justify-center"><LoadingSpinner /></div>}
+        {current && (
+          <>
+            <div className="p-8 bg-white rounded-[32px] shadow-sm border border-gray-100 mb-8">
+              <blockquote className="font-serif text-xl italic leading-relaxed text-ink/90 mb-8">"{current.highlight.text}"</blockquote>
+              {current.highlight.thoughts.length > 0 && (
+                <div className="space-y-2 mb-8">
+                  {current.highlight.thoughts.map(t => <p key={t.id} className="text-sm text-gray-500 leading-relaxed pl-4 border-l-2 border-accent/20">{t.text}</p>)}
+                </div>
+              )}
+              <div onClick={() => navigate(`/book/${current.book.id}`)} className="flex items-center gap-4 border-t border-gray-100 pt-6 cursor-pointer">
+                <img src={current.book.coverUrl} className="w-10 h-14 object-cover rounded-lg shadow" />
+                <div className="text-xs">
+                  <strong className="block mb-1 text-sm font-serif">{current.book.title}</strong>
+                  <p className="text-gray-400 uppercase tracking-widest text-[9px] font-bold">{current.book.author}</p>
+                </div>
+              </div>
+            </div>
+            <div className="grid grid-cols-3 gap-3">
+              {REVIEW_GRADES.map(grade => (
+                <button
+                  key={grade.id}
+                  onClick={() => handleGrade(grade.id)}
+                  disabled={isSaving}
+                  className={`py-4 rounded-2xl font-bold text-[10px] uppercase tracking-widest flex flex-col items-center gap-2 transition disabled:opacity-50 ${grade.id === 'keep' ? 'bg-accent text-white shadow-lg shadow-accent/20 hover:bg-accent/90' : 'bg-white border border-gray-100 text-gray-500 hover:text-ink'}`}
+                >
+                  {grade.icon}{grade.label}
+                </button>
+              ))}
+            </div>
+          </>
+        )}
+        {queue && !current && (
+          <div className="py-20 flex flex-col items-center justify-center text-gray-400 text-center">
+            <CheckCircle2 size={48} className="mb-4 opacity-20" />
+            <p className="text-sm">{queue.length > 0 ? "That's everything for today." : "Nothing to review today."} Come back tomorrow.</p>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+};
+
+const FLASHCARD_GRADES: { id: FlashcardGrade; label: string; className: string }[] = [
+  { id: 'again', label: 'Again', className: 'bg-white border border-red-100 text-red-500 hover:bg-red-50' },
+  { id: 'hard', label: 'Hard', className: 'bg-white border border-gray-100 text-gray-500 hover:text-ink' },
+  { id: 'good', label: 'Good', className: 'bg-accent text-white shadow-lg shadow-accent/20 hover:bg-accent/90' },
+  { id: 'easy', label: 'Easy', className: 'bg-white border border-gray-100 text-emerald-600 hover:bg-emerald-50' },
+];
+
+const StudySession = () => {
+  const { bookId } = useParams<{ bookId: string }>();
+  const navigate = useNavigate();
+  const [queue, setQueue] = useState<Flashcard[] | null>(null);
+  const [position, setPosition] = useState(0);
+  const [isRevealed, setIsRevealed] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [sources, setSources] = useState<Map<string, { highlight: Highlight, book: Book }>>(new Map());
+  // Scored on the first answer to each card; "Again" cards come back at the end of the session.
+  const [firstGrades, setFirstGrades] = useState<Map<string, FlashcardGrade>>(new Map());
+
+  useEffect(() => {
+    (async () => {
+      const [cards, all] = await Promise.all([
+        bookId ? FlashcardRepository.getByBook(bookId) : FlashcardRepository.getAll(),
+        getAllHighlightsWithBooks(),
+      ]);
+      const byHighlight = new Map<string, { highlight: Highlight, book: Book }>(all.map(item => [item.highlight.id, item]));
+      const studyable = cards.filter(c => byHighlight.has(c.highlightId));
+      setSources(new Map(studyable.map(c => [c.id, byHighlight.get(c.highlightId)!])));
+      setQueue(buildStudyQueue(studyable));
+    })();
+  }, [bookId]);
+
+  const current = queue?.[position];
+  const source = current ? sources.get(current.id) : undefined;
+
+  const handleGrade = async (grade: FlashcardGrade) => {
+    if (!current || !queue || isSaving) return;
+    setIsSaving(true);
+    try {
+      const updated = await recordFlashcardGrade(current, grade);
+      if (!firstGrades.has(current.id)) setFirstGrades(new Map(firstGrades).set(current.id, grade));
+      if (grade === 'again') setQueue([...queue, updated]);
+      setPosition(p => p + 1);
+      setIsRevealed(false);
+    } catch (e) { alert("Couldn't save this answer."); } finally { setIsSaving(false); }
+  };
+
+  const graded = Array.from(firstGrades.values());
+  const remembered = graded.filter(g => g !== 'again').length;
+
+  return (
+    <div className="min-h-screen bg-paper pb-32">
+      <header className="sticky top-0 z-30 bg-paper/95 backdrop-blur-md border-b border-gray-100 flex items-center p-4 gap-4">
+        <button onClick={() => navigate(bookId ? `/book/${bookId}` : '/')} className="p-2 hover:bg-gray-100 rounded-full transition-colors"><ChevronLeft size={24} /></button>
+        <div className="flex-1 min-w-0"><h1 className="font-serif font-bold truncate text-sm">Study</h1></div>
+        {queue && current && <span className="text-[10px] font-bold text-gray-400 uppercase tracking-widest">{queue.length - position} Left</span>}
+      </header>
+      <main className="max-w-2xl mx-auto px-6 py-10">
+        {!queue && <div className="py-20 flex justify-center"><LoadingSpinner /></div>}
+        {current && (
+          <>
+            <div onClick={() => setIsRevealed(true)} className={`p-8 bg-white rounded-[32px] shadow-sm border border-gray-100 mb-8 min-h-[240px] flex flex-col ${isRevealed ? '' : 'cursor-pointer'}`}>
+              <p className="font-serif text-xl leading-relaxed text-ink/90 flex-1">
+                {current.kind === 'cloze' ? clozeToText(current.front, isRevealed) : current.front}
+              </p>
+              {isRevealed && current.kind === 'qa' && <p className="mt-6 pt-6 border-t border-gray-100 text-base leading-relaxed text-accent font-bold">{current.back}</p>}
+              {isRevealed && current.kind === 'cloze' && current.back && <p className="mt-4 text-sm text-gray-500 leading-relaxed">{current.back}</p>}
+              {isRevealed && source && <p className="mt-6 text-[10px] font-bold text-gray-400 uppercase tracking-widest">— {cardSource(source.book, source.highlight)}</p>}
+            </div>
+            {isRevealed ? (
+              <div className="grid grid-cols-4 gap-2">
+                {FLASHCARD_GRADES.map(grade => (
+                  <button key={grade.id} onClick={() => handleGrade(grade.id)} disabled={isSaving} className={`py-4 rounded-2xl font-bold text-[10px] uppercase tracking-widest transition disabled:opacity-50 ${grade.className}`}>{grade.label}</button>
+                ))}
+              </div>
+            ) : (
+              <button onClick={() => setIsRevealed(true)} className="w-full py-4 bg-ink text-white rounded-2xl font-bold text-xs uppercase tracking-widest shadow-lg transition active:scale-[0.98]">Show Answer</button>
+            )}
+          </>
+        )}
+        {queue && !current && (
+          <div className="py-20 flex flex-col items-center justify-center text-gray-400 text-center">
+            <GraduationCap size={48} className="mb-4 opacity-20" />
+            {graded.length > 0 ? (
+              <>
+                <p className="text-3xl font-bold text-ink mb-2">{Math.round((remembered / graded.length) * 100)}%</p>
+                <p className="text-sm">You remembered {remembered} of {graded.length} {graded.length === 1 ? 'card' : 'cards'} on the first try.</p>
+              </>
+            ) : (
+              <p className="text-sm">No flashcards due. Open a highlight to make some.</p>
+            )}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+};
+
+const SettingsScreen = () => {
+  const navigate = useNavigate();
+  const [settings, setSettings] = useState<AISettings>(getAISettings);
+  const [providerOrder, setProviderOrderState] = useState<CatalogueProviderId[]>(getProviderOrder);
+  const metadataProviders = useMemo(() => getMetadataProviders(), []);
+
+  const inputClass = "w-full p-3 bg-gray-50 rounded-xl focus:ring-2 focus:ring-accent/20 outline-none text-sm";
+  const labelClass = "text-[10px] font-bold text-gray-400 uppercase tracking-widest mb-1 block";
+
+  const update = (next: AISettings) => {
+    setSettings(next);
+    setAISettings(next);
+  };
+
+  // Switching provider swaps in that provider's suggested model; a model name rarely carries over.
+  const setRoute = (task: AITask, route: Partial<AITaskRoute>) => {
+    const current = settings.tasks[task];
+    const provider = route.provider || current.provider;
+    const model = route.provider && route.provider !== current.provider ? DEFAULT_MODELS[provider][task] : route.model ?? current.model;
+    update({ ...settings, tasks: { ...settings.tasks, [task]: { provider, model } } });
+  };
+
+  const moveProvider = (index: number, offset: number) => {
+    const next = [...providerOrder];
+    [next[index], next[index + offset]] = [next[index + offset], next[index]];
+    setProviderOrderState(next);
+    setProviderOrder(next);
+  };
+
+  const usesProvider = (id: AIProviderId) => AI_TASKS.some(task => settings.tasks[task.id].provider === id);
+
+  return (
+    <div className="min-h-screen bg-paper pb-32">
+      <header className="sticky top-0 z-30 bg-paper/95 backdrop-blur-md border-b border-gray-100 flex items-center p-4 gap-4">
+        <button onClick={() => navigate('/')} className="p-2 hover:bg-gray-100 rounded-full transition-colors"><ChevronLeft size={24} /></button>
+        <div className="flex-1 min-w-0"><h1 className="font-serif font-bold truncate text-sm">Settings</h1></div>
+      </header>
+      <main className="max-w-2xl mx-auto px-6 py-10 space-y-10">
+        <section className="space-y-3">
+          <h2 className="text-xs font-bold text-gray-400 uppercase tracking-widest">AI Models</h2>
+          {AI_TASKS.map(task => (
+            <div key={task.id} className="bg-white p-4 rounded-2xl shadow-sm border border-gray-100 space-y-3">
+              <div>
+                <h3 className="font-bold text-sm">{task.label}</h3>
+                <p className="text-xs text-gray-400">{task.description}</p>
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                <select value={settings.tasks[task.id].provider} onChange={(e) => setRoute(task.id, { provider: e.target.value as AIProviderId })} className={inputClass}>
+                  {AI_PROVIDERS.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                </select>
+                <input value={settings.tasks[task.id].model} onChange={(e) => setRoute(task.id, { model: e.target.value })} placeholder={DEFAULT_MODELS[settings.tasks[task.id].provider][task.id]} className={inputClass} />
+              </div>
+            </div>
+          ))}
+          <div className="bg-white p-4 rounded-2xl shadow-sm border border-gray-100 space-y-3">
+            <div>
+              <h3 className="font-bold text-sm">On-Device Text Recognition</h3>
+              <p className="text-xs text-gray-400">Read page scans without a model. Runs entirely on this device, but can't tell which lines are marked.</p>
+            </div>
+            <select value={settings.ocrMode} onChange={(e) => update({ ...settings, ocrMode: e.target.value as OcrMode })} className={inputClass}>
+              {OCR_MODES.map(m => <option key={m.id} value={m.id}>{m.label}</option>)}
+            </select>
+          </div>
+        </section>
+
+        <section className="space-y-4">
+          <h2 className="text-xs font-bold text-gray-400 uppercase tracking-widest">Connections</h2>
+          <div>
+            <label className={labelClass}>Gemini API Key</label>
+            <input type="password" value={settings.geminiApiKey} onChange={(e) => update({ ...settings, geminiApiKey: e.target.value })} placeholder={process.env.API_KEY ? 'Using the built-in key' : 'Required for Gemini'} className={inputClass} />
+          </div>
+          <div className={usesProvider('openai-compatible') ? '' : 'opacity-50'}>
+            <label className={labelClass}>OpenAI-compatible Server</label>
+            <input value={settings.openAIBaseUrl} onChange={(e) => update({ ...settings, openAIBaseUrl: e.target.value })} placeholder="http://localhost:11434/v1" className={`${inputClass} mb-2`} />
+            <input type="password" value={settings.openAIApiKey} onChange={(e) => update({ ...settings, openAIApiKey: e.target.value })} placeholder="API key (optional for local servers)" className={inputClass} />
+          </div>
+          <p className="text-xs text-gray-400">Keys are stored on this device only. Local servers must allow requests from this origin (for Ollama, set OLLAMA_ORIGINS).</p>
+        </section>
+
+        <section className="space-y-3">
+          <h2 className="text-xs font-bold text-gray-400 uppercase tracking-widest">Book Lookup Order</h2>
+          {providerOrder.map((id, index) => (
+            <div key={id} className="bg-white p-4 rounded-2xl shadow-sm border border-gray-100 flex items-center gap-4">
+              <span className="w-6 text-xs font-bold text-gray-300">{index + 1}</span>
+              <h3 className="flex-1 font-bold text-sm">{metadataProviders.find(p => p.id === id)?.name || id}</h3>
+              <button onClick={() => moveProvider(index, -1)} disabled={index === 0} title="Move Up" className="p-2 text-gray-400 hover:text-ink disabled:opacity-20 transition"><ChevronUp size={16} /></button>
+              <button onClick={() => moveProvider(index, 1)} disabled={index === providerOrder.length - 1} title="Move Down" className="p-2 text-gray-400 hover:text-ink disabled:opacity-20 transition"><ChevronDown size={16} /></button>
+            </div>
+          ))}
+          <p className="text-xs text-gray-400">A book no catalogue knows is added as typed.</p>
+        </section>
+      </main>
+    </div>
+  );
+};
+
 const App = () => (
   <HashRouter>
     <Routes>
       <Route path="/" element={<Library />} />
       <Route path="/book/:id" element={<BookDetail />} />
+      <Route path="/tags" element={<TagBrowser />} />
+      <Route path="/settings" element={<SettingsScreen />} />
+      <Route path="/tags/:tag" element={<TagHighlights />} />
+      <Route path="/review" element={<ReviewSession />} />
+      <Route path="/study" element={<StudySession />} />
+      <Route path="/study/:bookId" element={<StudySession />} />
     </Routes>
   </HashRouter>
 );
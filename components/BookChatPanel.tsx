@@ -0,0 +1,112 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ChevronLeft, Loader2, MessagesSquare, Send, Trash2 } from 'lucide-react';
+import { Book, ChatCitation, ChatMessage, Highlight } from '../types';
+
+interface BookChatPanelProps {
+  title: string;
+  messages: ChatMessage[];
+  sources: Map<string, { highlight: Highlight, book: Book }>;
+  /** Library-wide chats name the book next to each citation. */
+  showBookTitles?: boolean;
+  onAsk: (question: string) => Promise<void>;
+  onClear: () => void;
+  onOpenCitation: (citation: ChatCitation) => void;
+  onClose: () => void;
+}
+
+const ANSWER_MARKER = /(\[\d+\])/g;
+
+const BookChatPanel: React.FC<BookChatPanelProps> = ({ title, messages, sources, showBookTitles = false, onAsk, onClear, onOpenCitation, onClose }) => {
+  const [question, setQuestion] = useState('');
+  const [isAsking, setIsAsking] = useState(false);
+  const bottom = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    bottom.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [messages.length, isAsking]);
+
+  const handleAsk = async () => {
+    if (!question.trim() || isAsking) return;
+    setIsAsking(true);
+    try {
+      await onAsk(question);
+      setQuestion('');
+    } catch (e) {
+      alert("Couldn't get an answer right now.");
+    } finally {
+      setIsAsking(false);
+    }
+  };
+
+  const renderAnswer = (message: ChatMessage) =>
+    message.text.split(ANSWER_MARKER).map((part, i) => {
+      const citation = message.citations.find(c => `[${c.marker}]` === part);
+      if (!citation) return <React.Fragment key={i}>{part}</React.Fragment>;
+      return <button key={i} onClick={() => onOpenCitation(citation)} className="align-super text-[9px] font-bold text-accent px-0.5 hover:underline">{citation.marker}</button>;
+    });
+
+  return (
+    <div className="fixed inset-0 z-50 bg-paper flex flex-col animate-in slide-in-from-right duration-300">
+      <div className="flex items-center justify-between p-4 border-b border-gray-100 bg-paper/95 backdrop-blur-sm">
+        <button onClick={onClose} className="p-2 text-gray-600 hover:bg-gray-100 rounded-full transition-colors"><ChevronLeft size={24} /></button>
+        <div className="flex flex-col items-center">
+          <span className="font-serif font-bold text-sm leading-none mb-1">Ask Your Notes</span>
+          <span className="text-[9px] font-bold text-gray-400 uppercase tracking-widest">{title}</span>
+        </div>
+        <button onClick={onClear} disabled={messages.length === 0} title="Clear Conversation" className="p-2 text-gray-400 hover:text-red-500 disabled:opacity-30 transition-colors"><Trash2 size={20} /></button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-6 space-y-6 hide-scrollbar">
+        {messages.length === 0 && (
+          <div className="text-center py-16 opacity-40 flex flex-col items-center">
+            <MessagesSquare size={32} className="mb-4" />
+            <p className="text-xs font-bold uppercase tracking-widest">Ask anything about your highlights</p>
+            <p className="text-xs mt-2 max-w-xs">Answers only use what you captured, with a citation for every claim.</p>
+          </div>
+        )}
+        {messages.map(message => message.role === 'user' ? (
+          <div key={message.id} className="flex justify-end">
+            <div className="bg-ink text-white px-5 py-3 rounded-3xl rounded-tr-none max-w-[85%] text-sm leading-relaxed">{message.text}</div>
+          </div>
+        ) : (
+          <div key={message.id} className="bg-white p-5 rounded-3xl rounded-tl-none shadow-sm border border-gray-100 max-w-[92%] space-y-4">
+            <p className="text-sm leading-relaxed text-ink/80 whitespace-pre-wrap">{renderAnswer(message)}</p>
+            {message.citations.length > 0 && (
+              <div className="space-y-2 pt-3 border-t border-gray-100">
+                {message.citations.map(citation => {
+                  const source = sources.get(citation.highlightId);
+                  return (
+                    <button key={citation.marker} onClick={() => onOpenCitation(citation)} disabled={!source} className="w-full flex gap-2 text-left group disabled:opacity-50">
+                      <span className="text-[10px] font-bold text-accent">[{citation.marker}]</span>
+                      <span className="flex-1 min-w-0">
+                        <span className="block text-xs font-serif italic text-ink/70 line-clamp-2 group-hover:text-ink">{source ? `"${source.highlight.text}"` : 'Highlight deleted'}</span>
+                        <span className="block text-[9px] font-bold text-gray-400 uppercase tracking-widest mt-1">
+                          {[showBookTitles && source?.book.title, citation.pageNumber ? `Page ${citation.pageNumber}` : 'No page'].filter(Boolean).join(' · ')}
+                        </span>
+                      </span>
+                    </button>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+        ))}
+        {isAsking && <div className="flex items-center gap-2 text-xs text-gray-400"><Loader2 size={14} className="animate-spin" /> Reading your highlights…</div>}
+        <div ref={bottom} />
+      </div>
+
+      <div className="p-4 bg-white border-t border-gray-100 pb-10 flex gap-2 items-end">
+        <textarea
+          value={question}
+          onChange={(e) => setQuestion(e.target.value)}
+          onKeyDown={(e) => { if (e.key === 'Enter' && !e.shiftKey) { e.preventDefault(); handleAsk(); } }}
+          placeholder="What did the author say about…"
+          className="flex-1 bg-gray-50 p-4 rounded-2xl focus:outline-none focus:ring-2 focus:ring-accent/20 resize-none min-h-[56px] max-h-32 text-sm leading-relaxed"
+        />
+        <button onClick={handleAsk} disabled={!question.trim() || isAsking} className="p-4 bg-accent text-white rounded-2xl shadow-xl active:scale-95 disabled:opacity-50 transition-all"><Send size={20} /></button>
+      </div>
+    </div>
+  );
+};
+
+export default BookChatPanel;
@@ -0,0 +1,60 @@
+import React from 'react';
+import { Book as BookIcon, PenLine, X } from 'lucide-react';
+import { BookMetadata } from '../services/metadataService';
+
+interface BookSearchResultsProps {
+  candidates: BookMetadata[];
+  isSaving: boolean;
+  onSelect: (candidate: BookMetadata) => void;
+  onClose: () => void;
+}
+
+const publicationYear = (date?: string) => date?.match(/\d{4}/)?.[0];
+
+const BookSearchResults: React.FC<BookSearchResultsProps> = ({ candidates, isSaving, onSelect, onClose }) => {
+  return (
+    <div className="max-w-2xl mx-auto mt-3 bg-white rounded-[24px] border border-gray-100 shadow-xl overflow-hidden animate-in fade-in slide-in-from-top-2 duration-200">
+      <div className="flex justify-between items-center px-5 pt-4 pb-2">
+        <h2 className="text-[10px] font-bold text-gray-400 uppercase tracking-widest">Choose the Right Edition</h2>
+        <button onClick={onClose} className="p-1 rounded-full text-gray-400 hover:text-ink hover:bg-gray-100 transition"><X size={16} /></button>
+      </div>
+      <div className="max-h-[60vh] overflow-y-auto p-2 space-y-1 hide-scrollbar">
+        {candidates.map((candidate, index) => {
+          const isManual = candidate.provider === 'manual';
+          const isbn = candidate.isbn13 || candidate.isbn10;
+          const details = [
+            publicationYear(candidate.publishedDate),
+            candidate.publisher,
+            candidate.pageCount && `${candidate.pageCount} pages`,
+            isbn && `ISBN ${isbn}`,
+          ].filter(Boolean).join(' · ');
+          return (
+            <button
+              key={`${candidate.provider}-${candidate.isbn13 || candidate.isbn10 || index}`}
+              onClick={() => onSelect(candidate)}
+              disabled={isSaving}
+              className="w-full flex items-center gap-4 p-3 rounded-2xl text-left hover:bg-gray-50 disabled:opacity-50 transition"
+            >
+              {isManual ? (
+                <div className="w-10 h-14 rounded-lg bg-gray-100 flex items-center justify-center text-gray-400 flex-shrink-0"><PenLine size={16} /></div>
+              ) : candidate.coverUrl ? (
+                <img src={candidate.coverUrl} className="w-10 h-14 object-cover rounded-lg shadow-sm flex-shrink-0" />
+              ) : (
+                <div className="w-10 h-14 rounded-lg bg-gray-100 flex items-center justify-center text-gray-300 flex-shrink-0"><BookIcon size={16} /></div>
+              )}
+              <div className="flex-1 min-w-0">
+                <h3 className="text-sm font-serif font-bold text-ink truncate">{isManual ? `Add "${candidate.title}" manually` : candidate.title}</h3>
+                <p className="text-xs text-gray-400 truncate">{isManual ? 'Use the title as typed, without catalogue details' : candidate.authors.join(', ') || 'Unknown Author'}</p>
+                {!isManual && details && (
+                  <p className="text-[10px] text-gray-400 font-bold uppercase tracking-widest mt-1 truncate">{details}</p>
+                )}
+              </div>
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default BookSearchResults;
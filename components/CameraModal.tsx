@@ -1,17 +1,26 @@
 import React, { useRef, useState, useCallback, useEffect } from 'react';
-import { X, Camera, RefreshCw } from 'lucide-react';
+import { X, Camera, RefreshCw, Check } from 'lucide-react';
+import CropEditor from './CropEditor';
 
 interface CameraModalProps {
   isOpen: boolean;
   onClose: () => void;
   onCapture: (imageSrc: string) => void;
+  /** Review each photo in the crop editor, so only the chosen passage is sent on. */
+  editCrop?: boolean;
+  /** Stay open after each photo, for scanning page after page. */
+  continuous?: boolean;
+  /** Shown over the viewfinder, e.g. a continuous session's progress. */
+  status?: React.ReactNode;
 }
 
-const CameraModal: React.FC<CameraModalProps> = ({ isOpen, onClose, onCapture }) => {
+const CameraModal: React.FC<CameraModalProps> = ({ isOpen, onClose, onCapture, editCrop = false, continuous = false, status }) => {
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const [isStreaming, setIsStreaming] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [captured, setCaptured] = useState<string | null>(null);
+  const [isFlashing, setIsFlashing] = useState(false);
 
   const startCamera = useCallback(async () => {
     setError(null);
@@ -44,6 +53,7 @@ const CameraModal: React.FC<CameraModalProps> = ({ isOpen, onClose, onCapture })
       startCamera();
     } else {
       stopCamera();
+      setCaptured(null);
     }
     return () => stopCamera();
   }, [isOpen, startCamera, stopCamera]);
@@ -60,7 +70,16 @@ const CameraModal: React.FC<CameraModalProps> = ({ isOpen, onClose, onCapture })
       if (ctx) {
         ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
         const imageSrc = canvas.toDataURL('image/jpeg', 0.8);
+        if (editCrop) {
+          setCaptured(imageSrc);
+          return;
+        }
         onCapture(imageSrc);
+        if (continuous) {
+          setIsFlashing(true);
+          setTimeout(() => setIsFlashing(false), 150);
+          return;
+        }
         onClose();
       }
     }
@@ -70,7 +89,7 @@ const CameraModal: React.FC<CameraModalProps> = ({ isOpen, onClose, onCapture })
 
   return (
     <div className="fixed inset-0 z-50 bg-black flex flex-col justify-center items-center">
-      <div className="absolute top-4 right-4 z-10">
+      <div className="absolute top-4 right-4 z-30">
         <button onClick={onClose} className="p-2 bg-black/50 rounded-full text-white hover:bg-black/70 transition">
           <X size={24} />
         </button>
@@ -105,6 +124,19 @@ const CameraModal: React.FC<CameraModalProps> = ({ isOpen, onClose, onCapture })
 
       <canvas ref={canvasRef} className="hidden" />
 
+      {isFlashing && <div className="absolute inset-0 z-10 bg-white/60 pointer-events-none" />}
+      {status && (
+        <div className="absolute top-6 left-4 z-10 px-4 py-2 bg-black/50 rounded-full text-white text-xs font-bold">{status}</div>
+      )}
+
+      {captured && (
+        <CropEditor
+          imageSrc={captured}
+          onConfirm={(cropped) => { onCapture(cropped); onClose(); }}
+          onRetake={() => setCaptured(null)}
+        />
+      )}
+
       <div className="absolute bottom-10 w-full flex justify-center items-center gap-8">
          {/* Capture Button */}
         <button 
@@ -113,6 +145,11 @@ const CameraModal: React.FC<CameraModalProps> = ({ isOpen, onClose, onCapture })
         >
           <div className="w-16 h-16 bg-white rounded-full group-hover:bg-gray-200 transition-colors" />
         </button>
+        {continuous && (
+          <button onClick={onClose} className="absolute right-8 px-5 py-3 bg-white text-black rounded-full text-sm font-bold flex items-center gap-2 active:scale-95 transition">
+            <Check size={16} /> Done
+          </button>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,135 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Brush, Check, Crop, Eraser, Loader2, Maximize2, RotateCcw } from 'lucide-react';
+import { cropToRegions, detectMarkedRegionsInImage, Region, regionBetween, WHOLE_PAGE } from '../services/highlightRegionService';
+
+interface CropEditorProps {
+  imageSrc: string;
+  onConfirm: (croppedSrc: string) => void;
+  onRetake: () => void;
+}
+
+type Point = { x: number, y: number };
+
+/** Height of a paint stroke as a share of the photo: about one line of text. */
+const BRUSH_HEIGHT = 0.03;
+/** Drags smaller than this in either direction are taps, not selections. */
+const MIN_DRAG = 0.02;
+
+const CropEditor: React.FC<CropEditorProps> = ({ imageSrc, onConfirm, onRetake }) => {
+  const [regions, setRegions] = useState<Region[]>([]);
+  const [mode, setMode] = useState<'crop' | 'paint'>('crop');
+  const [isDetecting, setIsDetecting] = useState(true);
+  const [isCropping, setIsCropping] = useState(false);
+  const [stroke, setStroke] = useState<Point[] | null>(null);
+  const frameRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsDetecting(true);
+    detectMarkedRegionsInImage(imageSrc)
+      .then(found => { if (!cancelled) setRegions(found); })
+      .catch(e => console.warn("Highlight detection failed", e))
+      .finally(() => { if (!cancelled) setIsDetecting(false); });
+    return () => { cancelled = true; };
+  }, [imageSrc]);
+
+  const pointAt = (e: React.PointerEvent): Point => {
+    const rect = frameRef.current!.getBoundingClientRect();
+    return { x: (e.clientX - rect.left) / rect.width, y: (e.clientY - rect.top) / rect.height };
+  };
+
+  // Crop mode drags one rectangle; paint mode turns each stroke into a band one line high.
+  const strokeRegion = (points: Point[]): Region | null => {
+    if (points.length === 0) return null;
+    const xs = points.map(p => p.x);
+    const ys = points.map(p => p.y);
+    const region = mode === 'crop'
+      ? regionBetween(points[0], points[points.length - 1])
+      : regionBetween(
+          { x: Math.min(...xs), y: Math.min(...ys) - BRUSH_HEIGHT / 2 },
+          { x: Math.max(...xs), y: Math.max(...ys) + BRUSH_HEIGHT / 2 }
+        );
+    return region.width >= MIN_DRAG && region.height >= MIN_DRAG ? region : null;
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setStroke([pointAt(e)]);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!stroke) return;
+    const point = pointAt(e);
+    setStroke(mode === 'crop' ? [stroke[0], point] : [...stroke, point]);
+  };
+
+  const handlePointerUp = () => {
+    const region = stroke && strokeRegion(stroke);
+    if (region) setRegions(mode === 'crop' ? [region] : [...regions, region]);
+    setStroke(null);
+  };
+
+  const handleConfirm = async () => {
+    setIsCropping(true);
+    try {
+      onConfirm(regions.length > 0 ? await cropToRegions(imageSrc, regions) : imageSrc);
+    } catch (e) {
+      console.warn("Cropping failed, using the whole photo", e);
+      onConfirm(imageSrc);
+    } finally {
+      setIsCropping(false);
+    }
+  };
+
+  const preview = stroke && strokeRegion(stroke);
+  const box = (r: Region) => ({ left: `${r.x * 100}%`, top: `${r.y * 100}%`, width: `${r.width * 100}%`, height: `${r.height * 100}%` });
+  const status = isDetecting
+    ? 'Looking for marked lines…'
+    : regions.length === 0
+      ? mode === 'crop' ? 'Drag around the passage you marked' : 'Paint over the lines you mean'
+      : `${regions.length} ${regions.length === 1 ? 'area' : 'areas'} selected`;
+
+  return (
+    <div className="absolute inset-0 z-20 bg-black flex flex-col">
+      <div className="p-4 text-center">
+        <p className="text-white/70 text-xs font-bold uppercase tracking-widest flex items-center justify-center gap-2">
+          {isDetecting && <Loader2 size={12} className="animate-spin" />}{status}
+        </p>
+      </div>
+
+      <div className="flex-1 min-h-0 flex items-center justify-center p-4">
+        <div
+          ref={frameRef}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={() => setStroke(null)}
+          className="relative touch-none select-none cursor-crosshair"
+        >
+          <img src={imageSrc} alt="Captured page" draggable={false} className="block max-w-full max-h-[65vh] rounded-lg" />
+          {regions.map((r, i) => (
+            <div key={i} style={box(r)} className="absolute border-2 border-accent bg-highlight/30 rounded pointer-events-none" />
+          ))}
+          {preview && <div style={box(preview)} className="absolute border-2 border-dashed border-white bg-white/20 rounded pointer-events-none" />}
+        </div>
+      </div>
+
+      <div className="p-6 pb-10 flex flex-col items-center gap-5">
+        <div className="flex gap-2">
+          <button onClick={() => setMode('crop')} className={`px-4 py-2 rounded-full text-xs font-bold flex items-center gap-2 transition ${mode === 'crop' ? 'bg-white text-black' : 'bg-white/10 text-white'}`}><Crop size={14} /> Crop</button>
+          <button onClick={() => setMode('paint')} className={`px-4 py-2 rounded-full text-xs font-bold flex items-center gap-2 transition ${mode === 'paint' ? 'bg-white text-black' : 'bg-white/10 text-white'}`}><Brush size={14} /> Paint Lines</button>
+          <button onClick={() => setRegions([WHOLE_PAGE])} title="Whole Page" className="p-2 rounded-full bg-white/10 text-white hover:bg-white/20 transition"><Maximize2 size={16} /></button>
+          <button onClick={() => setRegions([])} disabled={regions.length === 0} title="Clear Selection" className="p-2 rounded-full bg-white/10 text-white hover:bg-white/20 disabled:opacity-30 transition"><Eraser size={16} /></button>
+        </div>
+        <div className="flex gap-4">
+          <button onClick={onRetake} className="px-6 py-3 rounded-full bg-white/10 text-white text-sm font-bold flex items-center gap-2 hover:bg-white/20 transition"><RotateCcw size={16} /> Retake</button>
+          <button onClick={handleConfirm} disabled={isCropping} className="px-6 py-3 rounded-full bg-accent text-white text-sm font-bold flex items-center gap-2 disabled:opacity-50 transition">
+            {isCropping ? <Loader2 size={16} className="animate-spin" /> : <Check size={16} />} {regions.length > 0 ? 'Use Selection' : 'Use Whole Photo'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CropEditor;
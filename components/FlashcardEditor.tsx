@@ -0,0 +1,147 @@
+import React, { useRef, useState } from 'react';
+import { Brackets, GraduationCap, Loader2, Plus, Sparkles, Trash2, X } from 'lucide-react';
+import { Flashcard, FlashcardDraft, FlashcardKind, Highlight } from '../types';
+import { clozeToText, isValidDraft, wrapCloze } from '../services/flashcardService';
+
+interface FlashcardEditorProps {
+  highlight: Highlight;
+  cards: Flashcard[];
+  onSave: (drafts: FlashcardDraft[]) => Promise<void>;
+  onDelete: (card: Flashcard) => void;
+  onGenerate: () => Promise<FlashcardDraft[]>;
+  onClose: () => void;
+}
+
+const CardPreview: React.FC<{ draft: FlashcardDraft }> = ({ draft }) => (
+  <div className="text-xs leading-relaxed">
+    <p className="font-serif text-ink/80">{draft.kind === 'cloze' ? clozeToText(draft.front, false) : draft.front}</p>
+    <p className="mt-1 text-accent font-bold">{draft.kind === 'cloze' ? clozeToText(draft.front, true) : draft.back}</p>
+  </div>
+);
+
+const FlashcardEditor: React.FC<FlashcardEditorProps> = ({ highlight, cards, onSave, onDelete, onGenerate, onClose }) => {
+  const [kind, setKind] = useState<FlashcardKind>('cloze');
+  const [front, setFront] = useState(highlight.text);
+  const [back, setBack] = useState('');
+  const [suggested, setSuggested] = useState<FlashcardDraft[] | null>(null);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const clozeInput = useRef<HTMLTextAreaElement>(null);
+
+  const draft: FlashcardDraft = { kind, front, back };
+
+  const switchKind = (next: FlashcardKind) => {
+    setKind(next);
+    setFront(next === 'cloze' ? highlight.text : '');
+    setBack('');
+  };
+
+  const hideSelection = () => {
+    const input = clozeInput.current;
+    if (!input || input.selectionStart === input.selectionEnd) return;
+    setFront(wrapCloze(front, input.selectionStart, input.selectionEnd));
+  };
+
+  const save = async (drafts: FlashcardDraft[]) => {
+    setIsSaving(true);
+    try {
+      await onSave(drafts);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleAdd = async () => {
+    await save([draft]);
+    switchKind(kind);
+  };
+
+  const handleGenerate = async () => {
+    setIsGenerating(true);
+    try {
+      setSuggested(await onGenerate());
+    } catch (e) {
+      alert("Couldn't generate flashcards.");
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const acceptSuggestion = async (suggestion: FlashcardDraft) => {
+    await save([suggestion]);
+    setSuggested(prev => prev?.filter(s => s !== suggestion) || null);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[70] bg-black/60 backdrop-blur-sm flex items-center justify-center p-4">
+      <div className="bg-white w-full max-w-lg rounded-[32px] p-8 shadow-2xl max-h-[85vh] flex flex-col animate-in zoom-in-95 duration-200">
+        <div className="flex justify-between items-center mb-6">
+          <h2 className="text-xl font-serif font-bold text-ink flex items-center gap-2"><GraduationCap size={18} className="text-accent" /> Flashcards</h2>
+          <button onClick={onClose} className="p-2 rounded-full text-gray-400 hover:bg-gray-100 transition"><X size={18} /></button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto space-y-6 pb-4 hide-scrollbar">
+          <div className="space-y-3">
+            <div className="flex gap-2">
+              {(['cloze', 'qa'] as FlashcardKind[]).map(k => (
+                <button key={k} onClick={() => switchKind(k)} className={`px-3 py-1.5 rounded-full text-[10px] font-bold uppercase tracking-widest border transition ${kind === k ? 'bg-ink text-white border-ink' : 'bg-white text-gray-400 border-gray-200 hover:text-ink'}`}>
+                  {k === 'cloze' ? 'Cloze' : 'Question'}
+                </button>
+              ))}
+            </div>
+            {kind === 'cloze' ? (
+              <>
+                <textarea ref={clozeInput} value={front} onChange={(e) => setFront(e.target.value)} rows={4} className="w-full bg-gray-50 p-4 rounded-2xl text-sm font-serif leading-relaxed focus:outline-none focus:ring-2 focus:ring-accent/20 resize-none" />
+                <div className="flex items-center justify-between gap-3">
+                  <p className="text-[10px] text-gray-400">Select the words to recall, then hide them.</p>
+                  <button onClick={hideSelection} className="flex items-center gap-1 px-3 py-1.5 rounded-full bg-accent/10 text-accent text-[10px] font-bold uppercase tracking-widest"><Brackets size={12} /> Hide Selection</button>
+                </div>
+              </>
+            ) : (
+              <>
+                <input value={front} onChange={(e) => setFront(e.target.value)} placeholder="Question" className="w-full bg-gray-50 p-4 rounded-2xl text-sm focus:outline-none focus:ring-2 focus:ring-accent/20" />
+                <textarea value={back} onChange={(e) => setBack(e.target.value)} placeholder="Answer" rows={3} className="w-full bg-gray-50 p-4 rounded-2xl text-sm leading-relaxed focus:outline-none focus:ring-2 focus:ring-accent/20 resize-none" />
+              </>
+            )}
+            {isValidDraft(draft) && kind === 'cloze' && <div className="p-4 rounded-2xl border border-gray-100 bg-gray-50/50"><CardPreview draft={draft} /></div>}
+            <div className="flex justify-between gap-3">
+              <button onClick={handleGenerate} disabled={isGenerating} className="flex items-center gap-2 px-4 py-2.5 text-gray-400 font-bold text-xs uppercase tracking-widest hover:text-accent disabled:opacity-50 transition">
+                {isGenerating ? <Loader2 size={14} className="animate-spin" /> : <Sparkles size={14} />} Suggest Cards
+              </button>
+              <button onClick={handleAdd} disabled={!isValidDraft(draft) || isSaving} className="px-6 py-2.5 bg-accent text-white font-bold text-xs uppercase tracking-widest rounded-2xl hover:bg-accent/90 disabled:opacity-50 shadow-lg shadow-accent/20 transition flex items-center gap-2">
+                <Plus size={14} /> Add Card
+              </button>
+            </div>
+          </div>
+
+          {suggested && (
+            <div className="space-y-2">
+              <h3 className="text-[10px] font-bold text-gray-400 uppercase tracking-widest">Suggested</h3>
+              {suggested.map((s, i) => (
+                <div key={i} className="p-4 rounded-2xl border border-accent/20 bg-accent/5 flex gap-3 items-start">
+                  <div className="flex-1 min-w-0"><CardPreview draft={s} /></div>
+                  <button onClick={() => acceptSuggestion(s)} disabled={isSaving} title="Add Card" className="p-2 rounded-full text-accent hover:bg-white disabled:opacity-50 transition"><Plus size={14} /></button>
+                </div>
+              ))}
+              {suggested.length === 0 && <p className="py-4 text-center text-xs text-gray-400">No more suggestions.</p>}
+            </div>
+          )}
+
+          {cards.length > 0 && (
+            <div className="space-y-2">
+              <h3 className="text-[10px] font-bold text-gray-400 uppercase tracking-widest">{cards.length} {cards.length === 1 ? 'Card' : 'Cards'}</h3>
+              {cards.map(card => (
+                <div key={card.id} className="group p-4 rounded-2xl border border-gray-100 bg-gray-50/50 flex gap-3 items-start">
+                  <div className="flex-1 min-w-0"><CardPreview draft={card} /></div>
+                  <button onClick={() => onDelete(card)} title="Delete Card" className="p-2 rounded-full text-gray-300 hover:text-red-500 opacity-0 group-hover:opacity-100 transition"><Trash2 size={14} /></button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default FlashcardEditor;
@@ -0,0 +1,50 @@
+import React from 'react';
+import { Merge, Plus, Trash2 } from 'lucide-react';
+import { emptyDraft, HighlightDraft, mergeWithNext } from '../services/highlightDraftService';
+
+interface HighlightDraftListProps {
+  drafts: HighlightDraft[];
+  onChange: (drafts: HighlightDraft[]) => void;
+}
+
+const HighlightDraftList: React.FC<HighlightDraftListProps> = ({ drafts, onChange }) => {
+  const update = (id: string, changes: Partial<HighlightDraft>) =>
+    onChange(drafts.map(d => d.id === id ? { ...d, ...changes } : d));
+
+  return (
+    <div className="space-y-6">
+      {drafts.map((draft, index) => (
+        <div key={draft.id} className="bg-white border border-gray-100 rounded-[32px] p-6 shadow-inner space-y-3">
+          {drafts.length > 1 && (
+            <div className="flex items-center justify-between">
+              <span className="text-[10px] font-bold uppercase text-gray-300 tracking-widest">Passage {index + 1} of {drafts.length}</span>
+              <div className="flex gap-1">
+                {index < drafts.length - 1 && (
+                  <button onClick={() => onChange(mergeWithNext(drafts, index))} title="Merge With Next" className="p-2 text-gray-300 hover:text-ink transition"><Merge size={16} /></button>
+                )}
+                <button onClick={() => onChange(drafts.filter(d => d.id !== draft.id))} title="Discard" className="p-2 text-gray-300 hover:text-red-500 transition"><Trash2 size={16} /></button>
+              </div>
+            </div>
+          )}
+          <textarea
+            value={draft.text}
+            onChange={(e) => update(draft.id, { text: e.target.value })}
+            placeholder="The author's words..."
+            className="w-full h-36 font-serif italic text-xl bg-transparent focus:outline-none resize-none"
+          />
+          <textarea
+            value={draft.note}
+            onChange={(e) => update(draft.id, { note: e.target.value })}
+            placeholder="Why does this matter? Your initial thought..."
+            className="w-full h-20 bg-gray-50 rounded-2xl p-4 text-sm text-ink/80 focus:outline-none focus:bg-white focus:ring-2 focus:ring-accent/10 transition-colors resize-none"
+          />
+        </div>
+      ))}
+      <button onClick={() => onChange([...drafts, emptyDraft()])} className="w-full py-3 border-2 border-dashed border-gray-200 rounded-2xl text-xs font-bold text-gray-400 uppercase tracking-widest flex items-center justify-center gap-2 hover:border-accent/30 hover:text-accent transition">
+        <Plus size={14} /> Add Passage
+      </button>
+    </div>
+  );
+};
+
+export default HighlightDraftList;
@@ -0,0 +1,183 @@
+import React from 'react';
+import { Book as BookIcon, Check, ChevronLeft, Loader2, RefreshCw } from 'lucide-react';
+import { Book } from '../types';
+import { ImportPlan, ImportStatus, PlannedBook, countByStatus } from '../services/importPlanService';
+
+interface ImportPreviewProps {
+  plan: ImportPlan;
+  libraryBooks: Book[];
+  excludedKeys: Set<string>;
+  isCommitting: boolean;
+  onThresholdChange: (threshold: number) => void;
+  onToggleHighlights: (keys: string[], selected: boolean) => void;
+  onReassignBook: (bookKey: string, bookId: string | null) => void;
+  onEditBook: (bookKey: string, changes: { title?: string; author?: string }) => void;
+  onBack: () => void;
+  onConfirm: () => void;
+}
+
+const STATUS_STYLES: Record<ImportStatus, string> = {
+  new: 'bg-green-50 text-green-600 border-green-100',
+  updated: 'bg-indigo-50 text-indigo-600 border-indigo-100',
+  duplicate: 'bg-gray-50 text-gray-400 border-gray-100',
+};
+
+const STATUS_LABELS: Record<ImportStatus, string> = {
+  new: 'New',
+  updated: 'Updated',
+  duplicate: 'Duplicate',
+};
+
+// Duplicates are never written, so only new and updated highlights can be toggled.
+const selectableKeys = (book: PlannedBook) =>
+  book.highlights.filter(h => h.status !== 'duplicate').map(h => h.key);
+
+const Checkbox = ({ checked, onChange }: { checked: boolean; onChange: () => void }) => (
+  <button
+    onClick={(e) => { e.stopPropagation(); onChange(); }}
+    className={`w-5 h-5 rounded-md border flex items-center justify-center flex-shrink-0 transition ${checked ? 'bg-accent border-accent text-white' : 'bg-white border-gray-300'}`}
+  >
+    {checked && <Check size={12} strokeWidth={3} />}
+  </button>
+);
+
+const ImportPreview: React.FC<ImportPreviewProps> = ({
+  plan,
+  libraryBooks,
+  excludedKeys,
+  isCommitting,
+  onThresholdChange,
+  onToggleHighlights,
+  onReassignBook,
+  onEditBook,
+  onBack,
+  onConfirm,
+}) => {
+  const counts = countByStatus(plan);
+  const selectedCount = plan.books.reduce(
+    (sum, book) => sum + selectableKeys(book).filter(k => !excludedKeys.has(k)).length,
+    0
+  );
+
+  return (
+    <>
+      <div className="flex-1 overflow-y-auto space-y-6 pb-4 hide-scrollbar">
+        <div className="grid grid-cols-3 gap-3">
+          {(['new', 'updated', 'duplicate'] as ImportStatus[]).map(status => (
+            <div key={status} className={`p-4 rounded-2xl text-center border ${STATUS_STYLES[status]}`}>
+              <div className="text-2xl font-bold mb-1">{counts[status]}</div>
+              <div className="text-[10px] font-bold uppercase tracking-widest">{STATUS_LABELS[status]}</div>
+            </div>
+          ))}
+        </div>
+
+        <div className="bg-gray-50 p-4 rounded-2xl">
+          <div className="flex justify-between items-center mb-2">
+            <label className="text-[10px] font-bold text-gray-400 uppercase tracking-widest">Match Sensitivity</label>
+            <span className="text-[10px] font-bold text-accent">{Math.round(plan.threshold * 100)}% similar</span>
+          </div>
+          <input
+            type="range"
+            min={0.5}
+            max={1}
+            step={0.05}
+            value={plan.threshold}
+            onChange={(e) => onThresholdChange(Number(e.target.value))}
+            className="w-full accent-[#d97757]"
+          />
+          <p className="text-[10px] text-gray-400 mt-1">Lower values treat more loosely similar passages as the same highlight.</p>
+        </div>
+
+        {plan.books.map(book => {
+          const keys = selectableKeys(book);
+          const allSelected = keys.length > 0 && keys.every(k => !excludedKeys.has(k));
+          return (
+            <div key={book.key} className="space-y-3 bg-gray-50/50 p-4 rounded-[24px] border border-gray-100">
+              <div className="flex items-start gap-3">
+                <div className="pt-3">
+                  <Checkbox checked={allSelected} onChange={() => onToggleHighlights(keys, !allSelected)} />
+                </div>
+                <div className="flex-1 min-w-0 space-y-2">
+                  {book.match ? (
+                    <div className="flex items-center gap-3 py-2">
+                      <img src={book.match.coverUrl} className="w-8 h-12 object-cover rounded-md shadow-sm" />
+                      <div className="min-w-0">
+                        <h3 className="text-sm font-serif font-bold text-ink truncate">{book.match.title}</h3>
+                        <p className="text-[10px] text-gray-400 font-bold uppercase tracking-widest truncate">{book.match.author}</p>
+                      </div>
+                    </div>
+                  ) : (
+                    <>
+                      <input
+                        value={book.imported.title}
+                        onChange={(e) => onEditBook(book.key, { title: e.target.value })}
+                        placeholder="Title"
+                        className="w-full px-3 py-2 bg-white border border-gray-200 rounded-xl text-sm font-serif font-bold text-ink outline-none focus:ring-2 focus:ring-accent/20"
+                      />
+                      <input
+                        value={book.imported.author}
+                        onChange={(e) => onEditBook(book.key, { author: e.target.value })}
+                        placeholder="Author"
+                        className="w-full px-3 py-2 bg-white border border-gray-200 rounded-xl text-xs text-gray-500 outline-none focus:ring-2 focus:ring-accent/20"
+                      />
+                    </>
+                  )}
+                  <div className="flex items-center gap-2">
+                    <BookIcon size={12} className="text-gray-400 flex-shrink-0" />
+                    <select
+                      value={book.match?.id || ''}
+                      onChange={(e) => onReassignBook(book.key, e.target.value || null)}
+                      className="flex-1 min-w-0 bg-white border border-gray-200 rounded-xl px-2 py-1.5 text-[11px] font-bold text-ink outline-none"
+                    >
+                      <option value="">Add as a new book</option>
+                      {libraryBooks.map(b => <option key={b.id} value={b.id}>{b.title} — {b.author}</option>)}
+                    </select>
+                  </div>
+                </div>
+              </div>
+
+              {book.highlights.map(h => {
+                const selectable = h.status !== 'duplicate';
+                const selected = selectable && !excludedKeys.has(h.key);
+                return (
+                  <div
+                    key={h.key}
+                    onClick={() => selectable && onToggleHighlights([h.key], !selected)}
+                    className={`p-4 rounded-2xl border bg-white flex gap-3 ${selectable ? 'cursor-pointer' : ''} ${selected ? '' : 'opacity-50'}`}
+                  >
+                    {selectable && <Checkbox checked={selected} onChange={() => onToggleHighlights([h.key], !selected)} />}
+                    <div className="flex-1 min-w-0">
+                      <div className="flex justify-between items-start gap-3">
+                        <p className="text-xs font-serif italic text-ink/80 leading-relaxed line-clamp-3">"{h.incoming.text}"</p>
+                        <span className={`text-[9px] font-bold px-2 py-1 rounded-lg border uppercase tracking-widest flex-shrink-0 ${STATUS_STYLES[h.status]}`}>{STATUS_LABELS[h.status]}</span>
+                      </div>
+                      {h.status === 'updated' && h.match && (h.keepText ? (
+                        <p className="text-[10px] text-gray-400 mt-2 line-clamp-2">Adds notes to: "{h.match.text}"</p>
+                      ) : h.match.text !== h.incoming.text && (
+                        <p className="text-[10px] text-gray-400 mt-2 line-clamp-2">Replaces: "{h.match.text}"</p>
+                      ))}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="flex justify-between gap-3 pt-6 border-t border-gray-100">
+        <button onClick={onBack} className="px-4 py-2.5 text-gray-400 font-bold text-xs uppercase tracking-widest hover:text-ink transition flex items-center gap-1"><ChevronLeft size={14} /> Back</button>
+        <button
+          onClick={onConfirm}
+          disabled={selectedCount === 0 || isCommitting}
+          className="px-8 py-2.5 bg-accent text-white font-bold text-xs uppercase tracking-widest rounded-2xl hover:bg-accent/90 disabled:opacity-50 shadow-lg shadow-accent/20 transition flex items-center gap-2"
+        >
+          {isCommitting ? <Loader2 size={14} className="animate-spin" /> : <RefreshCw size={14} />}
+          {isCommitting ? 'Saving...' : `Import ${selectedCount} Selected`}
+        </button>
+      </div>
+    </>
+  );
+};
+
+export default ImportPreview;
@@ -0,0 +1,81 @@
+import React from 'react';
+import { AlertTriangle, Camera, Loader2, RefreshCw, Trash2 } from 'lucide-react';
+import { ResolvedPage, ScanItem, ScanQueue } from '../services/scanSessionService';
+import HighlightDraftList from './HighlightDraftList';
+
+interface ScanSessionReviewProps {
+  items: ScanItem[];
+  pages: Map<string, ResolvedPage>;
+  onUpdate: ScanQueue['update'];
+  onRetry: (id: string) => void;
+  onRemove: (id: string) => void;
+  onScanMore: () => void;
+  onSave: () => void;
+  onCancel: () => void;
+}
+
+const ScanSessionReview: React.FC<ScanSessionReviewProps> = ({ items, pages, onUpdate, onRetry, onRemove, onScanMore, onSave, onCancel }) => {
+  const finished = items.filter(i => i.status === 'done' || i.status === 'failed').length;
+  const isBusy = finished < items.length;
+  const passageCount = items.filter(i => i.status === 'done').reduce((sum, i) => sum + i.drafts.filter(d => d.text.trim()).length, 0);
+
+  return (
+    <div className="fixed inset-0 z-[80] bg-paper p-6 animate-in slide-in-from-bottom duration-300 flex flex-col">
+      <div className="flex justify-between items-center mb-6 max-w-2xl mx-auto w-full">
+        <button onClick={onCancel} className="text-gray-400 font-bold text-xs uppercase tracking-widest">Cancel</button>
+        <h2 className="font-serif font-bold text-lg">Scanned Pages</h2>
+        <button onClick={onSave} disabled={isBusy || passageCount === 0} className="text-accent font-bold text-xs uppercase tracking-widest disabled:opacity-30">Save All</button>
+      </div>
+
+      <div className="max-w-2xl mx-auto w-full mb-6">
+        <div className="flex justify-between text-[10px] font-bold uppercase text-gray-400 tracking-widest mb-2">
+          <span>{isBusy ? `Reading ${finished + 1} of ${items.length}` : `${items.length} ${items.length === 1 ? 'Page' : 'Pages'} Read`}</span>
+          <span>{passageCount} {passageCount === 1 ? 'Highlight' : 'Highlights'}</span>
+        </div>
+        <div className="h-1.5 bg-gray-100 rounded-full overflow-hidden">
+          <div className="h-full bg-accent transition-all" style={{ width: `${items.length ? (finished / items.length) * 100 : 0}%` }} />
+        </div>
+      </div>
+
+      <div className="flex-1 space-y-8 max-w-2xl mx-auto w-full overflow-y-auto hide-scrollbar pb-10">
+        {items.map(item => {
+          const page = pages.get(item.id);
+          return (
+            <div key={item.id} className="space-y-4">
+              <div className="flex items-center gap-4">
+                <img src={item.imageSrc} alt="Scanned page" className="w-14 h-14 object-cover rounded-xl shadow-sm flex-shrink-0" />
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2">
+                    <label className="text-[10px] font-bold uppercase text-gray-300 tracking-widest">Page</label>
+                    <input
+                      type="number"
+                      value={page?.pageNumber ?? ''}
+                      onChange={(e) => onUpdate(item.id, { pageNumber: parseInt(e.target.value) || null, pageEdited: true })}
+                      className="w-16 p-2 bg-gray-50 border border-gray-100 rounded-xl text-center text-xs font-bold"
+                    />
+                    {page?.check === 'guessed' && <span className="text-[10px] font-bold text-gray-400 uppercase tracking-widest">Guessed</span>}
+                    {page?.check === 'suspect' && <span className="text-[10px] font-bold text-red-500 uppercase tracking-widest flex items-center gap-1"><AlertTriangle size={12} /> Check</span>}
+                  </div>
+                  {item.status === 'queued' && <p className="text-xs text-gray-400 mt-1">Waiting…</p>}
+                  {item.status === 'processing' && <p className="text-xs text-gray-400 mt-1 flex items-center gap-1"><Loader2 size={12} className="animate-spin" /> Reading…</p>}
+                  {item.status === 'done' && item.source === 'ocr' && <p className="text-xs text-gray-400 mt-1">Read on this device</p>}
+                  {item.status === 'failed' && <p className="text-xs text-red-500 mt-1 truncate" title={item.error}>{item.error}</p>}
+                </div>
+                {item.status === 'failed' && (
+                  <button onClick={() => onRetry(item.id)} title="Retry" className="p-2 text-gray-400 hover:text-accent transition"><RefreshCw size={16} /></button>
+                )}
+                <button onClick={() => onRemove(item.id)} title="Remove Page" className="p-2 text-gray-300 hover:text-red-500 transition"><Trash2 size={16} /></button>
+              </div>
+              {item.status === 'done' && <HighlightDraftList drafts={item.drafts} onChange={(drafts) => onUpdate(item.id, { drafts })} />}
+            </div>
+          );
+        })}
+        <button onClick={onScanMore} className="w-full py-4 bg-ink text-white rounded-2xl text-xs font-bold uppercase tracking-widest flex items-center justify-center gap-2 hover:bg-black transition">
+          <Camera size={14} /> Scan More Pages
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ScanSessionReview;
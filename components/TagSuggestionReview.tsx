@@ -0,0 +1,89 @@
+import React, { useState } from 'react';
+import { Check, Loader2, Sparkles, X } from 'lucide-react';
+import { Highlight } from '../types';
+import { TagSuggestion } from '../services/themeService';
+
+interface TagSuggestionReviewProps {
+  title: string;
+  suggestions: TagSuggestion[];
+  highlights: Highlight[];
+  onApply: (accepted: TagSuggestion[]) => Promise<void>;
+  onClose: () => void;
+}
+
+const suggestionKey = (highlightId: string, tag: string) => `${highlightId}|${tag}`;
+
+const TagSuggestionReview: React.FC<TagSuggestionReviewProps> = ({ title, suggestions, highlights, onApply, onClose }) => {
+  const [rejected, setRejected] = useState<Set<string>>(new Set());
+  const [isApplying, setIsApplying] = useState(false);
+  const byId = new Map<string, Highlight>(highlights.map(h => [h.id, h]));
+  const visible = suggestions.filter(s => s.tags.length > 0 && byId.has(s.highlightId));
+
+  const accepted = visible
+    .map(s => ({ ...s, tags: s.tags.filter(t => !rejected.has(suggestionKey(s.highlightId, t))) }))
+    .filter(s => s.tags.length > 0);
+  const acceptedCount = accepted.reduce((sum, s) => sum + s.tags.length, 0);
+
+  const toggle = (key: string) => {
+    const next = new Set(rejected);
+    if (next.has(key)) next.delete(key); else next.add(key);
+    setRejected(next);
+  };
+
+  const handleApply = async () => {
+    setIsApplying(true);
+    try {
+      await onApply(accepted);
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[70] bg-black/60 backdrop-blur-sm flex items-center justify-center p-4">
+      <div className="bg-white w-full max-w-lg rounded-[32px] p-8 shadow-2xl max-h-[85vh] flex flex-col animate-in zoom-in-95 duration-200">
+        <div className="flex justify-between items-center mb-6">
+          <h2 className="text-xl font-serif font-bold text-ink flex items-center gap-2"><Sparkles size={18} className="text-accent" /> {title}</h2>
+          <button onClick={onClose} className="p-2 rounded-full text-gray-400 hover:bg-gray-100 transition"><X size={18} /></button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto space-y-4 pb-4 hide-scrollbar">
+          {visible.map(s => (
+            <div key={s.highlightId} className="p-4 rounded-2xl border border-gray-100 bg-gray-50/50">
+              <p className="text-xs font-serif italic text-ink/80 leading-relaxed line-clamp-3 mb-3">"{byId.get(s.highlightId)!.text}"</p>
+              <div className="flex flex-wrap gap-2">
+                {s.tags.map(tag => {
+                  const isAccepted = !rejected.has(suggestionKey(s.highlightId, tag));
+                  return (
+                    <button
+                      key={tag}
+                      onClick={() => toggle(suggestionKey(s.highlightId, tag))}
+                      className={`flex items-center gap-1 px-3 py-1 rounded-full text-[10px] font-bold tracking-wide border transition ${isAccepted ? 'bg-accent/10 text-accent border-accent/20' : 'bg-white text-gray-300 border-gray-200 line-through'}`}
+                    >
+                      {isAccepted && <Check size={10} />}#{tag}
+                    </button>
+                  );
+                })}
+              </div>
+            </div>
+          ))}
+          {visible.length === 0 && <p className="py-10 text-center text-sm text-gray-400">No new tags to suggest.</p>}
+        </div>
+
+        <div className="flex justify-end gap-3 pt-6 border-t border-gray-100">
+          <button onClick={onClose} className="px-4 py-2.5 text-gray-400 font-bold text-xs uppercase tracking-widest hover:text-ink transition">Cancel</button>
+          <button
+            onClick={handleApply}
+            disabled={acceptedCount === 0 || isApplying}
+            className="px-8 py-2.5 bg-accent text-white font-bold text-xs uppercase tracking-widest rounded-2xl hover:bg-accent/90 disabled:opacity-50 shadow-lg shadow-accent/20 transition flex items-center gap-2"
+          >
+            {isApplying ? <Loader2 size={14} className="animate-spin" /> : <Check size={14} />}
+            Apply {acceptedCount} {acceptedCount === 1 ? 'Tag' : 'Tags'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TagSuggestionReview;
@@ -0,0 +1,56 @@
+import React, { useState } from 'react';
+import { ChevronDown, ChevronRight, Layers, Tag, X } from 'lucide-react';
+import { Highlight } from '../types';
+import { Theme } from '../services/themeService';
+
+interface ThemeClustersProps {
+  themes: Theme[];
+  highlights: Highlight[];
+  onTagTheme: (theme: Theme) => void;
+  onClose: () => void;
+}
+
+const ThemeClusters: React.FC<ThemeClustersProps> = ({ themes, highlights, onTagTheme, onClose }) => {
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const byId = new Map<string, Highlight>(highlights.map(h => [h.id, h]));
+
+  return (
+    <div className="fixed inset-0 z-[70] bg-black/60 backdrop-blur-sm flex items-center justify-center p-4">
+      <div className="bg-white w-full max-w-lg rounded-[32px] p-8 shadow-2xl max-h-[85vh] flex flex-col animate-in zoom-in-95 duration-200">
+        <div className="flex justify-between items-center mb-6">
+          <h2 className="text-xl font-serif font-bold text-ink flex items-center gap-2"><Layers size={18} className="text-accent" /> Themes</h2>
+          <button onClick={onClose} className="p-2 rounded-full text-gray-400 hover:bg-gray-100 transition"><X size={18} /></button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto space-y-3 pb-4 hide-scrollbar">
+          {themes.map(theme => {
+            const isOpen = expanded === theme.name;
+            return (
+              <div key={theme.name} className="rounded-2xl border border-gray-100 bg-gray-50/50">
+                <div onClick={() => setExpanded(isOpen ? null : theme.name)} className="p-4 flex gap-3 items-start cursor-pointer">
+                  {isOpen ? <ChevronDown size={16} className="text-gray-400 mt-0.5" /> : <ChevronRight size={16} className="text-gray-400 mt-0.5" />}
+                  <div className="flex-1 min-w-0">
+                    <h3 className="font-serif font-bold text-sm text-ink">{theme.name}</h3>
+                    <p className="text-xs text-gray-500 leading-relaxed mt-1">{theme.description}</p>
+                    <p className="text-[10px] text-gray-400 font-bold uppercase tracking-widest mt-2">{theme.highlightIds.length} Highlights</p>
+                  </div>
+                  <button onClick={(e) => { e.stopPropagation(); onTagTheme(theme); }} title="Tag These Highlights" className="p-2 rounded-full text-gray-400 hover:text-accent hover:bg-white transition"><Tag size={14} /></button>
+                </div>
+                {isOpen && (
+                  <div className="px-4 pb-4 space-y-2">
+                    {theme.highlightIds.map(id => byId.get(id)).filter(Boolean).map(h => (
+                      <p key={h!.id} className="p-3 bg-white rounded-xl border border-gray-100 text-xs font-serif italic text-ink/80 leading-relaxed line-clamp-3">"{h!.text}"</p>
+                    ))}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+          {themes.length === 0 && <p className="py-10 text-center text-sm text-gray-400">No clear themes found yet. Add a few more highlights and try again.</p>}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ThemeClusters;
@@ -0,0 +1,162 @@
+import { Schema, Type } from "@google/genai";
+import { BoundingBox, Book, ExtractionResult, Highlight } from "../types";
+
+export type AIProviderId = 'gemini' | 'openai-compatible' | 'fake';
+
+export interface BookIdentification {
+  title: string;
+  author: string;
+  isbn?: string;
+}
+
+/**
+ * Everything Lumina asks of a model. `model` is the provider's own model name,
+ * chosen per task in Settings.
+ */
+export interface AIProvider {
+  id: AIProviderId;
+  name: string;
+  identifyBookFromCover(base64Image: string, model: string): Promise<BookIdentification | null>;
+  analyzeHighlightImage(base64Image: string, model: string): Promise<ExtractionResult>;
+  synthesizeBook(book: Book, highlights: Highlight[], model: string): Promise<string>;
+  transcribeAudio(base64Audio: string, mimeType: string, model: string): Promise<string>;
+  /** Structured output for the organising features (tags, themes, flashcards, chat). */
+  generateJson(prompt: string, schema: Schema, model: string): Promise<any>;
+  /** One vector per text, in order, for related passages and chat retrieval. */
+  embed(texts: string[], model: string): Promise<number[][]>;
+}
+
+/** The one call the AI organising features need, so they can run against a fake offline. */
+export interface JsonModelClient {
+  generateJson(prompt: string, schema: Schema): Promise<any>;
+}
+
+/** Turns passages into vectors. `id` changes whenever vectors from it stop being comparable. */
+export interface Embedder {
+  id: string;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+export class AIProviderError extends Error {
+  constructor(public status: number, provider: string, detail = '') {
+    super(`${provider} request failed with ${status}${detail ? `: ${detail}` : ''}`);
+    this.name = 'AIProviderError';
+  }
+}
+
+// Prompts are shared so every provider is asked the same thing.
+
+export const identifyBookPrompt = (canSearch: boolean) => `Identify this book from the image.
+            1. Read the text on the cover.
+            2. ${canSearch ? 'Use Google Search to find' : 'Work out'} the exact Title, Author, and best ISBN-13.
+            3. Return a JSON object with:
+               - "title": The exact title.
+               - "author": The exact author name.
+               - "isbn": The 13-digit ISBN (digits only), if found.
+
+            Output ONLY the raw JSON object.`;
+
+export const EXTRACT_HIGHLIGHT_PROMPT = `Analyze this image of a book page.
+            1. Find every separately marked passage (e.g. yellow marker, underlined, bracketed in the margin). Transcribe each one as its own entry, top to bottom. If nothing is strictly highlighted, return the main central paragraph as the only entry.
+            2. For each passage give its bounding box as [ymin, xmin, ymax, xmax], scaled 0-1000.
+            3. Look for a visible page number in the corners or margins.
+            Return JSON.`;
+
+export const EXTRACTION_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    passages: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          text: { type: Type.STRING, description: "The transcribed marked text" },
+          box_2d: { type: Type.ARRAY, items: { type: Type.INTEGER }, description: "[ymin, xmin, ymax, xmax], scaled 0-1000" },
+        },
+        required: ["text"]
+      }
+    },
+    pageNumber: { type: Type.INTEGER, description: "The visible page number, or null if not found" }
+  },
+  required: ["passages"]
+};
+
+export const TRANSCRIBE_PROMPT = `The user is dictating a personal thought or note about a book.
+            1. Transcribe the audio to text accurately.
+            2. Lightly edit to remove filler words (um, uh) and fix stutters.
+            3. Return ONLY the text.`;
+
+export const synthesisPrompt = (book: Book, highlights: Highlight[]) => {
+  const highlightsText = highlights.map(h => {
+    const thoughtsText = h.thoughts.map(t => `My Thought: ${t.text}`).join('\n');
+    return `Highlight (Page ${h.pageNumber || 'N/A'}): "${h.text}"\n${thoughtsText}`;
+  }).join('\n---\n');
+
+  return `You are an expert editor and intellectual partner.
+    I have read the book "${book.title}" by ${book.author} and captured the following highlights and personal thoughts.
+
+    Please write a cohesive, insightful essay (approx 400-600 words) that synthesizes my key takeaways from this book.
+    - Don't just list the highlights. Connect the dots between them.
+    - Use my personal thoughts to frame the narrative where possible.
+    - Structure the essay with a creative title and elegant markdown-style headers (##).
+    - Use clear, sophisticated prose.
+
+    Here is the data:
+    ${highlightsText}`;
+};
+
+/** Pulls the JSON object out of a reply that may wrap it in markdown or conversation. */
+export const extractJson = (text: string) => {
+  const firstBrace = text.indexOf('{');
+  const lastBrace = text.lastIndexOf('}');
+  if (firstBrace !== -1 && lastBrace !== -1) {
+    return text.substring(firstBrace, lastBrace + 1);
+  }
+  return text.replace(/```json\n?|```/g, '').trim();
+};
+
+// Boxes come back in the [ymin, xmin, ymax, xmax] per-mille form vision models are trained on.
+const toBoundingBox = (box: unknown): BoundingBox | undefined => {
+  if (!Array.isArray(box) || box.length !== 4 || !box.every(n => typeof n === 'number')) return undefined;
+  const [ymin, xmin, ymax, xmax] = box.map(n => Math.min(1000, Math.max(0, n)) / 1000);
+  return ymax > ymin && xmax > xmin ? { x: xmin, y: ymin, width: xmax - xmin, height: ymax - ymin } : undefined;
+};
+
+export const toExtractionResult = (result: any): ExtractionResult => {
+  // Older single-passage replies ({ text }) are still accepted.
+  const raw: any[] = Array.isArray(result?.passages) ? result.passages : result?.text ? [result] : [];
+  return {
+    passages: raw
+      .filter(p => typeof p?.text === 'string' && p.text.trim())
+      .map(p => ({ text: p.text.trim(), box: toBoundingBox(p.box_2d) })),
+    pageNumber: result?.pageNumber || null,
+  };
+};
+
+/** Gemini's schema dialect (upper-case types) as standard JSON Schema, for other providers. */
+export const toJsonSchema = (schema: Schema): Record<string, unknown> => {
+  const json: Record<string, unknown> = {};
+  if (schema.type) json.type = schema.type.toLowerCase();
+  if (schema.description) json.description = schema.description;
+  if (schema.enum) json.enum = schema.enum;
+  if (schema.required) json.required = schema.required;
+  if (schema.items) json.items = toJsonSchema(schema.items);
+  if (schema.properties) {
+    json.properties = Object.fromEntries(Object.entries(schema.properties).map(([key, value]) => [key, toJsonSchema(value)]));
+  }
+  return json;
+};
+
+/** The simplest value that satisfies `schema`: empty arrays and strings, zeros, first enum values. */
+export const sampleFromSchema = (schema: Schema): any => {
+  switch (schema.type) {
+    case Type.OBJECT:
+      return Object.fromEntries(Object.entries(schema.properties || {}).map(([key, value]) => [key, sampleFromSchema(value)]));
+    case Type.ARRAY: return [];
+    case Type.STRING: return schema.enum?.[0] ?? '';
+    case Type.INTEGER:
+    case Type.NUMBER: return 0;
+    case Type.BOOLEAN: return false;
+    default: return null;
+  }
+};
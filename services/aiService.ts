@@ -0,0 +1,303 @@
+import { Type } from "@google/genai";
+import { Book, ChatMessage, ExtractionResult, FlashcardDraft, Highlight } from "../types";
+import { AIProvider, AIProviderId, BookIdentification, Embedder, JsonModelClient } from "./aiProvider";
+import { createGeminiProvider, GEMINI_DEFAULT_MODEL, GEMINI_EMBEDDING_MODEL } from "./geminiService";
+import { createOpenAICompatibleProvider, DEFAULT_OPENAI_BASE_URL } from "./openAICompatibleService";
+import { createFakeAIProvider, FAKE_MODEL } from "./fakeAIProvider";
+import { recognizeHighlight } from "./ocrService";
+
+const STORAGE_KEY_SETTINGS = 'lumina_ai_settings';
+
+export type AITask = 'identify-book' | 'extract-highlight' | 'synthesize' | 'transcribe' | 'organize' | 'embed';
+
+/** When page scans are read on the device instead of by the model. */
+export type OcrMode = 'fallback' | 'always' | 'never';
+
+export interface AITaskRoute {
+  provider: AIProviderId;
+  model: string;
+}
+
+export interface AISettings {
+  /** Falls back to the key the app was built with. */
+  geminiApiKey: string;
+  openAIBaseUrl: string;
+  openAIApiKey: string;
+  tasks: Record<AITask, AITaskRoute>;
+  ocrMode: OcrMode;
+}
+
+export const AI_TASKS: { id: AITask; label: string; description: string }[] = [
+  { id: 'identify-book', label: 'Book Covers', description: 'Identify a book from a photo of its cover. Needs a vision model.' },
+  { id: 'extract-highlight', label: 'Page Scans', description: 'Read highlighted text and page numbers from a photo. Needs a vision model.' },
+  { id: 'synthesize', label: 'Essays', description: 'Write a synthesis of a book from your highlights.' },
+  { id: 'transcribe', label: 'Voice Notes', description: 'Turn dictated thoughts into text.' },
+  { id: 'organize', label: 'Organizing & Chat', description: 'Tag suggestions, themes, flashcards and chat with your notes.' },
+  { id: 'embed', label: 'Related Passages', description: 'Find related highlights and the passages chat answers from. Needs an embedding model.' },
+];
+
+export const AI_PROVIDERS: { id: AIProviderId; name: string }[] = [
+  { id: 'gemini', name: 'Google Gemini' },
+  { id: 'openai-compatible', name: 'OpenAI-compatible (Ollama, llama.cpp…)' },
+  { id: 'fake', name: 'Offline demo' },
+];
+
+/** When page scans are read by on-device OCR instead of the extraction model. */
+export const OCR_MODES: { id: OcrMode; label: string }[] = [
+  { id: 'fallback', label: 'When the AI is unavailable' },
+  { id: 'always', label: 'Always' },
+  { id: 'never', label: 'Never' },
+];
+
+/** Suggested model per provider and task, used when a task is switched to that provider. */
+export const DEFAULT_MODELS: Record<AIProviderId, Record<AITask, string>> = {
+  'gemini': {
+    'identify-book': GEMINI_DEFAULT_MODEL,
+    'extract-highlight': GEMINI_DEFAULT_MODEL,
+    'synthesize': GEMINI_DEFAULT_MODEL,
+    'transcribe': GEMINI_DEFAULT_MODEL,
+    'organize': GEMINI_DEFAULT_MODEL,
+    'embed': GEMINI_EMBEDDING_MODEL,
+  },
+  'openai-compatible': {
+    'identify-book': 'qwen2.5vl',
+    'extract-highlight': 'qwen2.5vl',
+    'synthesize': 'llama3.1',
+    'transcribe': 'whisper-1',
+    'organize': 'llama3.1',
+    'embed': 'nomic-embed-text',
+  },
+  'fake': {
+    'identify-book': FAKE_MODEL,
+    'extract-highlight': FAKE_MODEL,
+    'synthesize': FAKE_MODEL,
+    'transcribe': FAKE_MODEL,
+    'organize': FAKE_MODEL,
+    'embed': FAKE_MODEL,
+  },
+};
+
+export const DEFAULT_AI_SETTINGS: AISettings = {
+  geminiApiKey: '',
+  openAIBaseUrl: DEFAULT_OPENAI_BASE_URL,
+  openAIApiKey: '',
+  tasks: Object.fromEntries(AI_TASKS.map(({ id }) => [id, { provider: 'gemini', model: DEFAULT_MODELS.gemini[id] }])) as Record<AITask, AITaskRoute>,
+  ocrMode: 'fallback',
+};
+
+export const getAISettings = (): AISettings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY_SETTINGS) || '{}');
+    const tasks = { ...DEFAULT_AI_SETTINGS.tasks };
+    AI_TASKS.forEach(({ id }) => {
+      const route = stored.tasks?.[id];
+      if (route && AI_PROVIDERS.some(p => p.id === route.provider) && typeof route.model === 'string') tasks[id] = route;
+    });
+    const ocrMode = OCR_MODES.some(m => m.id === stored.ocrMode) ? stored.ocrMode : DEFAULT_AI_SETTINGS.ocrMode;
+    return { ...DEFAULT_AI_SETTINGS, ...stored, tasks, ocrMode };
+  } catch (e) {
+    return DEFAULT_AI_SETTINGS;
+  }
+};
+
+export const setAISettings = (settings: AISettings) => {
+  localStorage.setItem(STORAGE_KEY_SETTINGS, JSON.stringify(settings));
+};
+
+const geminiKey = (settings: AISettings) => settings.geminiApiKey.trim() || process.env.API_KEY;
+
+export const createAIProvider = (id: AIProviderId, settings: AISettings = getAISettings()): AIProvider => {
+  switch (id) {
+    case 'openai-compatible':
+      return createOpenAICompatibleProvider({ baseUrl: settings.openAIBaseUrl, apiKey: settings.openAIApiKey.trim() || undefined });
+    case 'fake':
+      return createFakeAIProvider();
+    default:
+      return createGeminiProvider({ apiKey: geminiKey(settings) });
+  }
+};
+
+// Settings are read on every call, so changes apply without a reload.
+const routeFor = (task: AITask) => {
+  const settings = getAISettings();
+  const { provider, model } = settings.tasks[task];
+  return { provider: createAIProvider(provider, settings), model: model.trim() || DEFAULT_MODELS[provider][task] };
+};
+
+export const identifyBookFromCover = async (base64Image: string): Promise<BookIdentification | null> => {
+  try {
+    const { provider, model } = routeFor('identify-book');
+    return await provider.identifyBookFromCover(base64Image, model);
+  } catch (error) {
+    console.error("Error identifying book:", error);
+    return null;
+  }
+};
+
+export class HighlightExtractionError extends Error {
+  constructor(message: string, public cause?: unknown) {
+    super(message);
+    this.name = 'HighlightExtractionError';
+  }
+}
+
+/**
+ * Reads the highlighted passage from a page photo with the model, or with on-device OCR
+ * as Settings choose. `source` tells the caller which one answered; failures throw.
+ */
+export const analyzeHighlightImage = async (
+  base64Image: string,
+  { ocrMode = getAISettings().ocrMode }: { ocrMode?: OcrMode } = {}
+): Promise<ExtractionResult & { source: 'ai' | 'ocr' }> => {
+  if (ocrMode === 'always') return { ...(await recognizeHighlight(base64Image)), source: 'ocr' };
+  try {
+    const { provider, model } = routeFor('extract-highlight');
+    return { ...(await provider.analyzeHighlightImage(base64Image, model)), source: 'ai' };
+  } catch (error) {
+    console.error("Error analyzing image:", error);
+    if (ocrMode === 'never') {
+      throw new HighlightExtractionError(`The AI couldn't read this page: ${error instanceof Error ? error.message : error}`, error);
+    }
+  }
+  return { ...(await recognizeHighlight(base64Image)), source: 'ocr' };
+};
+
+export const synthesizeBook = async (book: Book, highlights: Highlight[]): Promise<string> => {
+  try {
+    const { provider, model } = routeFor('synthesize');
+    return await provider.synthesizeBook(book, highlights, model);
+  } catch (error) {
+    console.error("Error synthesizing book:", error);
+    throw error;
+  }
+};
+
+export const transcribeAudio = async (base64Audio: string, mimeType: string): Promise<string> => {
+  try {
+    const { provider, model } = routeFor('transcribe');
+    return await provider.transcribeAudio(base64Audio, mimeType, model);
+  } catch (error) {
+    console.error("Error transcribing audio:", error);
+    throw error;
+  }
+};
+
+/** Structured output for the organising features, through whichever provider Settings picks. */
+export const aiJsonClient: JsonModelClient = {
+  generateJson(prompt, schema) {
+    const { provider, model } = routeFor('organize');
+    return provider.generateJson(prompt, schema, model);
+  },
+};
+
+const currentEmbedder = (): Embedder => {
+  const { provider, model } = routeFor('embed');
+  return { id: `${provider.id}:${model}`, embed: texts => provider.embed(texts, model) };
+};
+
+/**
+ * Embeddings through whichever provider and model Settings picks. `id` names both, so
+ * switching either re-embeds rather than mixing vectors from different models.
+ */
+export const aiEmbedder: Embedder = {
+  get id() {
+    return currentEmbedder().id;
+  },
+  embed: texts => currentEmbedder().embed(texts),
+};
+
+/**
+ * Proposes study cards for a highlight: cloze deletions in Anki's `{{c1::…}}` syntax
+ * for self-contained claims, question/answer pairs for ideas that need rephrasing.
+ */
+export const generateFlashcards = async (
+  highlight: Highlight,
+  book: Book,
+  client: JsonModelClient = aiJsonClient
+): Promise<FlashcardDraft[]> => {
+  const thoughtsText = highlight.thoughts.map(t => `My Thought: ${t.text}`).join('\n');
+  const prompt = `You write spaced-repetition flashcards that help a reader retain what they read.
+  The passage below is from "${book.title}" by ${book.author}.
+  Write 1 to 3 cards testing its key idea, not trivia.
+  - Use "cloze" when a sentence from the passage works as a card on its own: repeat it and wrap the 1-3 words to recall in {{c1::...}}. Leave "back" empty.
+  - Use "qa" when the idea needs rephrasing: a short question in "front" and a concise answer in "back".
+
+  Passage (Page ${highlight.pageNumber || 'N/A'}): "${highlight.text}"
+  ${thoughtsText}`;
+
+  const result = await client.generateJson(prompt, {
+    type: Type.ARRAY,
+    items: {
+      type: Type.OBJECT,
+      properties: {
+        kind: { type: Type.STRING, enum: ["cloze", "qa"] },
+        front: { type: Type.STRING },
+        back: { type: Type.STRING },
+      },
+      required: ["kind", "front", "back"],
+    },
+  });
+
+  return (Array.isArray(result) ? result : [])
+    .map((card: any): FlashcardDraft => ({
+      kind: card?.kind === 'cloze' ? 'cloze' : 'qa',
+      front: String(card?.front || '').trim(),
+      back: String(card?.back || '').trim(),
+    }))
+    .filter(card => card.kind === 'cloze' ? /\{\{c\d+::.+?\}\}/.test(card.front) : !!card.front && !!card.back);
+};
+
+/** A highlight offered to the chat as evidence, numbered as it appears in the prompt. */
+export interface ChatPassage {
+  marker: number;
+  highlight: Highlight;
+  book: Book;
+}
+
+/**
+ * Answers a question about the reader's notes using only the given passages.
+ * Returns the answer with inline [n] markers and the markers it actually relied on.
+ */
+export const answerFromHighlights = async (
+  question: string,
+  passages: ChatPassage[],
+  history: ChatMessage[] = [],
+  client: JsonModelClient = aiJsonClient
+): Promise<{ answer: string; markers: number[] }> => {
+  const passagesText = passages.map(({ marker, highlight, book }) => {
+    const thoughtsText = highlight.thoughts.map(t => `  My Thought: ${t.text}`).join('\n');
+    return `[${marker}] ${book.title} by ${book.author}, page ${highlight.pageNumber || 'N/A'}: "${highlight.text}"${thoughtsText ? `\n${thoughtsText}` : ''}`;
+  }).join('\n');
+  // Earlier answers numbered a different set of passages, so their markers are dropped.
+  const historyText = history.map(m => `${m.role === 'user' ? 'Reader' : 'You'}: ${m.text.replace(/\[\d+\]/g, '')}`).join('\n');
+
+  const prompt = `You are helping a reader interrogate the highlights and thoughts they captured while reading.
+  Answer ONLY from the numbered passages below; do not use outside knowledge of the book or author.
+  Cite every claim with the passage number in square brackets, like [2] or [1][4].
+  If the passages don't answer the question, say so plainly instead of guessing.
+  Keep the answer concise (under 200 words).
+
+  Passages:
+  ${passagesText}
+  ${historyText ? `\nConversation so far:\n  ${historyText}\n` : ''}
+  Question: ${question}`;
+
+  const result = await client.generateJson(prompt, {
+    type: Type.OBJECT,
+    properties: {
+      answer: { type: Type.STRING },
+      citations: { type: Type.ARRAY, items: { type: Type.INTEGER }, description: "The passage numbers the answer relied on" },
+    },
+    required: ["answer", "citations"],
+  });
+
+  const valid = new Set(passages.map(p => p.marker));
+  const answer = String(result?.answer || '').trim();
+  // Trust the markers in the text as well as the list; models sometimes only fill one.
+  const inline = Array.from(answer.matchAll(/\[(\d+)\]/g), m => Number(m[1]));
+  const markers = Array.from(new Set<number>([...(Array.isArray(result?.citations) ? result.citations : []), ...inline]))
+    .filter(n => valid.has(n))
+    .sort((a, b) => a - b);
+  return { answer, markers };
+};
+
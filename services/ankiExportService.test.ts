@@ -0,0 +1,87 @@
+import initSqlJs from 'sql.js';
+import { describe, expect, it, vi } from 'vitest';
+import { Book, Flashcard, Highlight } from '../types';
+import { buildAnkiCollection, buildFlashcardCsv, buildZip, cardSource } from './ankiExportService';
+
+// The app serves the wasm binary as a bundled asset URL; under Node sql.js finds it on disk.
+vi.mock('./sqlJsLoader', () => ({ loadSqlJs: () => initSqlJs() }));
+
+const book: Book = { id: 'b1', title: 'Middlemarch', author: 'George Eliot', coverUrl: '', totalHighlights: 1 };
+const highlight: Highlight = {
+  id: 'h1', bookId: 'b1', text: 'The growing good of the world.', pageNumber: 838,
+  thoughts: [], tags: ['ethics'], createdAt: '2021-05-03T00:00:00.000Z', source: 'digital',
+};
+
+const card = (id: string, fields: Partial<Flashcard>): Flashcard =>
+  ({ id, highlightId: 'h1', bookId: 'b1', kind: 'qa', front: '', back: '', createdAt: '2021-06-01T00:00:00.000Z', history: [], ...fields });
+
+const cards = [
+  card('c1', { kind: 'cloze', front: 'The {{c1::growing good}} of the {{c2::world}}.' }),
+  card('c2', { front: 'What grows?', back: 'The good <of> the world' }),
+  card('c3', { bookId: 'deleted', front: 'Orphan', back: 'Card' }),
+];
+
+describe('buildFlashcardCsv', () => {
+  it('writes Anki file headers and one row per card with a known book', () => {
+    const lines = buildFlashcardCsv(cards, [book], [highlight]).split('\r\n');
+    expect(lines.slice(0, 4)).toEqual(['#separator:Comma', '#html:false', '#columns:Front,Back,Type,Book,Author,Page,Tags', '#tags column:7']);
+    expect(lines.slice(4)).toEqual([
+      'The {{c1::growing good}} of the {{c2::world}}.,,cloze,Middlemarch,George Eliot,838,lumina middlemarch ethics',
+      'What grows?,The good <of> the world,qa,Middlemarch,George Eliot,838,lumina middlemarch ethics',
+    ]);
+  });
+});
+
+describe('buildAnkiCollection', () => {
+  it('stores one note per card and one card per cloze number, in a sub-deck per book', async () => {
+    const SQL = await initSqlJs();
+    const db = new SQL.Database(await buildAnkiCollection(SQL, cards, [book], [highlight]));
+    try {
+      const notes = db.exec('SELECT guid, flds, tags FROM notes ORDER BY id')[0].values;
+      expect(notes).toEqual([
+        ['c1', ['The {{c1::growing good}} of the {{c2::world}}.', '', cardSource(book, highlight)].join('\x1f'), ' lumina middlemarch ethics '],
+        ['c2', ['What grows?', 'The good &lt;of&gt; the world', 'Middlemarch — George Eliot, p. 838'].join('\x1f'), ' lumina middlemarch ethics '],
+      ]);
+      expect(db.exec('SELECT ord FROM cards ORDER BY id')[0].values).toEqual([[0], [1], [0]]);
+      const decks = JSON.parse(db.exec('SELECT decks FROM col')[0].values[0][0] as string);
+      expect(Object.values(decks).map((d: any) => d.name)).toContain('Lumina::Middlemarch');
+    } finally {
+      db.close();
+    }
+  });
+});
+
+describe('buildZip', () => {
+  it('stores each file uncompressed with its name, size and CRC-32 in both directories', () => {
+    const files = [
+      { name: 'collection.anki2', data: new Uint8Array([1, 2, 3, 4]) },
+      { name: 'media', data: new TextEncoder().encode('{}') },
+    ];
+    const zip = buildZip(files);
+    const view = new DataView(zip.buffer);
+    const decoder = new TextDecoder();
+
+    const end = zip.length - 22;
+    expect(view.getUint32(end, true)).toBe(0x06054b50);
+    expect(view.getUint16(end + 10, true)).toBe(2);
+
+    let entry = view.getUint32(end + 16, true);
+    const read = files.map(() => {
+      expect(view.getUint32(entry, true)).toBe(0x02014b50);
+      const nameLength = view.getUint16(entry + 28, true);
+      const local = view.getUint32(entry + 42, true);
+      const size = view.getUint32(entry + 24, true);
+      const crc = view.getUint32(entry + 16, true);
+      expect(view.getUint32(local, true)).toBe(0x04034b50);
+      expect(view.getUint32(local + 14, true)).toBe(crc);
+      const dataStart = local + 30 + view.getUint16(local + 26, true);
+      const result = { name: decoder.decode(zip.slice(entry + 46, entry + 46 + nameLength)), data: zip.slice(dataStart, dataStart + size), crc };
+      entry += 46 + nameLength;
+      return result;
+    });
+
+    expect(read.map(({ name, data }) => ({ name, data }))).toEqual(files);
+    // CRC-32 of "{}", as zip and gzip compute it.
+    expect(read[1].crc).toBe(0xa3a6bf43);
+  });
+});
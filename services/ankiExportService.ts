@@ -0,0 +1,271 @@
+import type { SqlJsStatic } from "sql.js";
+import { Book, Flashcard, Highlight } from "../types";
+import { BookRepository, FlashcardRepository, HighlightRepository } from "./libraryRepository";
+import { downloadFile, fileDateStamp } from "./downloadService";
+import { toCsv } from "./csvExportService";
+import { clozeNumbers } from "./flashcardService";
+import { tagsOf } from "./tagService";
+import { loadSqlJs } from "./sqlJsLoader";
+
+interface CardContext {
+  card: Flashcard;
+  book: Book;
+  highlight?: Highlight;
+}
+
+const CSV_COLUMNS = ['Front', 'Back', 'Type', 'Book', 'Author', 'Page', 'Tags'];
+
+// Fixed note type ids, so importing a later export reuses the same Anki note types.
+const CLOZE_MODEL_ID = 1718000000001;
+const BASIC_MODEL_ID = 1718000000002;
+const ROOT_DECK = 'Lumina';
+
+const CARD_CSS = `.card { font-family: Georgia, serif; font-size: 20px; text-align: left; color: #1a1a1a; background: #fdfbf7; }
+.cloze { font-weight: bold; color: #b45309; }
+.source { margin-top: 24px; font-size: 13px; color: #888; font-style: italic; }`;
+
+/** "Title — Author, p. 12": where a card came from, shown on the answer side. */
+export const cardSource = (book: Book, highlight?: Highlight) =>
+  `${book.title} — ${book.author}${highlight?.pageNumber ? `, p. ${highlight.pageNumber}` : ''}`;
+
+const contexts = (cards: Flashcard[], books: Book[], highlights: Highlight[]): CardContext[] => {
+  const bookMap = new Map<string, Book>(books.map(b => [b.id, b]));
+  const highlightMap = new Map<string, Highlight>(highlights.map(h => [h.id, h]));
+  return cards
+    .filter(card => bookMap.has(card.bookId))
+    .map(card => ({ card, book: bookMap.get(card.bookId)!, highlight: highlightMap.get(card.highlightId) }));
+};
+
+// Anki tags are space-separated, so each one has to be a single word.
+const ankiTags = ({ book, highlight }: CardContext) => {
+  const bookTag = book.title.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '-').replace(/^-+|-+$/g, '');
+  return ['lumina', bookTag, ...(highlight ? tagsOf(highlight) : [])].filter(Boolean).map(t => t.replace(/\s+/g, '-'));
+};
+
+/**
+ * Cards as CSV with Anki's file headers, so Anki maps the columns and tags without
+ * asking. Cloze cards keep their `{{c1::…}}` markup in the Front column.
+ */
+export const buildFlashcardCsv = (cards: Flashcard[], books: Book[], highlights: Highlight[]): string => {
+  const rows = contexts(cards, books, highlights).map(ctx => [
+    ctx.card.front,
+    ctx.card.back,
+    ctx.card.kind,
+    ctx.book.title,
+    ctx.book.author,
+    ctx.highlight?.pageNumber,
+    ankiTags(ctx).join(' '),
+  ]);
+  const headers = ['#separator:Comma', '#html:false', `#columns:${CSV_COLUMNS.join(',')}`, `#tags column:${CSV_COLUMNS.length}`];
+  return `${headers.join('\r\n')}\r\n${toCsv(rows)}`;
+};
+
+export const exportFlashcardsCsv = async () => {
+  const [cards, books, highlights] = await Promise.all([FlashcardRepository.getAll(), BookRepository.getAll(), HighlightRepository.getAll()]);
+  downloadFile('\uFEFF' + buildFlashcardCsv(cards, books, highlights), `lumina-flashcards-${fileDateStamp()}.csv`, 'text/csv');
+  return cards.length;
+};
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/\n/g, '<br>');
+
+// Anki's duplicate check: the first 8 hex digits of the SHA-1 of the sort field, as an integer.
+const fieldChecksum = async (text: string) => {
+  const digest = await crypto.subtle.digest('SHA-1', new TextEncoder().encode(text.replace(/<[^>]+>/g, '')));
+  return parseInt(Array.from(new Uint8Array(digest).slice(0, 4), b => b.toString(16).padStart(2, '0')).join(''), 16);
+};
+
+// A stable positive id per book, so re-imports land in the same sub-deck.
+const deckId = (key: string) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < key.length; i++) {
+    hash ^= key.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return 1_000_000_000 + (hash >>> 1);
+};
+
+const field = (name: string, ord: number) => ({ name, ord, sticky: false, rtl: false, font: 'Georgia', size: 20, media: [] });
+
+const noteTypes = (now: number) => ({
+  [CLOZE_MODEL_ID]: {
+    id: CLOZE_MODEL_ID, name: 'Lumina Cloze', type: 1, mod: now, usn: -1, sortf: 0, did: 1,
+    flds: [field('Text', 0), field('Back Extra', 1), field('Source', 2)],
+    tmpls: [{
+      name: 'Cloze', ord: 0, did: null, bqfmt: '', bafmt: '',
+      qfmt: '{{cloze:Text}}',
+      afmt: '{{cloze:Text}}<br>{{Back Extra}}<div class="source">{{Source}}</div>',
+    }],
+    css: CARD_CSS, latexPre: '', latexPost: '', tags: [], vers: [],
+  },
+  [BASIC_MODEL_ID]: {
+    id: BASIC_MODEL_ID, name: 'Lumina Q&A', type: 0, mod: now, usn: -1, sortf: 0, did: 1,
+    flds: [field('Front', 0), field('Back', 1), field('Source', 2)],
+    tmpls: [{
+      name: 'Card 1', ord: 0, did: null, bqfmt: '', bafmt: '',
+      qfmt: '{{Front}}',
+      afmt: '{{FrontSide}}<hr id="answer">{{Back}}<div class="source">{{Source}}</div>',
+    }],
+    req: [[0, 'any', [0]]],
+    css: CARD_CSS, latexPre: '', latexPost: '', tags: [], vers: [],
+  },
+});
+
+const deck = (id: number, name: string, now: number) => ({
+  id, name, desc: '', mod: now, usn: -1, dyn: 0, conf: 1, collapsed: false, browserCollapsed: false,
+  newToday: [0, 0], revToday: [0, 0], lrnToday: [0, 0], timeToday: [0, 0], extendNew: 10, extendRev: 50,
+});
+
+const DECK_OPTIONS = {
+  1: {
+    id: 1, name: 'Default', mod: 0, usn: 0, maxTaken: 60, autoplay: true, timer: 0, replayq: true, dyn: false,
+    new: { bury: true, delays: [1, 10], initialFactor: 2500, ints: [1, 4, 7], order: 1, perDay: 20, separate: true },
+    lapse: { delays: [10], leechAction: 0, leechFails: 8, minInt: 1, mult: 0 },
+    rev: { bury: true, ease4: 1.3, fuzz: 0.05, ivlFct: 1, maxIvl: 36500, minSpace: 1, perDay: 100 },
+  },
+};
+
+const COLLECTION_SCHEMA = `
+  CREATE TABLE col (id integer primary key, crt integer not null, mod integer not null, scm integer not null, ver integer not null, dty integer not null, usn integer not null, ls integer not null, conf text not null, models text not null, decks text not null, dconf text not null, tags text not null);
+  CREATE TABLE notes (id integer primary key, guid text not null, mid integer not null, mod integer not null, usn integer not null, tags text not null, flds text not null, sfld integer not null, csum integer not null, flags integer not null, data text not null);
+  CREATE TABLE cards (id integer primary key, nid integer not null, did integer not null, ord integer not null, mod integer not null, usn integer not null, type integer not null, queue integer not null, due integer not null, ivl integer not null, factor integer not null, reps integer not null, lapses integer not null, left integer not null, odue integer not null, odid integer not null, flags integer not null, data text not null);
+  CREATE TABLE revlog (id integer primary key, cid integer not null, usn integer not null, ease integer not null, ivl integer not null, lastIvl integer not null, factor integer not null, time integer not null, type integer not null);
+  CREATE TABLE graves (usn integer not null, oid integer not null, type integer not null);
+  CREATE INDEX ix_notes_usn on notes (usn);
+  CREATE INDEX ix_cards_usn on cards (usn);
+  CREATE INDEX ix_cards_nid on cards (nid);
+  CREATE INDEX ix_cards_sched on cards (did, queue, due);
+  CREATE INDEX ix_revlog_usn on revlog (usn);
+  CREATE INDEX ix_revlog_cid on revlog (cid);
+`;
+
+/**
+ * Writes an Anki 2.1 collection (`collection.anki2`) holding one note per card, in a
+ * "Lumina::<book title>" sub-deck. Cards arrive in Anki as new: Lumina's own schedule
+ * is not carried over. Note guids come from the card ids, so re-importing updates notes.
+ */
+export const buildAnkiCollection = async (SQL: SqlJsStatic, cards: Flashcard[], books: Book[], highlights: Highlight[]): Promise<Uint8Array> => {
+  const items = contexts(cards, books, highlights);
+  const nowMs = Date.now();
+  const now = Math.floor(nowMs / 1000);
+
+  const decks: Record<number, ReturnType<typeof deck>> = { 1: deck(1, 'Default', now), [deckId(ROOT_DECK)]: deck(deckId(ROOT_DECK), ROOT_DECK, now) };
+  items.forEach(({ book }) => {
+    const id = deckId(book.id);
+    if (!decks[id]) decks[id] = deck(id, `${ROOT_DECK}::${book.title.replace(/::/g, ':')}`, now);
+  });
+
+  const db = new SQL.Database();
+  try {
+    db.run(COLLECTION_SCHEMA);
+    db.run('INSERT INTO col VALUES (1, ?, ?, ?, 11, 0, 0, 0, ?, ?, ?, ?, ?)', [
+      now, nowMs, nowMs,
+      JSON.stringify({ activeDecks: [1], curDeck: 1, newSpread: 0, collapseTime: 1200, timeLim: 0, estTimes: true, dueCounts: true, curModel: null, nextPos: items.length + 1, sortType: 'noteFld', sortBackwards: false, addToCur: true }),
+      JSON.stringify(noteTypes(now)),
+      JSON.stringify(decks),
+      JSON.stringify(DECK_OPTIONS),
+      '{}',
+    ]);
+
+    let cardId = nowMs;
+    for (const [index, ctx] of items.entries()) {
+      const { card, book, highlight } = ctx;
+      const noteId = nowMs + index;
+      const fields = [escapeHtml(card.front), escapeHtml(card.back), escapeHtml(cardSource(book, highlight))];
+      db.run('INSERT INTO notes VALUES (?, ?, ?, ?, -1, ?, ?, ?, ?, 0, \'\')', [
+        noteId,
+        card.id.replace(/-/g, ''),
+        card.kind === 'cloze' ? CLOZE_MODEL_ID : BASIC_MODEL_ID,
+        now,
+        ` ${ankiTags(ctx).join(' ')} `,
+        fields.join('\x1f'),
+        fields[0],
+        await fieldChecksum(fields[0]),
+      ]);
+      // A cloze note gets one card per cloze number; a Q&A note just the one.
+      const ordinals = card.kind === 'cloze' ? clozeNumbers(card.front).map(n => n - 1) : [0];
+      ordinals.forEach(ord => {
+        db.run('INSERT INTO cards VALUES (?, ?, ?, ?, ?, -1, 0, 0, ?, 0, 0, 0, 0, 0, 0, 0, 0, \'\')', [
+          cardId++, noteId, deckId(book.id), ord, now, index + 1,
+        ]);
+      });
+    }
+    return db.export();
+  } finally {
+    db.close();
+  }
+};
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+const crc32 = (bytes: Uint8Array) => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+/** A minimal uncompressed ("stored") zip archive: all an .apkg needs. */
+export const buildZip = (files: { name: string; data: Uint8Array }[]): Uint8Array => {
+  const chunks: Uint8Array[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+
+  files.forEach(file => {
+    const name = new TextEncoder().encode(file.name);
+    const crc = crc32(file.data);
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034b50, true);
+    local.setUint16(4, 20, true);
+    local.setUint32(14, crc, true);
+    local.setUint32(18, file.data.length, true);
+    local.setUint32(22, file.data.length, true);
+    local.setUint16(26, name.length, true);
+    chunks.push(new Uint8Array(local.buffer), name, file.data);
+
+    const entry = new DataView(new ArrayBuffer(46));
+    entry.setUint32(0, 0x02014b50, true);
+    entry.setUint16(4, 20, true);
+    entry.setUint16(6, 20, true);
+    entry.setUint32(16, crc, true);
+    entry.setUint32(20, file.data.length, true);
+    entry.setUint32(24, file.data.length, true);
+    entry.setUint16(28, name.length, true);
+    entry.setUint32(42, offset, true);
+    central.push(new Uint8Array(entry.buffer), name);
+
+    offset += 30 + name.length + file.data.length;
+  });
+
+  const centralSize = central.reduce((sum, c) => sum + c.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(8, files.length, true);
+  end.setUint16(10, files.length, true);
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true);
+
+  const parts = [...chunks, ...central, new Uint8Array(end.buffer)];
+  const zip = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let position = 0;
+  parts.forEach(p => { zip.set(p, position); position += p.length; });
+  return zip;
+};
+
+/**
+ * Downloads every flashcard as an Anki package.
+ */
+export const exportFlashcardsApkg = async () => {
+  const [cards, books, highlights] = await Promise.all([FlashcardRepository.getAll(), BookRepository.getAll(), HighlightRepository.getAll()]);
+  const SQL = await loadSqlJs();
+  const collection = await buildAnkiCollection(SQL, cards, books, highlights);
+  const apkg = buildZip([
+    { name: 'collection.anki2', data: collection },
+    { name: 'media', data: new TextEncoder().encode('{}') },
+  ]);
+  downloadFile(new Blob([apkg], { type: 'application/octet-stream' }), `lumina-flashcards-${fileDateStamp()}.apkg`, 'application/octet-stream');
+  return cards.length;
+};
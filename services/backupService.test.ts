@@ -0,0 +1,124 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { Book, Conversation, Flashcard, Highlight, Shelf } from '../types';
+import { BACKUP_FORMAT, BACKUP_VERSION, LibraryBackup, parseLibraryBackup, restoreLibraryBackup } from './backupService';
+import { CURRENT_SCHEMA_VERSION } from './schemaMigrations';
+
+const local = vi.hoisted(() => ({
+  books: [] as Book[],
+  highlights: [] as Highlight[],
+  shelves: [] as Shelf[],
+  flashcards: [] as Flashcard[],
+  conversations: [] as Conversation[],
+  writeLibrary: vi.fn(async (_write: unknown) => {}),
+}));
+vi.mock('./libraryRepository', () => ({
+  BookRepository: { getAll: async () => local.books },
+  HighlightRepository: { getAll: async () => local.highlights },
+  ShelfRepository: { getAll: async () => local.shelves },
+  FlashcardRepository: { getAll: async () => local.flashcards },
+  ConversationRepository: { getAll: async () => local.conversations },
+  EmbeddingRepository: {},
+  writeLibrary: local.writeLibrary,
+}));
+
+const book = (id: string, title: string): Book => ({ id, title, author: 'George Eliot', coverUrl: '', totalHighlights: 0 });
+
+const highlight = (id: string, bookId: string, text: string, thoughts: Highlight['thoughts'] = []): Highlight =>
+  ({ id, bookId, text, thoughts, tags: [], createdAt: '2021-05-03T00:00:00.000Z', source: 'digital' });
+
+const thought = (id: string, createdAt: string) => ({ id, text: `Thought ${id}`, createdAt });
+
+const chat = (scopeId: string, highlightId: string): Conversation => ({
+  scopeId,
+  updatedAt: '2021-06-01T00:00:00.000Z',
+  messages: [{ id: 'm1', role: 'assistant', text: 'See [1].', citations: [{ marker: 1, highlightId, bookId: 'b1' }], createdAt: '2021-06-01T00:00:00.000Z' }],
+});
+
+const backupOf = (fields: Partial<LibraryBackup>): LibraryBackup => ({
+  format: BACKUP_FORMAT,
+  version: BACKUP_VERSION,
+  schemaVersion: CURRENT_SCHEMA_VERSION,
+  exportedAt: '2021-07-01T00:00:00.000Z',
+  books: [],
+  highlights: [],
+  ...fields,
+});
+
+const written = () => local.writeLibrary.mock.calls[0][0] as any;
+
+beforeEach(() => {
+  local.books = [book('b1', 'Middlemarch')];
+  local.highlights = [highlight('h1', 'b1', 'Unhistoric acts.', [thought('t1', '2021-05-04T00:00:00.000Z')])];
+  local.shelves = [];
+  local.flashcards = [];
+  local.conversations = [];
+  local.writeLibrary.mockClear();
+});
+
+describe('parseLibraryBackup', () => {
+  it('rejects files that are not backups, or come from a newer version', () => {
+    expect(() => parseLibraryBackup('not json')).toThrow('not a valid Lumina backup');
+    expect(() => parseLibraryBackup(JSON.stringify({ format: 'other', books: [], highlights: [] }))).toThrow('not a valid Lumina backup');
+    expect(() => parseLibraryBackup(JSON.stringify(backupOf({ version: BACKUP_VERSION + 1 })))).toThrow('newer version');
+  });
+
+  it('rejects damaged records before anything is restored', () => {
+    const damaged = (h: object) => JSON.stringify({ ...backupOf({ books: [book('b1', 'Middlemarch')] }), highlights: [h] });
+    expect(() => parseLibraryBackup(damaged({ id: 'h1', bookId: 'b1' }))).toThrow('damaged records');
+    expect(() => parseLibraryBackup(damaged({ id: 'h1', bookId: 'b1', text: 'x', thoughts: 'none' }))).toThrow('damaged records');
+    expect(() => parseLibraryBackup(damaged({ id: 'h1', bookId: 'b1', text: 'x', thoughts: [{ text: 'no id' }] }))).toThrow('damaged records');
+  });
+
+  it('gives highlights without thoughts an empty list and upgrades old records', () => {
+    const backup = parseLibraryBackup(JSON.stringify({
+      ...backupOf({ books: [book('b1', 'Middlemarch')] }),
+      schemaVersion: CURRENT_SCHEMA_VERSION,
+      highlights: [{ id: 'h1', bookId: 'b1', text: 'x', tags: [], source: 'digital', createdAt: '2021-05-03T00:00:00.000Z' }],
+    }));
+    expect(backup.highlights[0].thoughts).toEqual([]);
+    expect(parseLibraryBackup(JSON.stringify({ ...backupOf({ books: [book('b1', 'M')] }), schemaVersion: 1 })).books[0].createdAt).toBeDefined();
+  });
+});
+
+describe('restoreLibraryBackup', () => {
+  it('merges: keeps local records, adds missing thoughts and reports disagreements', async () => {
+    const backup = backupOf({
+      books: [book('b1', 'Middlemarch, Revised'), book('b2', 'Silas Marner')],
+      highlights: [
+        highlight('h1', 'b1', 'Unhistoric acts!', [thought('t0', '2021-05-03T12:00:00.000Z'), thought('t1', '2021-05-04T00:00:00.000Z')]),
+        highlight('h2', 'b2', 'Gold.'),
+        highlight('h3', 'gone', 'Orphan.'),
+      ],
+    });
+
+    const report = await restoreLibraryBackup(backup, 'merge');
+
+    expect(report).toMatchObject({ booksRestored: 2, highlightsAdded: 1, updates: [{ title: 'Silas Marner', newCount: 1 }] });
+    expect(report.conflicts.map(c => c.title)).toEqual(['Middlemarch', 'Middlemarch', 'Orphaned highlight']);
+    const { replace, books, highlights } = written();
+    expect(replace).toBe(false);
+    expect(books.map((b: Book) => [b.title, b.totalHighlights])).toEqual([['Middlemarch', 1], ['Silas Marner', 1]]);
+    expect(highlights.find((h: Highlight) => h.id === 'h1')).toMatchObject({ text: 'Unhistoric acts.', thoughts: [{ id: 't0' }, { id: 't1' }] });
+  });
+
+  it('replaces: ignores the local library entirely', async () => {
+    const report = await restoreLibraryBackup(backupOf({ books: [book('b2', 'Silas Marner')], highlights: [highlight('h2', 'b2', 'Gold.')] }), 'replace');
+    expect(report.conflicts).toEqual([]);
+    expect(written()).toMatchObject({ replace: true, books: [{ id: 'b2', totalHighlights: 1 }], highlights: [{ id: 'h2' }] });
+  });
+
+  it('restores chats and flashcards only while what they point at comes back', async () => {
+    const card = (id: string, highlightId: string): Flashcard =>
+      ({ id, highlightId, bookId: 'b1', kind: 'qa', front: 'Q', back: 'A', createdAt: '2021-06-01T00:00:00.000Z', history: [] });
+    local.conversations = [chat('b1', 'h1')];
+    const report = await restoreLibraryBackup(backupOf({
+      books: [book('b1', 'Middlemarch')],
+      conversations: [chat('b1', 'h9'), chat('library', 'h1'), chat('deleted-book', 'h1')],
+      flashcards: [card('c1', 'h1'), card('c2', 'h9')],
+    }), 'merge');
+
+    expect(written().conversations.map((c: Conversation) => c.scopeId)).toEqual(['library']);
+    expect(written().flashcards.map((c: Flashcard) => c.id)).toEqual(['c1']);
+    expect(report.conflicts).toEqual([{ title: 'Library chat', detail: expect.stringContaining('Skipped a chat') }]);
+  });
+});
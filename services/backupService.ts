@@ -0,0 +1,226 @@
+import { Book, Conversation, Flashcard, Highlight, Shelf, Thought } from "../types";
+import { BookRepository, ConversationRepository, FlashcardRepository, HighlightRepository, ShelfRepository, writeLibrary } from "./libraryRepository";
+import { CURRENT_SCHEMA_VERSION, migrateBook, migrateHighlight } from "./schemaMigrations";
+import { downloadFile, fileDateStamp } from "./downloadService";
+import { LIBRARY_SCOPE } from "./bookChatService";
+
+export const BACKUP_FORMAT = 'lumina-backup';
+export const BACKUP_VERSION = 1;
+
+/**
+ * A self-contained snapshot of the library. Thoughts travel inside their highlight,
+ * and captured images and scanned covers are kept inline as data URLs.
+ */
+export interface LibraryBackup {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  schemaVersion: number;
+  exportedAt: string;
+  books: Book[];
+  highlights: Highlight[];
+  /** Absent in backups made before shelves existed. */
+  shelves?: Shelf[];
+  /** Absent in backups made before flashcards existed. */
+  flashcards?: Flashcard[];
+  /** Absent in backups made before chats were backed up. */
+  conversations?: Conversation[];
+}
+
+export type RestoreMode = 'merge' | 'replace';
+
+export interface RestoreConflict {
+  title: string;
+  detail: string;
+}
+
+export interface RestoreReport {
+  booksRestored: number;
+  highlightsAdded: number;
+  updates: { title: string; newCount: number }[];
+  conflicts: RestoreConflict[];
+}
+
+export const createLibraryBackup = async (): Promise<LibraryBackup> => {
+  const [books, highlights, shelves, flashcards, conversations] = await Promise.all([
+    BookRepository.getAll(),
+    HighlightRepository.getAll(),
+    ShelfRepository.getAll(),
+    FlashcardRepository.getAll(),
+    ConversationRepository.getAll(),
+  ]);
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    books,
+    highlights,
+    shelves,
+    flashcards,
+    conversations,
+  };
+};
+
+export const exportLibraryBackup = async () => {
+  const backup = await createLibraryBackup();
+  downloadFile(JSON.stringify(backup, null, 2), `lumina-backup-${fileDateStamp()}.json`, 'application/json');
+  return backup;
+};
+
+export const isLibraryBackup = (text: string): boolean => {
+  const trimmed = text.trim();
+  return trimmed.startsWith('{') && trimmed.includes(`"${BACKUP_FORMAT}"`);
+};
+
+/**
+ * Validates an archive and upgrades its records to the current schema.
+ * Throws with a user-facing message when the file is not a usable backup.
+ */
+export const parseLibraryBackup = (text: string): LibraryBackup => {
+  let raw: any;
+  try {
+    raw = JSON.parse(text);
+  } catch (e) {
+    throw new Error("That file is not a valid Lumina backup.");
+  }
+  if (!raw || raw.format !== BACKUP_FORMAT || !Array.isArray(raw.books) || !Array.isArray(raw.highlights)) {
+    throw new Error("That file is not a valid Lumina backup.");
+  }
+  if (raw.version > BACKUP_VERSION) {
+    throw new Error("This backup was created by a newer version of Lumina.");
+  }
+  // Checked up front, so a restore never starts on a file it can't finish.
+  if (
+    !raw.books.every((b: any) => isRecord(b, 'id', 'title')) ||
+    !raw.highlights.every((h: any) => isRecord(h, 'id', 'bookId', 'text') && hasValidThoughts(h)) ||
+    (Array.isArray(raw.shelves) && !raw.shelves.every((s: any) => isRecord(s, 'id', 'name'))) ||
+    (Array.isArray(raw.flashcards) && !raw.flashcards.every((c: any) => isRecord(c, 'id', 'highlightId', 'bookId'))) ||
+    (Array.isArray(raw.conversations) && !raw.conversations.every((c: any) => isRecord(c, 'scopeId') && Array.isArray(c.messages)))
+  ) {
+    throw new Error("This backup contains damaged records and can't be restored.");
+  }
+
+  const schemaVersion = typeof raw.schemaVersion === 'number' ? raw.schemaVersion : 1;
+  return {
+    format: BACKUP_FORMAT,
+    version: raw.version,
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    exportedAt: raw.exportedAt,
+    books: raw.books.map((b: any) => migrateBook({ schemaVersion, ...b })),
+    highlights: raw.highlights.map((h: any) => migrateHighlight({ schemaVersion, ...h, thoughts: h.thoughts || [] })),
+    shelves: Array.isArray(raw.shelves) ? raw.shelves : [],
+    flashcards: Array.isArray(raw.flashcards) ? raw.flashcards : [],
+    conversations: Array.isArray(raw.conversations) ? raw.conversations : [],
+  };
+};
+
+const isRecord = (value: any, ...fields: string[]) =>
+  !!value && typeof value === 'object' && fields.every(field => typeof value[field] === 'string');
+
+// A highlight may leave out its thoughts (older or hand-made backups); it restores with none.
+const hasValidThoughts = (highlight: any) =>
+  highlight.thoughts === undefined ||
+  (Array.isArray(highlight.thoughts) && highlight.thoughts.every((t: any) => isRecord(t, 'id', 'text')));
+
+const mergeThoughts = (local: Thought[], incoming: Thought[]): Thought[] => {
+  const ids = new Set(local.map(t => t.id));
+  return [...local, ...incoming.filter(t => !ids.has(t.id))]
+    .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+};
+
+/**
+ * Writes a backup into the library, all at once: if any record fails to store, nothing changes.
+ * - `replace` wipes the current library first.
+ * - `merge` keeps local records when ids collide, adds the backup's missing thoughts to them,
+ *   and reports every collision where the two copies disagree.
+ */
+export const restoreLibraryBackup = async (backup: LibraryBackup, mode: RestoreMode): Promise<RestoreReport> => {
+  const conflicts: RestoreConflict[] = [];
+  const addedPerBook = new Map<string, number>();
+
+  const localBooks = mode === 'replace' ? [] : await BookRepository.getAll();
+  const localHighlights = mode === 'replace' ? [] : await HighlightRepository.getAll();
+  const booksById = new Map(localBooks.map(b => [b.id, b]));
+  const highlightsById = new Map(localHighlights.map(h => [h.id, h]));
+
+  backup.books.forEach(book => {
+    const local = booksById.get(book.id);
+    if (!local) {
+      booksById.set(book.id, book);
+      return;
+    }
+    if (local.title !== book.title || local.author !== book.author) {
+      conflicts.push({
+        title: local.title,
+        detail: `Kept local details; backup has "${book.title}" by ${book.author}.`,
+      });
+    }
+  });
+
+  const highlightsToWrite: Highlight[] = [];
+  backup.highlights.forEach(highlight => {
+    if (!booksById.has(highlight.bookId)) {
+      conflicts.push({ title: "Orphaned highlight", detail: `Skipped "${highlight.text.slice(0, 60)}" because its book is missing from the backup.` });
+      return;
+    }
+    const local = highlightsById.get(highlight.id);
+    if (!local) {
+      highlightsById.set(highlight.id, highlight);
+      highlightsToWrite.push(highlight);
+      addedPerBook.set(highlight.bookId, (addedPerBook.get(highlight.bookId) || 0) + 1);
+      return;
+    }
+    if (local.text !== highlight.text || local.pageNumber !== highlight.pageNumber) {
+      conflicts.push({
+        title: booksById.get(highlight.bookId)!.title,
+        detail: `Kept local text for "${local.text.slice(0, 60)}".`,
+      });
+    }
+    const thoughts = mergeThoughts(local.thoughts, highlight.thoughts);
+    if (thoughts.length !== local.thoughts.length) {
+      const merged = { ...local, thoughts };
+      highlightsById.set(merged.id, merged);
+      highlightsToWrite.push(merged);
+    }
+  });
+
+  const counts = new Map<string, number>();
+  highlightsById.forEach(h => counts.set(h.bookId, (counts.get(h.bookId) || 0) + 1));
+  const books = Array.from(booksById.values()).map(b => ({ ...b, totalHighlights: counts.get(b.id) || 0 }));
+
+  // Shelves are matched by id; a local shelf keeps its name.
+  const localShelfIds = new Set((mode === 'replace' ? [] : await ShelfRepository.getAll()).map(s => s.id));
+  // Flashcards are matched by id like shelves, and only kept while their highlight exists.
+  const localCardIds = new Set((mode === 'replace' ? [] : await FlashcardRepository.getAll()).map(c => c.id));
+  // A local chat keeps its history. A backed-up one comes back only if every passage it cites
+  // does, since an answer whose sources are gone can't be checked.
+  const localScopeIds = new Set((mode === 'replace' ? [] : await ConversationRepository.getAll()).map(c => c.scopeId));
+  const conversations = (backup.conversations || []).filter(c => {
+    if (localScopeIds.has(c.scopeId)) return false;
+    const isIntact = (c.scopeId === LIBRARY_SCOPE || booksById.has(c.scopeId))
+      && c.messages.every(m => (m.citations || []).every(citation => highlightsById.has(citation.highlightId)));
+    if (!isIntact) {
+      conflicts.push({ title: booksById.get(c.scopeId)?.title || "Library chat", detail: "Skipped a chat whose cited highlights are missing from the backup." });
+    }
+    return isIntact;
+  });
+
+  await writeLibrary({
+    replace: mode === 'replace',
+    books,
+    highlights: highlightsToWrite,
+    shelves: (backup.shelves || []).filter(s => !localShelfIds.has(s.id)),
+    flashcards: (backup.flashcards || []).filter(c => !localCardIds.has(c.id) && highlightsById.has(c.highlightId)),
+    conversations,
+  });
+
+  return {
+    booksRestored: backup.books.length,
+    highlightsAdded: Array.from(addedPerBook.values()).reduce((a, b) => a + b, 0),
+    updates: Array.from(addedPerBook.entries()).map(([bookId, newCount]) => ({
+      title: booksById.get(bookId)?.title || "Unknown Book",
+      newCount,
+    })),
+    conflicts,
+  };
+};
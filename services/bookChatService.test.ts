@@ -0,0 +1,100 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { Book, Conversation, Highlight } from '../types';
+import { answerFromHighlights } from './aiService';
+import { askAboutHighlights, selectPassages } from './bookChatService';
+import { createEmbeddingIndex } from './embeddingService';
+import { createScriptedJsonClient, fakeEmbedder } from './fakeAIProvider';
+
+const store = vi.hoisted(() => ({ conversations: new Map<string, Conversation>(), highlights: [] as Highlight[] }));
+vi.mock('./libraryRepository', () => ({
+  ConversationRepository: {
+    get: async (scopeId: string) => store.conversations.get(scopeId),
+    put: async (conversation: Conversation) => { store.conversations.set(conversation.scopeId, conversation); },
+    delete: async (scopeId: string) => { store.conversations.delete(scopeId); },
+  },
+  HighlightRepository: { getAll: async () => store.highlights },
+  EmbeddingRepository: {},
+}));
+
+const book: Book = { id: 'b1', title: 'Middlemarch', author: 'George Eliot', coverUrl: '', totalHighlights: 3 };
+
+const highlight = (id: string, text: string, pageNumber?: number): Highlight =>
+  ({ id, bookId: 'b1', text, pageNumber, thoughts: [], tags: [], createdAt: '2021-05-03T00:00:00.000Z', source: 'digital' });
+
+const items = [
+  highlight('h1', 'Miss Brooke had that kind of beauty.', 3),
+  highlight('h2', 'The growing good of the world is partly dependent on unhistoric acts.', 838),
+  highlight('h3', 'Marriage, which has been the bourne of so many narratives.', 830),
+].map(h => ({ highlight: h, book }));
+
+const passages = items.map((item, i) => ({ marker: i + 1, ...item }));
+
+beforeEach(() => {
+  store.conversations.clear();
+  store.highlights = items.map(i => i.highlight);
+});
+
+describe('answerFromHighlights', () => {
+  it('keeps only markers for passages it was shown, from the list or the text', async () => {
+    const client = createScriptedJsonClient([{ answer: 'Small acts [2], and beauty [1][7].', citations: [3, 9, 2] }]);
+    const { markers } = await answerFromHighlights('What matters?', passages, [], client);
+    expect(markers).toEqual([1, 2, 3]);
+    expect(client.prompts[0]).toContain('[2] Middlemarch by George Eliot, page 838');
+  });
+
+  it('survives a reply without citations', async () => {
+    const client = createScriptedJsonClient([{ answer: 'Nothing here.' }]);
+    await expect(answerFromHighlights('Why?', passages, [], client)).resolves.toEqual({ answer: 'Nothing here.', markers: [] });
+  });
+});
+
+describe('askAboutHighlights', () => {
+  it('renumbers citations 1..n, drops unknown markers and saves the exchange', async () => {
+    const client = createScriptedJsonClient([{ answer: 'Unhistoric acts [2] and marriage [3], not [8].', citations: [3, 2] }]);
+    const conversation = await askAboutHighlights('b1', ' What matters? ', items, { client });
+
+    const [question, answer] = conversation.messages;
+    expect(question).toMatchObject({ role: 'user', text: 'What matters?' });
+    expect(answer.text).toBe('Unhistoric acts [1] and marriage [2], not .');
+    expect(answer.citations).toEqual([
+      { marker: 1, highlightId: 'h2', bookId: 'b1', pageNumber: 838 },
+      { marker: 2, highlightId: 'h3', bookId: 'b1', pageNumber: 830 },
+    ]);
+    expect(store.conversations.get('b1')).toEqual(conversation);
+  });
+
+  it('sends earlier turns without their old markers and appends to them', async () => {
+    const client = createScriptedJsonClient([{ answer: 'First [1].', citations: [1] }, { answer: '', citations: [] }]);
+    await askAboutHighlights('b1', 'Who is Miss Brooke?', items, { client });
+    const conversation = await askAboutHighlights('b1', 'And then?', items, { client });
+
+    expect(client.prompts[1]).toContain('You: First .');
+    expect(conversation.messages).toHaveLength(4);
+    expect(conversation.messages[3]).toMatchObject({ text: "I couldn't find anything in your highlights about that.", citations: [] });
+  });
+});
+
+describe('selectPassages', () => {
+  it('hands over small collections whole', async () => {
+    const embeddings = createEmbeddingIndex({ embedder: fakeEmbedder, repository: null });
+    expect(await selectPassages('anything', items, { embeddings, maxPassages: 3 })).toEqual(items);
+  });
+
+  it('narrows larger ones by meaning', async () => {
+    const embeddings = createEmbeddingIndex({ embedder: fakeEmbedder, repository: null });
+    const [first] = await selectPassages('unhistoric acts for the good of the world', items, { embeddings, maxPassages: 1 });
+    expect(first.highlight.id).toBe('h2');
+  });
+
+  it('falls back to keywords, then recent highlights, when embeddings fail', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const embeddings = createEmbeddingIndex({
+      embedder: { id: 'broken', embed: async () => { throw new Error('offline'); } },
+      repository: null,
+    });
+    const selected = await selectPassages('Tell me about marriage', items, { embeddings, maxPassages: 2 });
+    expect(selected.map(s => s.highlight.id)).toEqual(['h3', 'h1']);
+    expect(warn).toHaveBeenCalledOnce();
+    warn.mockRestore();
+  });
+});
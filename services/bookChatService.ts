@@ -0,0 +1,110 @@
+import { Book, ChatCitation, ChatMessage, Conversation, Highlight } from "../types";
+import { JsonModelClient } from "./aiProvider";
+import { aiJsonClient, answerFromHighlights, ChatPassage } from "./aiService";
+import { ConversationRepository, HighlightRepository } from "./libraryRepository";
+import { EmbeddingIndex, libraryEmbeddings } from "./embeddingService";
+import { createSearchIndex, tokenize } from "./searchIndex";
+
+/** Scope id of the library-wide chat; book chats use the book id. */
+export const LIBRARY_SCOPE = 'library';
+
+const MAX_PASSAGES = 40;
+const HISTORY_MESSAGES = 12;
+const MIN_KEYWORD_LENGTH = 4;
+
+export interface ChatOptions {
+  client?: JsonModelClient;
+  embeddings?: EmbeddingIndex;
+  maxPassages?: number;
+}
+
+type ChatItem = { highlight: Highlight, book: Book };
+
+export const loadConversation = async (scopeId: string): Promise<Conversation> =>
+  (await ConversationRepository.get(scopeId)) || { scopeId, messages: [], updatedAt: new Date().toISOString() };
+
+export const clearConversation = (scopeId: string) => ConversationRepository.delete(scopeId);
+
+// Questions are phrased, not typed as queries, so each longer word is searched on its own
+// and the scores summed, rather than requiring every word to appear.
+const keywordRanking = (question: string, items: ChatItem[]) => {
+  const index = createSearchIndex();
+  index.sync(items);
+  const scores = new Map<string, number>();
+  new Set(tokenize(question).map(t => t.term).filter(term => term.length >= MIN_KEYWORD_LENGTH)).forEach(term => {
+    index.search(term, items.length).forEach(r => scores.set(r.highlight.id, (scores.get(r.highlight.id) || 0) + r.score));
+  });
+  return Array.from(scores.entries()).sort((a, b) => b[1] - a[1]).map(([id]) => id);
+};
+
+/**
+ * The passages the model gets to see. Small collections go in whole; larger ones are
+ * narrowed to the closest matches by meaning, topped up with keyword matches, then the
+ * most recent highlights, so the model never answers from an empty context.
+ */
+export const selectPassages = async (
+  question: string,
+  items: ChatItem[],
+  { embeddings = libraryEmbeddings, maxPassages = MAX_PASSAGES }: ChatOptions = {}
+): Promise<ChatItem[]> => {
+  if (items.length <= maxPassages) return items;
+  const byId = new Map<string, ChatItem>(items.map(item => [item.highlight.id, item]));
+  const chosen = new Set<string>();
+
+  try {
+    // The shared index is library-wide, so it is synced with every highlight, not just these.
+    await embeddings.sync(await HighlightRepository.getAll());
+    const similar = await embeddings.search(question, maxPassages * 3);
+    similar.filter(s => byId.has(s.highlight.id)).slice(0, maxPassages).forEach(s => chosen.add(s.highlight.id));
+  } catch (e) {
+    console.warn("Semantic retrieval unavailable; using keywords only", e);
+  }
+
+  const fill = (ids: string[]) => ids.forEach(id => { if (chosen.size < maxPassages) chosen.add(id); });
+  fill(keywordRanking(question, items));
+  fill(items.map(item => item.highlight.id));
+  return Array.from(chosen).map(id => byId.get(id)!);
+};
+
+/**
+ * Asks a question grounded in `items`, appends the exchange to the scope's saved
+ * conversation and returns it. Citations are renumbered 1..n in the order they're listed.
+ */
+export const askAboutHighlights = async (
+  scopeId: string,
+  question: string,
+  items: ChatItem[],
+  options: ChatOptions = {}
+): Promise<Conversation> => {
+  const conversation = await loadConversation(scopeId);
+  const selected = await selectPassages(question, items, options);
+  const passages: ChatPassage[] = selected.map((item, i) => ({ marker: i + 1, ...item }));
+  const { answer, markers } = await answerFromHighlights(
+    question,
+    passages,
+    conversation.messages.slice(-HISTORY_MESSAGES),
+    options.client || aiJsonClient
+  );
+
+  const renumbered = new Map<number, number>(markers.map((marker, i) => [marker, i + 1]));
+  const citations: ChatCitation[] = markers.map((marker, i) => {
+    const { highlight } = passages[marker - 1];
+    return { marker: i + 1, highlightId: highlight.id, bookId: highlight.bookId, pageNumber: highlight.pageNumber };
+  });
+  const now = new Date().toISOString();
+  const messages: ChatMessage[] = [
+    { id: crypto.randomUUID(), role: 'user', text: question.trim(), citations: [], createdAt: now },
+    {
+      id: crypto.randomUUID(),
+      role: 'assistant',
+      text: answer.replace(/\[(\d+)\]/g, (_, n: string) => renumbered.has(Number(n)) ? `[${renumbered.get(Number(n))}]` : '') ||
+        "I couldn't find anything in your highlights about that.",
+      citations,
+      createdAt: now,
+    },
+  ];
+
+  const updated: Conversation = { scopeId, messages: [...conversation.messages, ...messages], updatedAt: now };
+  await ConversationRepository.put(updated);
+  return updated;
+};
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { Book, Highlight } from '../types';
+import { buildReadwiseCsv, escapeCsvField } from './csvExportService';
+import { parseReadwiseCsv } from './ebookImportService';
+
+const books: Book[] = [
+  { id: 'b1', title: 'Middlemarch', author: 'George Eliot', coverUrl: '', totalHighlights: 2 },
+  { id: 'b2', title: 'Essays, "First Series"', author: 'Ralph Waldo Emerson', coverUrl: '', totalHighlights: 1 },
+];
+
+const highlight = (id: string, bookId: string, text: string, fields: Partial<Highlight> = {}): Highlight =>
+  ({ id, bookId, text, thoughts: [], tags: [], createdAt: '2021-05-03T14:22:00.000Z', source: 'digital', ...fields });
+
+const thought = (text: string) => ({ id: text, text, createdAt: '2021-05-04T00:00:00.000Z' });
+
+const highlights = [
+  highlight('h1', 'b1', 'The growing good of the world\nis partly dependent on unhistoric acts.', {
+    pageNumber: 838,
+    tags: ['ethics', 'history'],
+    thoughts: [thought('The whole argument.'), thought('First paragraph.\n\nSecond paragraph, same note.'), thought('A third, "quoted", note.')],
+  }),
+  highlight('h2', 'b1', 'Miss Brooke had that kind of beauty.', { location: '1234-1240' }),
+  highlight('h3', 'b2', 'Trust thyself.', { createdAt: '2022-01-01T08:00:00.000Z' }),
+];
+
+describe('escapeCsvField', () => {
+  it('quotes only fields that need it', () => {
+    expect(escapeCsvField('plain')).toBe('plain');
+    expect(escapeCsvField('a, "b"')).toBe('"a, ""b"""');
+    expect(escapeCsvField(undefined)).toBe('');
+  });
+});
+
+describe('buildReadwiseCsv', () => {
+  it('skips highlights whose book is gone', () => {
+    const csv = buildReadwiseCsv(books, [...highlights, highlight('h4', 'deleted', 'Orphan.')]);
+    expect(csv).not.toContain('Orphan.');
+  });
+
+  it('comes back the same through the Readwise import', () => {
+    const imported = parseReadwiseCsv('\uFEFF' + buildReadwiseCsv(books, highlights));
+    expect(imported).toEqual([
+      {
+        title: 'Middlemarch',
+        author: 'George Eliot',
+        highlights: [
+          {
+            text: highlights[0].text,
+            page: '838',
+            location: undefined,
+            createdAt: '2021-05-03T14:22:00.000Z',
+            notes: highlights[0].thoughts.map(t => t.text),
+            tags: ['ethics', 'history'],
+          },
+          { text: highlights[1].text, page: undefined, location: '1234-1240', createdAt: '2021-05-03T14:22:00.000Z', notes: undefined, tags: undefined },
+        ],
+      },
+      {
+        title: 'Essays, "First Series"',
+        author: 'Ralph Waldo Emerson',
+        highlights: [
+          { text: 'Trust thyself.', page: undefined, location: undefined, createdAt: '2022-01-01T08:00:00.000Z', notes: undefined, tags: undefined },
+        ],
+      },
+    ]);
+  });
+});
@@ -0,0 +1,65 @@
+import { Book, Highlight } from "../types";
+import { BookRepository, HighlightRepository } from "./libraryRepository";
+import { downloadFile, fileDateStamp } from "./downloadService";
+import { READWISE_NOTE_SEPARATOR } from "./ebookImportService";
+import { tagsOf } from "./tagService";
+
+// Same columns, in the same order, as Readwise's own CSV export so files can be
+// re-imported here or uploaded to Readwise unchanged.
+const READWISE_COLUMNS = [
+  'Highlight',
+  'Book Title',
+  'Book Author',
+  'Amazon Book ID',
+  'Note',
+  'Color',
+  'Tags',
+  'Location Type',
+  'Location',
+  'Highlighted at',
+  'Document tags',
+];
+
+export const escapeCsvField = (value: string | number | undefined): string => {
+  const str = value === undefined ? '' : String(value);
+  return /[",\r\n]/.test(str) ? `"${str.replace(/"/g, '""')}"` : str;
+};
+
+export const toCsv = (rows: (string | number | undefined)[][]) =>
+  rows.map(row => row.map(escapeCsvField).join(',')).join('\r\n');
+
+// Readwise timestamps look like "2021-05-03 14:22:00+00:00".
+const formatReadwiseDate = (iso: string) => {
+  const date = new Date(iso);
+  if (isNaN(date.getTime())) return '';
+  return date.toISOString().replace('T', ' ').replace(/\.\d+Z$/, '+00:00');
+};
+
+export const buildReadwiseCsv = (books: Book[], highlights: Highlight[]): string => {
+  const bookMap = new Map(books.map(b => [b.id, b]));
+  const rows = highlights
+    .filter(h => bookMap.has(h.bookId))
+    .map(h => {
+      const book = bookMap.get(h.bookId)!;
+      return [
+        h.text,
+        book.title,
+        book.author,
+        '',
+        h.thoughts.map(t => t.text.trim()).join(READWISE_NOTE_SEPARATOR),
+        '',
+        tagsOf(h).join(','),
+        h.pageNumber ? 'page' : h.location ? 'location' : '',
+        h.pageNumber ?? h.location,
+        formatReadwiseDate(h.createdAt),
+        '',
+      ];
+    });
+  return toCsv([READWISE_COLUMNS, ...rows]);
+};
+
+export const exportReadwiseCsv = async () => {
+  const [books, highlights] = await Promise.all([BookRepository.getAll(), HighlightRepository.getAll()]);
+  // BOM so spreadsheet apps detect UTF-8.
+  downloadFile('\uFEFF' + buildReadwiseCsv(books, highlights), `lumina-readwise-${fileDateStamp()}.csv`, 'text/csv');
+};
@@ -0,0 +1,15 @@
+/**
+ * Saves generated content to the user's device through a temporary object URL.
+ */
+export const downloadFile = (content: BlobPart, filename: string, mimeType: string) => {
+  const blob = content instanceof Blob ? content : new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+/** `YYYY-MM-DD` stamp used in exported file names. */
+export const fileDateStamp = (date: Date = new Date()) => date.toISOString().slice(0, 10);
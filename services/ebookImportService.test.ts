@@ -0,0 +1,136 @@
+// @vitest-environment jsdom
+import { readFileSync } from 'node:fs';
+import path from 'node:path';
+import initSqlJs from 'sql.js';
+import { describe, expect, it, vi } from 'vitest';
+import { parseAppleBooksHtml, parseGooglePlayBooksHtml, parseImportText, parseKindleClippings, parseKindleDate, parseKoboDatabase } from './ebookImportService';
+
+// The app serves the wasm binary as a bundled asset URL; under Node sql.js finds it on disk.
+vi.mock('./sqlJsLoader', () => ({ loadSqlJs: () => initSqlJs() }));
+
+const fixture = (name: string) => readFileSync(path.join(__dirname, '__fixtures__', name), 'utf8');
+
+const buildKoboDatabase = async () => {
+  const SQL = await initSqlJs();
+  const db = new SQL.Database();
+  db.run(`
+    CREATE TABLE content (ContentID TEXT PRIMARY KEY, Title TEXT, Attribution TEXT, ISBN TEXT);
+    CREATE TABLE Bookmark (BookmarkID TEXT PRIMARY KEY, VolumeID TEXT, Text TEXT, Annotation TEXT, DateCreated TEXT);
+    INSERT INTO content VALUES ('vol-1', 'Middlemarch', 'George Eliot', '9780141439549');
+    INSERT INTO Bookmark VALUES ('b1', 'vol-1', 'Miss Brooke had that kind of beauty.', NULL, '2021-05-03T14:22:00.000');
+    INSERT INTO Bookmark VALUES ('b2', 'vol-1', 'Unhistoric acts.', 'The whole argument.', '2021-06-14T09:00:00.000');
+    INSERT INTO Bookmark VALUES ('b3', 'vol-1', '   ', NULL, '2021-06-15T09:00:00.000');
+  `);
+  const bytes = db.export();
+  db.close();
+  return bytes;
+};
+
+// Kindle writes device-local time, so expectations are built the same way.
+const localIso = (...parts: [number, number, number, number, number]) => new Date(...parts).toISOString();
+
+describe('parseKindleClippings', () => {
+  it('attaches notes to their highlight, skips bookmarks and keeps orphan notes', () => {
+    const [book] = parseKindleClippings(fixture('kindle-clippings-en.txt'));
+    expect(book).toMatchObject({ title: 'Middlemarch', author: 'George Eliot' });
+    expect(book.highlights).toEqual([
+      {
+        text: 'Miss Brooke had that kind of beauty which seems to be thrown into relief by poor dress.',
+        page: '3',
+        location: '45-46',
+        createdAt: localIso(2021, 4, 3, 14, 22),
+        notes: ['Dorothea in one line.'],
+      },
+      {
+        text: 'The growing good of the world is partly dependent on unhistoric acts.',
+        page: '838',
+        location: '12345-12347',
+        createdAt: localIso(2021, 5, 14, 9, 5),
+        notes: undefined,
+      },
+      { text: 'Before the story even starts.', page: '1', location: '12', createdAt: localIso(2021, 4, 3, 14, 10), notes: undefined },
+    ]);
+  });
+
+  it('reads German clippings', () => {
+    const [book] = parseKindleClippings(fixture('kindle-clippings-de.txt'));
+    expect(book).toMatchObject({ title: 'Der Zauberberg', author: 'Thomas Mann' });
+    expect(book.highlights).toEqual([{
+      text: 'Man muß dem Leben ein wenig nachhelfen.',
+      page: '12',
+      location: '180-182',
+      createdAt: localIso(2021, 4, 3, 14, 22),
+      notes: ['Gilt auch für Hans Castorp.'],
+    }]);
+  });
+
+  it('is picked for My Clippings.txt by parseImportText', () => {
+    expect(parseImportText(fixture('kindle-clippings-de.txt'))[0].title).toBe('Der Zauberberg');
+  });
+});
+
+describe('parseKindleDate', () => {
+  it('reads each firmware language', () => {
+    const expected = localIso(2021, 4, 3, 14, 22);
+    expect(parseKindleDate('Monday, May 3, 2021 2:22:00 PM')).toBe(expected);
+    expect(parseKindleDate('Montag, 3. Mai 2021 14:22:00')).toBe(expected);
+    expect(parseKindleDate('lundi 3 mai 2021 14:22:00')).toBe(expected);
+    expect(parseKindleDate('lunes, 3 de mayo de 2021 14:22:00')).toBe(expected);
+    expect(parseKindleDate('2021年5月3日月曜日 14:22:00')).toBe(expected);
+    expect(parseKindleDate('Monday, 12:00:00 AM')).toBeUndefined();
+  });
+});
+
+describe('parseKoboDatabase', () => {
+  it('reads highlights and notes from the Bookmark table', async () => {
+    const [book] = await parseKoboDatabase(await buildKoboDatabase());
+    expect(book).toMatchObject({ title: 'Middlemarch', author: 'George Eliot', isbn: '9780141439549' });
+    expect(book.highlights).toHaveLength(2);
+    expect(book.highlights[1]).toMatchObject({ text: 'Unhistoric acts.', notes: ['The whole argument.'] });
+  });
+
+  it('rejects a database without the Kobo tables', async () => {
+    const SQL = await initSqlJs();
+    const db = new SQL.Database();
+    db.run('CREATE TABLE notes (id INTEGER)');
+    const bytes = db.export();
+    db.close();
+    await expect(parseKoboDatabase(bytes)).rejects.toThrow("KoboReader.sqlite");
+  });
+});
+
+describe('parseAppleBooksHtml', () => {
+  it('reads passages, chapters and notes from a Share Notes email', () => {
+    const [book] = parseAppleBooksHtml(fixture('apple-books-notes.html'));
+    expect(book).toMatchObject({ title: 'Middlemarch', author: 'George Eliot' });
+    expect(book.highlights).toHaveLength(2);
+    expect(book.highlights[0]).toMatchObject({
+      text: 'Miss Brooke had that kind of beauty which seems to be thrown into relief by poor dress.',
+      location: 'Book One: Miss Brooke',
+    });
+    expect(book.highlights[0].createdAt).toBeDefined();
+    expect(book.highlights[1].notes).toEqual(["The book's whole argument in one line."]);
+  });
+});
+
+describe('parseGooglePlayBooksHtml', () => {
+  it('reads passages, notes, dates and pages from a Drive notes document', () => {
+    const [book] = parseGooglePlayBooksHtml(fixture('google-play-books-notes.html'));
+    expect(book).toMatchObject({ title: 'Middlemarch', author: 'George Eliot' });
+    expect(book.highlights).toHaveLength(2);
+    expect(book.highlights[0]).toMatchObject({ page: '3', notes: undefined });
+    expect(book.highlights[1]).toMatchObject({
+      text: 'The growing good of the world is partly dependent on unhistoric acts.',
+      page: '838',
+      notes: ["The book's whole argument in one line."],
+    });
+    expect(book.highlights[1].createdAt).toBeDefined();
+  });
+});
+
+describe('parseImportText', () => {
+  it('recognises each HTML export by its markup', () => {
+    expect(parseImportText(fixture('apple-books-notes.html'))[0].highlights[0].location).toBe('Book One: Miss Brooke');
+    expect(parseImportText(fixture('google-play-books-notes.html'))[0].highlights[0].page).toBe('3');
+  });
+});
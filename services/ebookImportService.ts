@@ -1,68 +1,220 @@
+import { loadSqlJs } from "./sqlJsLoader";
 
-interface ImportedBookData {
+export interface ImportedBookData {
   title: string;
   author: string;
+  isbn?: string;
   highlights: {
     text: string;
     page?: string;
     location?: string;
     createdAt?: string;
+    notes?: string[];
+    tags?: string[];
   }[];
 }
 
+export type ImportedHighlight = ImportedBookData['highlights'][number];
+
+export type KindleClippingType = 'highlight' | 'note' | 'bookmark';
+
+export interface KindleClipping {
+  title: string;
+  author: string;
+  type: KindleClippingType;
+  content: string;
+  page?: string;
+  locationStart?: number;
+  locationEnd?: number;
+  createdAt?: string;
+}
+
+// Keywords Kindle uses in the metadata line, across the English, German, French,
+// Spanish and Japanese firmware. Notes are checked before highlights because some
+// locales phrase them as "note on highlight".
+const KINDLE_TYPE_PATTERNS: [KindleClippingType, RegExp][] = [
+  ['bookmark', /bookmark|lesezeichen|signet|marcador|ブックマーク/i],
+  ['note', /\bnote\b|notiz|\bnota\b|メモ/i],
+  ['highlight', /highlight|markierung|surlignement|subrayado|ハイライト/i],
+];
+
+const KINDLE_PAGE_PATTERN = /(?:page|seite|página|pagina)\s*(\d+)|(\d+)\s*ページ/i;
+const KINDLE_LOCATION_PATTERN = /(?:location|loc\.|position|emplacement|posición|posicion|位置No\.)\s*(\d+)(?:\s*-\s*(\d+))?/i;
+const KINDLE_ADDED_PATTERN = /(?:added on|hinzugefügt am|ajouté le|añadido el|作成日[:：])\s*(.+)$/i;
+
+const MONTHS: Record<string, number> = {
+  january: 1, february: 2, march: 3, april: 4, may: 5, june: 6, july: 7, august: 8, september: 9, october: 10, november: 11, december: 12,
+  januar: 1, februar: 2, märz: 3, mai: 5, juni: 6, juli: 7, oktober: 10, dezember: 12,
+  janvier: 1, février: 2, mars: 3, avril: 4, juin: 6, juillet: 7, août: 8, septembre: 9, octobre: 10, novembre: 11, décembre: 12,
+  enero: 1, febrero: 2, marzo: 3, abril: 4, mayo: 5, junio: 6, julio: 7, agosto: 8, septiembre: 9, setiembre: 9, octubre: 10, noviembre: 11, diciembre: 12,
+};
+
 /**
- * Parses Kindle's My Clippings.txt format.
+ * Turns the "Added on ..." part of a clipping into an ISO timestamp. Kindle writes
+ * device-local time with localized month and weekday names, e.g.
+ * "Monday, May 3, 2021 2:22:00 PM", "Montag, 3. Mai 2021 14:22:00", "2021年5月3日月曜日 14:22:00".
  */
-export const parseKindleClippings = (text: string): ImportedBookData[] => {
-  const sections = text.split('==========').filter(s => s.trim().length > 0);
-  const bookMap = new Map<string, ImportedBookData>();
+export const parseKindleDate = (raw: string): string | undefined => {
+  const timeMatch = raw.match(/(\d{1,2}):(\d{2})(?::(\d{2}))?\s*(AM|PM|午前|午後)?/i);
+  const datePart = timeMatch ? raw.replace(timeMatch[0], ' ') : raw;
+  let year: number | undefined;
+  let month: number | undefined;
+  let day: number | undefined;
+
+  const ja = datePart.match(/(\d{4})年(\d{1,2})月(\d{1,2})日/);
+  if (ja) {
+    [year, month, day] = [Number(ja[1]), Number(ja[2]), Number(ja[3])];
+  } else {
+    const words = datePart.toLowerCase().split(/[\s,.]+/).filter(Boolean);
+    month = words.map(w => MONTHS[w]).find(m => m !== undefined);
+    const numbers = words.filter(w => /^\d+$/.test(w)).map(Number);
+    year = numbers.find(n => n > 31);
+    day = numbers.find(n => n >= 1 && n <= 31);
+  }
+  if (!year || !month || !day) return undefined;
+
+  let hours = timeMatch ? Number(timeMatch[1]) : 0;
+  const minutes = timeMatch ? Number(timeMatch[2]) : 0;
+  const seconds = timeMatch && timeMatch[3] ? Number(timeMatch[3]) : 0;
+  const meridiem = timeMatch?.[4]?.toUpperCase();
+  if ((meridiem === 'PM' || meridiem === '午後') && hours < 12) hours += 12;
+  if ((meridiem === 'AM' || meridiem === '午前') && hours === 12) hours = 0;
+
+  const date = new Date(year, month - 1, day, hours, minutes, seconds);
+  return isNaN(date.getTime()) ? undefined : date.toISOString();
+};
+
+const parseKindleTitleLine = (titleLine: string) => {
+  const lastParenIndex = titleLine.lastIndexOf('(');
+  let title = titleLine;
+  let author = "Unknown Author";
+
+  if (lastParenIndex > 0) {
+    title = titleLine.substring(0, lastParenIndex).trim();
+    const rawAuthor = titleLine.substring(lastParenIndex + 1, titleLine.length - 1).trim();
+    if (rawAuthor.includes(',')) {
+      const parts = rawAuthor.split(',').map(s => s.trim());
+      author = parts.length === 2 ? `${parts[1]} ${parts[0]}` : rawAuthor;
+    } else {
+      author = rawAuthor;
+    }
+  }
+  return { title, author };
+};
+
+/**
+ * Splits My Clippings.txt into typed entries with their page, location range and creation date.
+ */
+export const parseKindleClippingEntries = (text: string): KindleClipping[] => {
+  const sections = text.replace(/\uFEFF/g, '').split('==========').filter(s => s.trim().length > 0);
+  const clippings: KindleClipping[] = [];
 
   sections.forEach(section => {
     const lines = section.trim().split(/\r?\n/);
     if (lines.length < 2) return;
 
-    const titleLine = lines[0].trim();
-    const lastParenIndex = titleLine.lastIndexOf('(');
-    let title = titleLine;
-    let author = "Unknown Author";
-
-    if (lastParenIndex > 0) {
-      title = titleLine.substring(0, lastParenIndex).trim();
-      const rawAuthor = titleLine.substring(lastParenIndex + 1, titleLine.length - 1).trim();
-      if (rawAuthor.includes(',')) {
-        const parts = rawAuthor.split(',').map(s => s.trim());
-        author = parts.length === 2 ? `${parts[1]} ${parts[0]}` : rawAuthor;
-      } else {
-        author = rawAuthor;
-      }
-    }
-
+    const { title, author } = parseKindleTitleLine(lines[0].trim());
     const metaLine = lines[1].trim();
-    let page = undefined;
-    const pageMatch = metaLine.match(/page (\d+)/i);
-    if (pageMatch) page = pageMatch[1];
-    
+    const type = KINDLE_TYPE_PATTERNS.find(([, pattern]) => pattern.test(metaLine))?.[0] || 'highlight';
+
+    const pageMatch = metaLine.match(KINDLE_PAGE_PATTERN);
+    const locationMatch = metaLine.match(KINDLE_LOCATION_PATTERN);
+    const addedMatch = metaLine.match(KINDLE_ADDED_PATTERN);
+
     let contentStartIndex = 2;
     while (lines[contentStartIndex] !== undefined && lines[contentStartIndex].trim() === '') {
         contentStartIndex++;
     }
-    
     const content = lines.slice(contentStartIndex).join('\n').trim();
-    if (!content || content.toLowerCase().startsWith('bookmark')) return;
 
-    const key = `${title}-${author}`.toLowerCase();
+    const locationStart = locationMatch ? Number(locationMatch[1]) : undefined;
+    clippings.push({
+      title,
+      author,
+      type,
+      content,
+      page: pageMatch ? pageMatch[1] || pageMatch[2] : undefined,
+      locationStart,
+      locationEnd: locationMatch?.[2] ? Number(locationMatch[2]) : locationStart,
+      createdAt: addedMatch ? parseKindleDate(addedMatch[1]) : undefined,
+    });
+  });
+
+  return clippings;
+};
+
+const formatLocation = (clipping: KindleClipping) => {
+  if (clipping.locationStart === undefined) return undefined;
+  return clipping.locationEnd !== undefined && clipping.locationEnd !== clipping.locationStart
+    ? `${clipping.locationStart}-${clipping.locationEnd}`
+    : String(clipping.locationStart);
+};
+
+/**
+ * Finds the highlight a note annotates. Kindle anchors a note at the last location of
+ * the passage, so an overlapping range wins; otherwise the closest preceding highlight.
+ */
+const findAnnotatedHighlight = (note: KindleClipping, highlights: KindleClipping[]) => {
+  const loc = note.locationStart;
+  if (loc === undefined) return undefined;
+  const located = highlights.filter(h => h.locationStart !== undefined);
+  const overlapping = located.filter(h => h.locationStart! <= loc && loc <= h.locationEnd! + 1);
+  if (overlapping.length > 0) {
+    return overlapping.sort((a, b) => (a.locationEnd! - a.locationStart!) - (b.locationEnd! - b.locationStart!))[0];
+  }
+  return located
+    .filter(h => h.locationEnd! < loc)
+    .sort((a, b) => b.locationEnd! - a.locationEnd!)[0];
+};
+
+/**
+ * Parses Kindle's My Clippings.txt format.
+ * Notes become thoughts on the highlight they annotate and bookmarks are dropped.
+ */
+export const parseKindleClippings = (text: string): ImportedBookData[] => {
+  const clippings = parseKindleClippingEntries(text);
+  const bookMap = new Map<string, { data: ImportedBookData; highlights: KindleClipping[]; notes: Map<KindleClipping, string[]> }>();
+
+  const bookFor = (c: KindleClipping) => {
+    const key = `${c.title}-${c.author}`.toLowerCase();
     if (!bookMap.has(key)) {
-      bookMap.set(key, { title, author, highlights: [] });
+      bookMap.set(key, { data: { title: c.title, author: c.author, highlights: [] }, highlights: [], notes: new Map() });
     }
+    return bookMap.get(key)!;
+  };
+
+  clippings
+    .filter(c => c.type === 'highlight' && c.content)
+    .forEach(c => bookFor(c).highlights.push(c));
 
-    bookMap.get(key)!.highlights.push({ 
-      text: content, 
-      page,
-      createdAt: new Date().toISOString()
+  const orphanNotes: KindleClipping[] = [];
+  clippings
+    .filter(c => c.type === 'note' && c.content)
+    .forEach(note => {
+      const book = bookFor(note);
+      const target = findAnnotatedHighlight(note, book.highlights);
+      if (!target) {
+        orphanNotes.push(note);
+        return;
+      }
+      book.notes.set(target, [...(book.notes.get(target) || []), note.content]);
     });
-  });
 
-  return Array.from(bookMap.values());
+  // A note with nothing to attach to is still the reader's own words, so keep it as an entry.
+  orphanNotes.forEach(note => bookFor(note).highlights.push(note));
+
+  return Array.from(bookMap.values())
+    .map(({ data, highlights, notes }) => {
+      data.highlights = highlights.map(c => ({
+        text: c.content,
+        page: c.page,
+        location: formatLocation(c),
+        createdAt: c.createdAt,
+        notes: notes.get(c),
+      }));
+      return data;
+    })
+    .filter(data => data.highlights.length > 0);
 };
 
 /**
@@ -112,11 +264,247 @@ export const parseHtmlHighlights = (htmlContent: string): ImportedBookData[] =>
   return Array.from(bookMap.values());
 };
 
+/**
+ * Splits CSV text into rows of fields (RFC 4180: quoted fields, doubled quotes, embedded newlines).
+ */
+export const parseCsvRows = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') { field += '"'; i++; }
+      else if (char === '"') inQuotes = false;
+      else field += char;
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field); field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field); field = '';
+      rows.push(row); row = [];
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(r => r.some(f => f.trim() !== ''));
+};
+
+const READWISE_REQUIRED_COLUMNS = ['Highlight', 'Book Title'];
+
+const isReadwiseCsv = (text: string) => {
+  const header = text.split(/\r?\n/, 1)[0];
+  return READWISE_REQUIRED_COLUMNS.every(col => header.includes(col));
+};
+
+// Readwise writes "2021-05-03 14:22:00+00:00"; Date needs the "T" separator to parse it everywhere.
+/**
+ * Readwise has one Note column; several notes on a highlight share it, separated by a `---` line.
+ * A note that itself has a line of just `---` comes back as two.
+ */
+export const READWISE_NOTE_SEPARATOR = '\n\n---\n\n';
+
+const splitReadwiseNotes = (cell: string) =>
+  cell.split(/\r?\n[ \t]*---[ \t]*\r?\n/).map(n => n.trim()).filter(Boolean);
+
+const parseReadwiseDate = (value: string): string | undefined => {
+  if (!value.trim()) return undefined;
+  const date = new Date(value.trim().replace(' ', 'T'));
+  return isNaN(date.getTime()) ? undefined : date.toISOString();
+};
+
+/**
+ * Parses the Readwise CSV export (Highlight, Book Title, Book Author, Note, Location, Highlighted at, Tags).
+ */
+export const parseReadwiseCsv = (text: string): ImportedBookData[] => {
+  const [header, ...rows] = parseCsvRows(text.replace(/^\uFEFF/, ''));
+  if (!header) return [];
+  const col = (name: string) => header.findIndex(h => h.trim().toLowerCase() === name.toLowerCase());
+  const idx = {
+    text: col('Highlight'),
+    title: col('Book Title'),
+    author: col('Book Author'),
+    note: col('Note'),
+    tags: col('Tags'),
+    locationType: col('Location Type'),
+    location: col('Location'),
+    highlightedAt: col('Highlighted at'),
+  };
+  if (idx.text === -1 || idx.title === -1) return [];
+
+  const get = (row: string[], i: number) => (i >= 0 && row[i] !== undefined ? row[i].trim() : '');
+  const bookMap = new Map<string, ImportedBookData>();
+
+  rows.forEach(row => {
+    const content = get(row, idx.text);
+    if (!content) return;
+    const title = get(row, idx.title) || "Imported Ebook";
+    const author = get(row, idx.author) || "Unknown Author";
+    const key = `${title}-${author}`.toLowerCase();
+    if (!bookMap.has(key)) {
+      bookMap.set(key, { title, author, highlights: [] });
+    }
+
+    const location = get(row, idx.location);
+    const isPage = get(row, idx.locationType).toLowerCase() === 'page';
+    const notes = splitReadwiseNotes(get(row, idx.note));
+    const tags = get(row, idx.tags).split(',').map(t => t.trim()).filter(Boolean);
+
+    bookMap.get(key)!.highlights.push({
+      text: content,
+      page: isPage && location ? location : undefined,
+      location: !isPage && location ? location : undefined,
+      createdAt: parseReadwiseDate(get(row, idx.highlightedAt)),
+      notes: notes.length > 0 ? notes : undefined,
+      tags: tags.length > 0 ? tags : undefined,
+    });
+  });
+
+  return Array.from(bookMap.values());
+};
+
+const toIsoDate = (value: string | null | undefined): string | undefined => {
+  if (!value || !value.trim()) return undefined;
+  const date = new Date(value.trim());
+  return isNaN(date.getTime()) ? undefined : date.toISOString();
+};
+
+const KOBO_HIGHLIGHTS_QUERY = `
+  SELECT b.Text, b.Annotation, b.DateCreated, c.Title, c.Attribution, c.ISBN
+  FROM Bookmark b
+  LEFT JOIN content c ON c.ContentID = b.VolumeID
+  WHERE b.Text IS NOT NULL AND TRIM(b.Text) <> ''
+  ORDER BY b.VolumeID, b.DateCreated
+`;
+
+/**
+ * Reads highlights and notes from a Kobo device's `.kobo/KoboReader.sqlite`.
+ */
+export const parseKoboDatabase = async (bytes: Uint8Array): Promise<ImportedBookData[]> => {
+  const SQL = await loadSqlJs();
+  const db = new SQL.Database(bytes);
+  const bookMap = new Map<string, ImportedBookData>();
+
+  try {
+    const [result] = db.exec(KOBO_HIGHLIGHTS_QUERY);
+    if (!result) return [];
+
+    result.values.forEach(([text, annotation, dateCreated, rawTitle, rawAuthor, isbn]) => {
+      const title = String(rawTitle || '').trim() || "Imported Ebook";
+      const author = String(rawAuthor || '').trim() || "Unknown Author";
+      const key = `${title}-${author}`.toLowerCase();
+      if (!bookMap.has(key)) {
+        bookMap.set(key, { title, author, isbn: isbn ? String(isbn) : undefined, highlights: [] });
+      }
+      const note = String(annotation || '').trim();
+      bookMap.get(key)!.highlights.push({
+        text: String(text).trim(),
+        createdAt: toIsoDate(dateCreated as string | null),
+        notes: note ? [note] : undefined,
+      });
+    });
+  } catch (e) {
+    throw new Error("That file doesn't look like a KoboReader.sqlite database.");
+  } finally {
+    db.close();
+  }
+
+  return Array.from(bookMap.values());
+};
+
+const isAppleBooksHtml = (text: string) => text.includes('annotationrepresentativetext');
+
+/**
+ * Parses the HTML email Apple Books produces from "Share Notes" (Notes tab > Share).
+ */
+export const parseAppleBooksHtml = (htmlContent: string): ImportedBookData[] => {
+  const doc = new DOMParser().parseFromString(htmlContent, 'text/html');
+  const title = doc.querySelector('.booktitle, h1')?.textContent?.trim() || "Imported Ebook";
+  const author = doc.querySelector('.booktitle + h2, .bookauthor, h2')?.textContent?.trim() || "Unknown Author";
+  const highlights: ImportedBookData['highlights'] = [];
+
+  doc.querySelectorAll('.annotation').forEach(el => {
+    const text = el.querySelector('.annotationrepresentativetext')?.textContent?.trim();
+    if (!text) return;
+    const note = el.querySelector('.annotationnote')?.textContent?.trim();
+    highlights.push({
+      text: text.replace(/^[“"]|[”"]$/g, ''),
+      location: el.querySelector('.annotationchapter')?.textContent?.trim() || undefined,
+      createdAt: toIsoDate(el.querySelector('.annotationdate')?.textContent),
+      notes: note ? [note] : undefined,
+    });
+  });
+
+  return highlights.length > 0 ? [{ title, author, highlights }] : [];
+};
+
+const isGooglePlayBooksHtml = (text: string) =>
+  text.includes('play.google.com/store/books') || /Notes from\s*[“"]/.test(text);
+
+/**
+ * Parses a Google Play Books notes document (the Google Doc Play Books keeps in Drive,
+ * downloaded as HTML). Each annotation is a table whose cells hold the passage, the
+ * optional note, the date and a page link.
+ */
+export const parseGooglePlayBooksHtml = (htmlContent: string): ImportedBookData[] => {
+  const doc = new DOMParser().parseFromString(htmlContent, 'text/html');
+  const heading = doc.querySelector('.title, h1')?.textContent?.trim() || doc.title.trim();
+  const title = heading.replace(/^Notes from\s*/i, '').replace(/^[“"]|[”"]$/g, '').trim() || "Imported Ebook";
+  const headerLines = Array.from(doc.querySelectorAll('p'))
+    .filter(p => !p.closest('table'))
+    .map(p => p.textContent?.trim() || '')
+    .filter(Boolean);
+  const author = headerLines.find(line => !line.startsWith('Notes from') && line !== title && line.length < 120) || "Unknown Author";
+  const highlights: ImportedBookData['highlights'] = [];
+  const datePattern = /^[A-Z][a-z]+ \d{1,2}, \d{4}$/;
+
+  doc.querySelectorAll('table').forEach(table => {
+    const cells = Array.from(table.querySelectorAll('td'));
+    if (cells.length === 0) return;
+    const pageLink = table.querySelector('a')?.textContent?.trim();
+    const parts = Array.from(cells[0].querySelectorAll('p'))
+      .map(p => p.textContent?.trim() || '')
+      .filter(Boolean);
+    if (parts.length === 0) return;
+
+    const dateIndex = parts.findIndex(part => datePattern.test(part));
+    const body = dateIndex === -1 ? parts : parts.slice(0, dateIndex);
+    const [text, ...noteParts] = body;
+    if (!text) return;
+
+    highlights.push({
+      text,
+      page: pageLink && /^\d+$/.test(pageLink) ? pageLink : undefined,
+      createdAt: dateIndex === -1 ? undefined : toIsoDate(parts[dateIndex]),
+      notes: noteParts.length > 0 ? [noteParts.join('\n')] : undefined,
+    });
+  });
+
+  return highlights.length > 0 ? [{ title, author, highlights }] : [];
+};
+
 export const parseImportText = (text: string): ImportedBookData[] => {
   const trimmed = text.trim();
   if (trimmed.includes('==========')) {
     return parseKindleClippings(trimmed);
   }
+  if (isReadwiseCsv(trimmed.replace(/^\uFEFF/, ''))) {
+    return parseReadwiseCsv(trimmed);
+  }
+  if (isAppleBooksHtml(trimmed)) {
+    return parseAppleBooksHtml(trimmed);
+  }
+  if (isGooglePlayBooksHtml(trimmed)) {
+    return parseGooglePlayBooksHtml(trimmed);
+  }
   if (trimmed.startsWith('<') || trimmed.includes('<!DOCTYPE html>') || trimmed.includes('<html>')) {
     return parseHtmlHighlights(trimmed);
   }
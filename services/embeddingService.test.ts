@@ -0,0 +1,104 @@
+import { describe, expect, it, vi } from 'vitest';
+import { Highlight } from '../types';
+import { Embedder } from './aiProvider';
+import { cosineSimilarity, createEmbeddingIndex } from './embeddingService';
+import { fakeEmbedder } from './fakeAIProvider';
+import { EmbeddingRepositoryApi, StoredEmbedding } from './libraryRepository';
+
+const highlight = (id: string, bookId: string, text: string): Highlight =>
+  ({ id, bookId, text, thoughts: [], tags: [], createdAt: '2021-05-03T00:00:00.000Z', source: 'digital' });
+
+const library = [
+  highlight('h1', 'b1', 'The mind is its own place and can make a heaven of hell'),
+  highlight('h2', 'b2', 'A heaven of hell the mind can make'),
+  highlight('h3', 'b2', 'Tomatoes need full sun and steady water'),
+  highlight('h4', 'b1', 'The mind makes its own place'),
+];
+
+const countingEmbedder = (): Embedder & { embedded: string[] } => {
+  const embedded: string[] = [];
+  return {
+    id: fakeEmbedder.id,
+    embedded,
+    embed: texts => {
+      embedded.push(...texts);
+      return fakeEmbedder.embed(texts);
+    },
+  };
+};
+
+const memoryRepository = (): EmbeddingRepositoryApi & { stored: Map<string, StoredEmbedding> } => {
+  const stored = new Map<string, StoredEmbedding>();
+  return {
+    stored,
+    getAll: async () => Array.from(stored.values()),
+    putMany: async embeddings => { embeddings.forEach(e => stored.set(e.highlightId, e)); },
+    deleteMany: async ids => { ids.forEach(id => stored.delete(id)); },
+    clear: async () => stored.clear(),
+  };
+};
+
+describe('cosineSimilarity', () => {
+  it('scores direction, not length', () => {
+    expect(cosineSimilarity([1, 2], [2, 4])).toBeCloseTo(1);
+    expect(cosineSimilarity([1, 0], [0, 1])).toBe(0);
+    expect(cosineSimilarity([0, 0], [1, 1])).toBe(0);
+  });
+});
+
+describe('createEmbeddingIndex', () => {
+  it('finds passages by meaning, best match first', async () => {
+    const index = createEmbeddingIndex({ embedder: fakeEmbedder, repository: null });
+    await index.sync(library);
+    const [best, ...rest] = await index.search('sun and water for tomatoes');
+    expect(best.highlight.id).toBe('h3');
+    expect(rest.every(r => r.score <= best.score)).toBe(true);
+  });
+
+  it('relates passages from other books unless asked for the same book', async () => {
+    const index = createEmbeddingIndex({ embedder: fakeEmbedder, repository: null });
+    await index.sync(library);
+    expect((await index.related(library[0]))[0].highlight.id).toBe('h2');
+    expect((await index.related(library[0], 5)).map(r => r.highlight.bookId)).not.toContain('b1');
+    expect((await index.related(library[0], 5, true)).map(r => r.highlight.id)).toContain('h4');
+  });
+
+  it('embeds only new or edited highlights', async () => {
+    const embedder = countingEmbedder();
+    const index = createEmbeddingIndex({ embedder, repository: null, batchSize: 2 });
+    await index.sync(library);
+    expect(embedder.embedded).toHaveLength(4);
+    await index.sync([...library.slice(1), { ...library[0], text: 'An edited passage' }]);
+    expect(embedder.embedded.slice(4)).toEqual(['An edited passage']);
+  });
+
+  it('reuses cached vectors and drops those of deleted highlights', async () => {
+    const repository = memoryRepository();
+    await createEmbeddingIndex({ embedder: fakeEmbedder, repository }).sync(library);
+    expect(repository.stored.size).toBe(4);
+
+    const embedder = countingEmbedder();
+    const index = createEmbeddingIndex({ embedder, repository });
+    await index.sync(library.slice(0, 3));
+    expect(embedder.embedded).toEqual([]);
+    expect(repository.stored.has('h4')).toBe(false);
+  });
+
+  it('reads the library once, then keeps single highlights current', async () => {
+    const embedder = countingEmbedder();
+    const index = createEmbeddingIndex({ embedder, repository: null });
+    const loadAll = vi.fn(async () => library);
+
+    await index.syncHighlight(library[0], loadAll);
+    await index.syncHighlight({ ...library[1], text: 'Edited' }, loadAll);
+    expect(loadAll).toHaveBeenCalledOnce();
+    expect(embedder.embedded.slice(4)).toEqual(['Edited']);
+  });
+
+  it('stops returning forgotten highlights', async () => {
+    const index = createEmbeddingIndex({ embedder: fakeEmbedder, repository: null });
+    await index.sync(library);
+    await index.forget(['h2']);
+    expect((await index.related(library[0], 5)).map(r => r.highlight.id)).not.toContain('h2');
+  });
+});
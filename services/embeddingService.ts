@@ -0,0 +1,159 @@
+import { Highlight } from "../types";
+import { Embedder } from "./aiProvider";
+import { aiEmbedder } from "./aiService";
+import { EmbeddingRepository, EmbeddingRepositoryApi, StoredEmbedding } from "./libraryRepository";
+
+export interface SimilarHighlight {
+  highlight: Highlight;
+  score: number;
+}
+
+export interface EmbeddingIndexOptions {
+  embedder?: Embedder;
+  /** Where vectors are cached between sessions; null keeps them in memory only. */
+  repository?: EmbeddingRepositoryApi | null;
+  batchSize?: number;
+}
+
+const DEFAULT_BATCH_SIZE = 50;
+
+// FNV-1a: a cheap, stable fingerprint of the embedded text for the cache signature.
+const hashText = (text: string) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(36);
+};
+
+const normalize = (vector: number[]) => {
+  const length = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+  return length > 0 ? vector.map(v => v / length) : vector;
+};
+
+export const cosineSimilarity = (a: number[], b: number[]) => {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+};
+
+/**
+ * Vectors for every highlight, kept in memory for similarity search and cached in
+ * IndexedDB. `sync` only embeds highlights that are new or whose text changed.
+ */
+export const createEmbeddingIndex = ({
+  embedder = aiEmbedder,
+  repository = EmbeddingRepository,
+  batchSize = DEFAULT_BATCH_SIZE,
+}: EmbeddingIndexOptions = {}) => {
+  const vectors = new Map<string, StoredEmbedding>();
+  const highlights = new Map<string, Highlight>();
+  let hydrated: Promise<void> | null = null;
+  let pending: Promise<void> = Promise.resolve();
+  let isSynced = false;
+
+  const signatureOf = (highlight: Highlight) => `${embedder.id}:${hashText(highlight.text)}`;
+
+  const hydrate = () => {
+    if (!hydrated) {
+      hydrated = (repository ? repository.getAll() : Promise.resolve([])).then(stored => {
+        stored.forEach(e => vectors.set(e.highlightId, e));
+      });
+    }
+    return hydrated;
+  };
+
+  const embedStale = async (items: Highlight[]) => {
+    const stale = items.filter(h => h.text.trim() && vectors.get(h.id)?.signature !== signatureOf(h));
+    for (let start = 0; start < stale.length; start += batchSize) {
+      const batch = stale.slice(start, start + batchSize);
+      const embedded = await embedder.embed(batch.map(h => h.text));
+      const records = batch
+        .map((h, i): StoredEmbedding | null =>
+          embedded[i]?.length ? { highlightId: h.id, signature: signatureOf(h), vector: normalize(embedded[i]) } : null
+        )
+        .filter((r): r is StoredEmbedding => !!r);
+      records.forEach(r => vectors.set(r.highlightId, r));
+      if (repository) await repository.putMany(records);
+    }
+  };
+
+  const forgetNow = async (ids: string[]) => {
+    ids.forEach(id => {
+      highlights.delete(id);
+      vectors.delete(id);
+    });
+    if (repository && ids.length > 0) await repository.deleteMany(ids);
+  };
+
+  const runSync = async (items: Highlight[]) => {
+    await hydrate();
+    highlights.clear();
+    items.forEach(h => highlights.set(h.id, h));
+
+    const removed = Array.from(vectors.keys()).filter(id => !highlights.has(id));
+    await forgetNow(removed);
+    await embedStale(items);
+    isSynced = true;
+  };
+
+  // Calls that change the index are queued, never run in parallel.
+  const enqueue = (task: () => Promise<void>) => {
+    pending = pending.catch(() => {}).then(task);
+    return pending;
+  };
+
+  /** Brings the index in line with the given highlights. */
+  const sync = (items: Highlight[]) => enqueue(() => runSync(items));
+
+  /**
+   * Keeps one highlight's vector current without re-reading the library. Only the first
+   * call in a session, before any full sync, needs every highlight, so `loadAll` runs then.
+   */
+  const syncHighlight = (highlight: Highlight, loadAll: () => Promise<Highlight[]>) =>
+    enqueue(async () => {
+      if (!isSynced) return runSync(await loadAll());
+      highlights.set(highlight.id, highlight);
+      await embedStale([highlight]);
+    });
+
+  /** Drops deleted highlights so they stop turning up in results. */
+  const forget = (ids: string[]) => enqueue(() => forgetNow(ids));
+
+  const nearest = (vector: number[], limit: number, accept: (h: Highlight) => boolean): SimilarHighlight[] =>
+    Array.from(vectors.values())
+      .filter(e => highlights.has(e.highlightId) && accept(highlights.get(e.highlightId)!))
+      .map(e => ({ highlight: highlights.get(e.highlightId)!, score: cosineSimilarity(vector, e.vector) }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+
+  const search = async (query: string, limit = 20, minScore = 0): Promise<SimilarHighlight[]> => {
+    await pending;
+    if (!query.trim()) return [];
+    const [vector] = await embedder.embed([query]);
+    if (!vector?.length) return [];
+    return nearest(normalize(vector), limit, () => true).filter(r => r.score >= minScore);
+  };
+
+  /** Passages closest in meaning to `highlight`, from other books unless `sameBook` is set. */
+  const related = async (highlight: Highlight, limit = 5, sameBook = false): Promise<SimilarHighlight[]> => {
+    await pending;
+    const own = vectors.get(highlight.id);
+    if (!own) return [];
+    return nearest(own.vector, limit, h => h.id !== highlight.id && (sameBook || h.bookId !== highlight.bookId));
+  };
+
+  return { sync, syncHighlight, forget, search, related };
+};
+
+export type EmbeddingIndex = ReturnType<typeof createEmbeddingIndex>;
+
+/** Shared by the library search and the highlight view so vectors are loaded once. */
+export const libraryEmbeddings = createEmbeddingIndex();
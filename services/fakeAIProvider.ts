@@ -0,0 +1,80 @@
+import { AIProvider, Embedder, JsonModelClient, sampleFromSchema } from "./aiProvider";
+
+export const FAKE_MODEL = 'fake';
+
+const EMBEDDING_SIZE = 64;
+
+/**
+ * A deterministic, offline provider: the same input always gives the same output and
+ * nothing leaves the device. For exercising the app without a key, and for tests;
+ * pass `overrides` to script specific answers.
+ */
+export const createFakeAIProvider = (overrides: Partial<AIProvider> = {}): AIProvider => ({
+  id: 'fake',
+  name: 'Offline demo',
+
+  async identifyBookFromCover() {
+    return { title: "Sample Book", author: "Sample Author" };
+  },
+
+  async analyzeHighlightImage() {
+    return {
+      passages: [
+        { text: "The quick brown fox jumps over the lazy dog.", box: { x: 0.1, y: 0.2, width: 0.8, height: 0.1 } },
+        { text: "Pack my box with five dozen liquor jugs.", box: { x: 0.1, y: 0.6, width: 0.8, height: 0.1 } },
+      ],
+      pageNumber: 1,
+    };
+  },
+
+  async synthesizeBook(book, highlights) {
+    return `## Notes on ${book.title}\n\nA summary of ${highlights.length} highlights would appear here.`;
+  },
+
+  async transcribeAudio() {
+    return "Transcribed voice note.";
+  },
+
+  async generateJson(_prompt, schema) {
+    return sampleFromSchema(schema);
+  },
+
+  embed(texts) {
+    return fakeEmbedder.embed(texts);
+  },
+
+  ...overrides,
+});
+
+/** Bag-of-words vectors: crude, but stable and good enough to exercise similarity search. */
+export const fakeEmbedder: Embedder = {
+  id: 'fake-embedding',
+  async embed(texts) {
+    return texts.map(text => {
+      const vector = new Array(EMBEDDING_SIZE).fill(0);
+      text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean).forEach(word => {
+        let hash = 0;
+        for (let i = 0; i < word.length; i++) hash = (hash * 31 + word.charCodeAt(i)) >>> 0;
+        vector[hash % EMBEDDING_SIZE] += 1;
+      });
+      return vector;
+    });
+  },
+};
+
+/**
+ * Answers with `replies` in order and records each prompt, to script the organising
+ * features (tags, themes, flashcards, chat) in tests.
+ */
+export const createScriptedJsonClient = (replies: any[]): JsonModelClient & { prompts: string[] } => {
+  const queue = [...replies];
+  const prompts: string[] = [];
+  return {
+    prompts,
+    async generateJson(prompt) {
+      prompts.push(prompt);
+      if (queue.length === 0) throw new Error("The scripted client has no replies left.");
+      return queue.shift();
+    },
+  };
+};
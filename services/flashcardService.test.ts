@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { Flashcard } from '../types';
+import { buildStudyQueue, clozeNumbers, clozeToText, gradeFlashcard, isValidDraft, parseCloze, wrapCloze } from './flashcardService';
+
+const now = new Date(2024, 0, 10, 9, 30);
+
+const card = (id: string, fields: Partial<Flashcard> = {}): Flashcard =>
+  ({ id, highlightId: 'h1', bookId: 'b1', kind: 'cloze', front: '{{c1::x}}', back: '', createdAt: '2023-01-01T00:00:00.000Z', history: [], ...fields });
+
+describe('parseCloze', () => {
+  it('splits text into plain and hidden parts with their numbers and hints', () => {
+    expect(parseCloze('The {{c1::growing good}} of the {{c2::world::planet?}}.')).toEqual([
+      { text: 'The ' },
+      { text: 'growing good', cloze: 1, hint: undefined },
+      { text: ' of the ' },
+      { text: 'world', cloze: 2, hint: 'planet?' },
+      { text: '.' },
+    ]);
+  });
+
+  it('matches a deletion that spans lines', () => {
+    expect(parseCloze('{{c1::first line\nsecond line}}')).toEqual([{ text: 'first line\nsecond line', cloze: 1, hint: undefined }]);
+  });
+
+  it('hides or reveals deletions', () => {
+    const front = 'The {{c1::growing good}} of the {{c2::world::planet?}}.';
+    expect(clozeToText(front, false)).toBe('The […] of the [planet?].');
+    expect(clozeToText(front, true)).toBe('The growing good of the world.');
+  });
+});
+
+describe('clozeNumbers', () => {
+  it('lists each number once, in order', () => {
+    expect(clozeNumbers('{{c3::a}} {{c1::b}} {{c3::c}}')).toEqual([1, 3]);
+    expect(clozeNumbers('no deletions')).toEqual([]);
+  });
+});
+
+describe('wrapCloze', () => {
+  it('wraps the trimmed selection in the next free number', () => {
+    const text = 'The growing good of the world';
+    const once = wrapCloze(text, 3, 12);
+    expect(once).toBe('The {{c1::growing}} good of the world');
+    expect(wrapCloze(once, once.indexOf('world'), once.length)).toBe('The {{c1::growing}} good of the {{c2::world}}');
+  });
+
+  it('leaves the text alone for an empty selection or one that is already a deletion', () => {
+    expect(wrapCloze('The world', 3, 4)).toBe('The world');
+    const wrapped = '{{c1::world}}';
+    expect(wrapCloze(wrapped, 0, wrapped.length)).toBe(wrapped);
+  });
+});
+
+describe('isValidDraft', () => {
+  it('needs a deletion for cloze cards and both sides for Q&A', () => {
+    expect(isValidDraft({ kind: 'cloze', front: 'No deletions', back: '' })).toBe(false);
+    expect(isValidDraft({ kind: 'cloze', front: '{{c1::Yes}}', back: '' })).toBe(true);
+    expect(isValidDraft({ kind: 'qa', front: 'Q?', back: ' ' })).toBe(false);
+  });
+});
+
+describe('buildStudyQueue', () => {
+  it('puts due cards first, then unseen cards oldest first', () => {
+    const graded = gradeFlashcard(card('seen'), 'good', new Date(2024, 0, 8));
+    const later = gradeFlashcard(card('later'), 'easy', now);
+    const queue = buildStudyQueue([
+      card('new-later', { createdAt: '2023-06-01T00:00:00.000Z' }),
+      later,
+      graded,
+      card('new-earlier'),
+    ], now);
+    expect(queue.map(c => c.id)).toEqual(['seen', 'new-earlier', 'new-later']);
+    expect(graded.history).toEqual([{ reviewedAt: new Date(2024, 0, 8).toISOString(), grade: 'good' }]);
+  });
+});
@@ -0,0 +1,95 @@
+import { Flashcard, FlashcardDraft, FlashcardGrade, Highlight } from "../types";
+import { FlashcardRepository } from "./libraryRepository";
+import { advanceSchedule, DAY_MS, startOfDay } from "./reviewService";
+
+export interface ClozePart {
+  text: string;
+  /** Set on hidden spans: the cloze number from `{{cN::…}}`. */
+  cloze?: number;
+  hint?: string;
+}
+
+// Anki's cloze syntax: {{c1::answer}} or {{c1::answer::hint}}.
+const CLOZE_PATTERN = /\{\{c(\d+)::(.+?)(?:::(.+?))?\}\}/gs;
+
+// SM-2 answer quality for each button, as in Anki's four-button layout.
+const QUALITY: Record<FlashcardGrade, number> = {
+  again: 1,
+  hard: 3,
+  good: 4,
+  easy: 5,
+};
+
+export const NEW_CARDS_PER_SESSION = 20;
+
+export const parseCloze = (text: string): ClozePart[] => {
+  const parts: ClozePart[] = [];
+  let cursor = 0;
+  for (const match of text.matchAll(CLOZE_PATTERN)) {
+    if (match.index! > cursor) parts.push({ text: text.slice(cursor, match.index) });
+    parts.push({ text: match[2], cloze: Number(match[1]), hint: match[3] });
+    cursor = match.index! + match[0].length;
+  }
+  if (cursor < text.length) parts.push({ text: text.slice(cursor) });
+  return parts;
+};
+
+export const hasCloze = (text: string) => parseCloze(text).some(p => p.cloze !== undefined);
+
+/** The distinct cloze numbers in a card; Anki makes one card per number. */
+export const clozeNumbers = (text: string) =>
+  Array.from(new Set(parseCloze(text).filter(p => p.cloze !== undefined).map(p => p.cloze!))).sort((a, b) => a - b);
+
+/** Card text with the deletions either hidden as `[…]` (or their hint) or filled back in. */
+export const clozeToText = (text: string, reveal: boolean) =>
+  parseCloze(text).map(p => p.cloze === undefined || reveal ? p.text : `[${p.hint || '…'}]`).join('');
+
+/** Wraps `text.slice(start, end)` in the next free cloze number. */
+export const wrapCloze = (text: string, start: number, end: number) => {
+  const selected = text.slice(start, end).trim();
+  if (!selected || hasCloze(selected)) return text;
+  const offset = text.slice(start, end).indexOf(selected);
+  const next = Math.max(0, ...clozeNumbers(text)) + 1;
+  return `${text.slice(0, start + offset)}{{c${next}::${selected}}}${text.slice(start + offset + selected.length)}`;
+};
+
+export const isValidDraft = (draft: FlashcardDraft) =>
+  draft.kind === 'cloze' ? hasCloze(draft.front) : !!draft.front.trim() && !!draft.back.trim();
+
+export const createFlashcard = (highlight: Highlight, draft: FlashcardDraft): Flashcard => ({
+  id: crypto.randomUUID(),
+  highlightId: highlight.id,
+  bookId: highlight.bookId,
+  kind: draft.kind,
+  front: draft.front.trim(),
+  back: draft.back.trim(),
+  createdAt: new Date().toISOString(),
+  history: [],
+});
+
+export const gradeFlashcard = (card: Flashcard, grade: FlashcardGrade, now = new Date()): Flashcard => ({
+  ...card,
+  schedule: advanceSchedule(card.schedule, QUALITY[grade], now),
+  history: [...card.history, { reviewedAt: now.toISOString(), grade }],
+});
+
+export const isCardDue = (card: Flashcard, now = new Date()) =>
+  !card.schedule || new Date(card.schedule.dueAt).getTime() < startOfDay(now).getTime() + DAY_MS;
+
+/** Due cards first (most overdue first), then up to `NEW_CARDS_PER_SESSION` unseen cards, oldest first. */
+export const buildStudyQueue = (cards: Flashcard[], now = new Date()): Flashcard[] => {
+  const due = cards
+    .filter(c => c.schedule && isCardDue(c, now))
+    .sort((a, b) => new Date(a.schedule!.dueAt).getTime() - new Date(b.schedule!.dueAt).getTime());
+  const fresh = cards
+    .filter(c => !c.schedule)
+    .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime())
+    .slice(0, NEW_CARDS_PER_SESSION);
+  return [...due, ...fresh];
+};
+
+export const recordFlashcardGrade = async (card: Flashcard, grade: FlashcardGrade, now = new Date()): Promise<Flashcard> => {
+  const updated = gradeFlashcard(card, grade, now);
+  await FlashcardRepository.put(updated);
+  return updated;
+};
@@ -0,0 +1,61 @@
+import { BoundingBox, ExtractionResult, Highlight } from "../types";
+import { boundingRegion, cropToRegions } from "./highlightRegionService";
+
+/** A passage waiting in the capture sheet to be kept, edited, merged or discarded. */
+export interface HighlightDraft {
+  id: string;
+  text: string;
+  note: string;
+  box?: BoundingBox;
+}
+
+export const emptyDraft = (): HighlightDraft => ({ id: crypto.randomUUID(), text: '', note: '' });
+
+export const draftsFromExtraction = (result: ExtractionResult): HighlightDraft[] =>
+  result.passages.map(passage => ({ ...emptyDraft(), text: passage.text, box: passage.box }));
+
+/** Folds the draft at `index` into the one after it, for a passage the extractor split in two. */
+export const mergeWithNext = (drafts: HighlightDraft[], index: number): HighlightDraft[] => {
+  const [first, second] = [drafts[index], drafts[index + 1]];
+  if (!first || !second) return drafts;
+  const boxes = [first.box, second.box].filter((box): box is BoundingBox => !!box);
+  const merged: HighlightDraft = {
+    id: first.id,
+    text: [first.text.trim(), second.text.trim()].filter(Boolean).join(' '),
+    note: [first.note.trim(), second.note.trim()].filter(Boolean).join('\n'),
+    box: boxes.length === 2 ? boundingRegion(boxes)! : undefined,
+  };
+  return [...drafts.slice(0, index), merged, ...drafts.slice(index + 2)];
+};
+
+// A crop that fails, say because the photo won't decode, keeps the whole photo rather than losing the highlight.
+const cropOrWhole = async (imageSrc: string, box: BoundingBox) => {
+  try {
+    return await cropToRegions(imageSrc, [box]);
+  } catch (e) {
+    console.warn("Cropping failed, using the whole photo", e);
+    return imageSrc;
+  }
+};
+
+/**
+ * Turns the drafts worth keeping into highlights. With a page photo, each highlight
+ * stores the crop around its own passage, or the whole photo when there's no box.
+ */
+export const highlightsFromDrafts = async (
+  drafts: HighlightDraft[],
+  { bookId, pageNumber, imageSrc }: { bookId: string, pageNumber?: number, imageSrc?: string | null }
+): Promise<Highlight[]> => {
+  const now = new Date().toISOString();
+  return Promise.all(drafts.filter(d => d.text.trim()).map(async draft => ({
+    id: crypto.randomUUID(),
+    bookId,
+    text: draft.text.trim(),
+    pageNumber,
+    thoughts: draft.note.trim() ? [{ id: crypto.randomUUID(), text: draft.note.trim(), createdAt: now }] : [],
+    tags: [],
+    createdAt: now,
+    source: 'scanned' as const,
+    imageUrl: imageSrc ? (draft.box ? await cropOrWhole(imageSrc, draft.box) : imageSrc) : undefined,
+  })));
+};
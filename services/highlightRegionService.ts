@@ -0,0 +1,203 @@
+import { BoundingBox } from "../types";
+
+export type Region = BoundingBox;
+
+export interface PixelData {
+  data: Uint8ClampedArray;
+  width: number;
+  height: number;
+}
+
+export const WHOLE_PAGE: Region = { x: 0, y: 0, width: 1, height: 1 };
+
+/** Detection runs on a downscaled copy; marker ink is large and flat, so detail doesn't help. */
+const ANALYSIS_WIDTH = 320;
+const CELL = 4;
+const MIN_CELL_COVERAGE = 0.3;
+/** How far above the paper's own saturation a pixel must be to count as marker ink. */
+const MARKER_SATURATION_MARGIN = 0.15;
+const MIN_MARKER_VALUE = 0.5;
+const MAX_INK_VALUE = 0.4;
+/** An underline is a dark horizontal run at least this share of the width; letters never are. */
+const MIN_UNDERLINE_RUN = 0.12;
+/** Rows below an underline that must be paper again, which rules out shadows and the desk. */
+const UNDERLINE_CLEARANCE = 3;
+/** Height of the text line above an underline, as a share of the image height. */
+const LINE_HEIGHT = 0.035;
+const MIN_REGION_WIDTH = 0.04;
+const MIN_REGION_AREA = 0.002;
+const REGION_PADDING = 0.01;
+
+const clamp = (n: number) => Math.min(1, Math.max(0, n));
+
+const saturationAndValue = (data: Uint8ClampedArray, i: number) => {
+  const max = Math.max(data[i], data[i + 1], data[i + 2]);
+  const min = Math.min(data[i], data[i + 1], data[i + 2]);
+  return { saturation: max === 0 ? 0 : (max - min) / max, value: max / 255 };
+};
+
+const median = (values: number[]) => {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+};
+
+export const padRegion = (region: Region, padding = REGION_PADDING): Region => {
+  const x = clamp(region.x - padding);
+  const y = clamp(region.y - padding);
+  return { x, y, width: clamp(region.x + region.width + padding) - x, height: clamp(region.y + region.height + padding) - y };
+};
+
+export const boundingRegion = (regions: Region[]): Region | null => {
+  if (regions.length === 0) return null;
+  const x = Math.min(...regions.map(r => r.x));
+  const y = Math.min(...regions.map(r => r.y));
+  const right = Math.max(...regions.map(r => r.x + r.width));
+  const bottom = Math.max(...regions.map(r => r.y + r.height));
+  return { x, y, width: right - x, height: bottom - y };
+};
+
+/** Normalises a rectangle dragged between two points in any direction. */
+export const regionBetween = (a: { x: number, y: number }, b: { x: number, y: number }): Region => ({
+  x: clamp(Math.min(a.x, b.x)),
+  y: clamp(Math.min(a.y, b.y)),
+  width: Math.abs(clamp(b.x) - clamp(a.x)),
+  height: Math.abs(clamp(b.y) - clamp(a.y)),
+});
+
+/**
+ * Finds highlighter strokes and underlines. Marker ink is any colour clearly more
+ * saturated than the paper, which copes with warm lamplight turning the page yellow;
+ * underlines are long dark horizontal runs, and select the line of text above them.
+ * Neighbouring marks merge, so a passage marked over several lines comes back as one region.
+ */
+export const detectMarkedRegions = ({ data, width, height }: PixelData): Region[] => {
+  const cols = Math.ceil(width / CELL);
+  const rows = Math.ceil(height / CELL);
+  const counts = new Uint16Array(cols * rows);
+  const marked = new Uint8Array(cols * rows);
+
+  const paperSaturations: number[] = [];
+  for (let i = 0; i < data.length; i += 4 * 16) {
+    const { saturation, value } = saturationAndValue(data, i);
+    if (value > MIN_MARKER_VALUE) paperSaturations.push(saturation);
+  }
+  const markerSaturation = median(paperSaturations) + MARKER_SATURATION_MARGIN;
+
+  const isUnderline = (y: number, start: number, end: number) => {
+    if (start === 0 || end >= width || end - start < width * MIN_UNDERLINE_RUN) return false;
+    const below = y + UNDERLINE_CLEARANCE;
+    if (below >= height) return false;
+    return [0.25, 0.5, 0.75].every(t => saturationAndValue(data, (below * width + Math.floor(start + (end - start) * t)) * 4).value > MAX_INK_VALUE);
+  };
+
+  for (let y = 0; y < height; y++) {
+    let run = 0;
+    for (let x = 0; x <= width; x++) {
+      const i = (y * width + x) * 4;
+      const pixel = x < width ? saturationAndValue(data, i) : null;
+      if (pixel && pixel.saturation >= markerSaturation && pixel.value >= MIN_MARKER_VALUE) {
+        counts[Math.floor(y / CELL) * cols + Math.floor(x / CELL)]++;
+      }
+      if (pixel && pixel.value <= MAX_INK_VALUE) {
+        run++;
+        continue;
+      }
+      if (run > 0 && isUnderline(y, x - run, x)) {
+        const top = Math.max(0, Math.floor((y - height * LINE_HEIGHT) / CELL));
+        for (let row = top; row <= Math.floor(y / CELL); row++) {
+          for (let col = Math.floor((x - run) / CELL); col < Math.ceil(x / CELL); col++) marked[row * cols + col] = 1;
+        }
+      }
+      run = 0;
+    }
+  }
+  counts.forEach((count, cell) => { if (count >= CELL * CELL * MIN_CELL_COVERAGE) marked[cell] = 1; });
+
+  // Bridge the gaps between words and between consecutive marked lines.
+  const bridged = new Uint8Array(marked);
+  marked.forEach((isMarked, cell) => {
+    if (!isMarked) return;
+    const row = Math.floor(cell / cols);
+    const col = cell % cols;
+    for (let dy = -1; dy <= 1; dy++) {
+      for (let dx = -3; dx <= 3; dx++) {
+        const r = row + dy, c = col + dx;
+        if (r >= 0 && r < rows && c >= 0 && c < cols) bridged[r * cols + c] = 1;
+      }
+    }
+  });
+
+  const seen = new Uint8Array(cols * rows);
+  const regions: Region[] = [];
+  bridged.forEach((isMarked, start) => {
+    if (!isMarked || seen[start]) return;
+    let minCol = cols, maxCol = 0, minRow = rows, maxRow = 0;
+    const stack = [start];
+    seen[start] = 1;
+    while (stack.length) {
+      const cell = stack.pop()!;
+      const row = Math.floor(cell / cols);
+      const col = cell % cols;
+      minCol = Math.min(minCol, col); maxCol = Math.max(maxCol, col);
+      minRow = Math.min(minRow, row); maxRow = Math.max(maxRow, row);
+      [[0, 1], [0, -1], [1, 0], [-1, 0]].forEach(([dy, dx]) => {
+        const r = row + dy, c = col + dx;
+        const next = r * cols + c;
+        if (r >= 0 && r < rows && c >= 0 && c < cols && bridged[next] && !seen[next]) {
+          seen[next] = 1;
+          stack.push(next);
+        }
+      });
+    }
+    const region = {
+      x: (minCol * CELL) / width,
+      y: (minRow * CELL) / height,
+      width: Math.min(1, ((maxCol + 1) * CELL) / width) - (minCol * CELL) / width,
+      height: Math.min(1, ((maxRow + 1) * CELL) / height) - (minRow * CELL) / height,
+    };
+    if (region.width >= MIN_REGION_WIDTH && region.width * region.height >= MIN_REGION_AREA) regions.push(padRegion(region));
+  });
+  return regions.sort((a, b) => a.y - b.y);
+};
+
+export const loadImage = (src: string) => new Promise<HTMLImageElement>((resolve, reject) => {
+  const image = new Image();
+  image.onload = () => resolve(image);
+  image.onerror = () => reject(new Error("Could not load the captured image"));
+  image.src = src;
+});
+
+export const detectMarkedRegionsInImage = async (src: string): Promise<Region[]> => {
+  const image = await loadImage(src);
+  const scale = Math.min(1, ANALYSIS_WIDTH / image.naturalWidth);
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(image.naturalWidth * scale));
+  canvas.height = Math.max(1, Math.round(image.naturalHeight * scale));
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) return [];
+  ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+  return detectMarkedRegions(ctx.getImageData(0, 0, canvas.width, canvas.height));
+};
+
+/**
+ * Crops the image to the selected regions. With several regions, whatever lies
+ * between them is whited out so OCR and the model only see the chosen lines.
+ */
+export const cropToRegions = async (src: string, regions: Region[], quality = 0.85): Promise<string> => {
+  const bounds = boundingRegion(regions);
+  if (!bounds || bounds.width === 0 || bounds.height === 0) return src;
+  const image = await loadImage(src);
+  const w = image.naturalWidth, h = image.naturalHeight;
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(bounds.width * w));
+  canvas.height = Math.max(1, Math.round(bounds.height * h));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return src;
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  regions.forEach(r => {
+    ctx.drawImage(image, r.x * w, r.y * h, r.width * w, r.height * h, (r.x - bounds.x) * w, (r.y - bounds.y) * h, r.width * w, r.height * h);
+  });
+  return canvas.toDataURL('image/jpeg', quality);
+};
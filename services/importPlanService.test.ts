@@ -0,0 +1,94 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { Book, Highlight } from '../types';
+import { ImportedBookData } from './ebookImportService';
+import { buildImportPlan, matchBook } from './importPlanService';
+
+const library = vi.hoisted(() => ({ books: [] as Book[], highlights: [] as Highlight[] }));
+vi.mock('./libraryRepository', () => ({
+  BookRepository: { getAll: async () => library.books },
+  HighlightRepository: { getAll: async () => library.highlights },
+}));
+
+const book = (id: string, title: string, author: string, fields: Partial<Book> = {}): Book =>
+  ({ id, title, author, coverUrl: '', totalHighlights: 0, ...fields });
+
+const highlight = (id: string, text: string, fields: Partial<Highlight> = {}): Highlight =>
+  ({ id, bookId: 'b1', text, thoughts: [], tags: [], createdAt: '2021-05-03T00:00:00.000Z', source: 'digital', ...fields });
+
+const middlemarch = book('b1', 'Middlemarch', 'George Eliot', { isbn13: '9780141439549', isbn10: '0141439548' });
+
+const importing = (...highlights: ImportedBookData['highlights']): ImportedBookData[] =>
+  [{ title: 'Middlemarch', author: 'George Eliot', highlights }];
+
+const statuses = async (data: ImportedBookData[], threshold = 0.85) =>
+  (await buildImportPlan(data, threshold)).books[0].highlights.map(h => h.status);
+
+beforeEach(() => {
+  library.books = [middlemarch];
+  library.highlights = [highlight('h1', 'the heart of the matter is the growing good of the world')];
+});
+
+describe('matchBook', () => {
+  it('matches on ISBN before title', () => {
+    const other = book('b2', 'Middlemarch', 'George Eliot');
+    expect(matchBook({ title: 'A Study of Provincial Life', author: 'Anon', isbn: '0-14-143954-8' }, [other, middlemarch])).toBe(middlemarch);
+  });
+
+  it('matches the main title by a compatible author', () => {
+    expect(matchBook({ title: 'Middlemarch: A Study of Provincial Life', author: 'Eliot, George' }, [middlemarch])).toBe(middlemarch);
+    expect(matchBook({ title: 'Middlemarch', author: 'Unknown' }, [middlemarch])).toBe(middlemarch);
+    expect(matchBook({ title: 'Middlemarch', author: 'Someone Else' }, [middlemarch])).toBeNull();
+  });
+});
+
+describe('buildImportPlan', () => {
+  it('marks whole-word fragments of a highlight as duplicates, but not stray letters or short phrases', async () => {
+    expect(await statuses(importing(
+      { text: 'The growing good of the world.' },
+      { text: 'art' },
+      { text: 'the heart' },
+      { text: 'owing good of the wor' },
+    ))).toEqual(['duplicate', 'new', 'new', 'new']);
+  });
+
+  it('updates a highlight that an incoming passage extends, keeping short ones apart', async () => {
+    library.highlights = [highlight('h1', 'the growing good of the world'), highlight('h2', 'good world')];
+    const plan = await buildImportPlan(importing({ text: 'For the growing good of the world is partly dependent on unhistoric acts' }), 0.85);
+    expect(plan.books[0].highlights[0]).toMatchObject({ status: 'updated', match: { id: 'h1' }, keepText: false });
+  });
+
+  it('never matches text with no words in it', async () => {
+    library.highlights = [highlight('h1', '…')];
+    expect(await statuses(importing({ text: '—' }), 0)).toEqual(['new']);
+  });
+
+  it('applies the similarity threshold, with the newer text winning', async () => {
+    const edited = { text: 'the heart of the matter is the growing good of this world', createdAt: '2022-01-01T00:00:00.000Z' };
+    expect(await statuses(importing(edited), 0.85)).toEqual(['updated']);
+    expect(await statuses(importing({ ...edited, createdAt: '2020-01-01T00:00:00.000Z' }), 0.85)).toEqual(['duplicate']);
+    expect(await statuses(importing(edited), 0.99)).toEqual(['new']);
+  });
+
+  it('adds notes to a duplicate without replacing its text', async () => {
+    const plan = await buildImportPlan(importing({ text: 'The growing good of the world', notes: ['Eliot at her best'] }), 0.85);
+    expect(plan.books[0].highlights[0]).toMatchObject({ status: 'updated', keepText: true });
+  });
+
+  it('folds later revisions of a new highlight into the first', async () => {
+    library.highlights = [];
+    const plan = await buildImportPlan(importing(
+      { text: 'unhistoric acts of kindness', notes: ['first'] },
+      { text: 'unhistoric acts of kindness and love', notes: ['second'] },
+    ), 0.85);
+    const [first, revision] = plan.books[0].highlights;
+    expect(first.status).toBe('new');
+    expect(first.incoming).toMatchObject({ text: 'unhistoric acts of kindness and love', notes: ['first', 'second'] });
+    expect(revision.status).toBe('duplicate');
+  });
+
+  it('creates a new book for one the library does not have', async () => {
+    const plan = await buildImportPlan([{ title: 'Daniel Deronda', author: 'George Eliot', highlights: [{ text: 'the heart of the matter' }] }], 0.85);
+    expect(plan.books[0].match).toBeNull();
+    expect(plan.books[0].highlights[0].status).toBe('new');
+  });
+});
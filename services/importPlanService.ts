@@ -0,0 +1,309 @@
+import { Book, Highlight, Thought } from "../types";
+import { ImportedBookData, ImportedHighlight } from "./ebookImportService";
+import { BookRepository, HighlightRepository } from "./libraryRepository";
+import { normalizeIsbn, placeholderCover, searchForBook, splitIsbn } from "./metadataService";
+import { normalizeTag } from "./tagService";
+
+export const DEFAULT_SIMILARITY_THRESHOLD = 0.85;
+const STORAGE_KEY_THRESHOLD = 'lumina_import_similarity_threshold';
+
+export type ImportStatus = 'new' | 'updated' | 'duplicate';
+
+export interface PlannedHighlight {
+  key: string;
+  incoming: ImportedHighlight;
+  status: ImportStatus;
+  /** The library highlight this entry updates or duplicates. Absent for duplicates within the same file. */
+  match?: Highlight;
+  similarity?: number;
+  /** On updates: the library text already contains the passage, so only notes and tags are added. */
+  keepText?: boolean;
+}
+
+export interface PlannedBook {
+  key: string;
+  imported: ImportedBookData;
+  /** Existing library book the highlights will be added to; null creates a new book. */
+  match: Book | null;
+  highlights: PlannedHighlight[];
+}
+
+export interface ImportPlan {
+  threshold: number;
+  books: PlannedBook[];
+}
+
+export interface ImportResult {
+  totalBooksProcessed: number;
+  totalHighlightsAdded: number;
+  totalHighlightsUpdated: number;
+  updates: { title: string; newCount: number; updatedCount: number }[];
+}
+
+export const getSimilarityThreshold = (): number => {
+  const stored = Number(localStorage.getItem(STORAGE_KEY_THRESHOLD));
+  return stored > 0 && stored <= 1 ? stored : DEFAULT_SIMILARITY_THRESHOLD;
+};
+
+export const setSimilarityThreshold = (value: number) => {
+  localStorage.setItem(STORAGE_KEY_THRESHOLD, String(value));
+};
+
+/** Lowercases and strips punctuation, quotes and repeated whitespace so re-synced text compares equal. */
+export const normalizeText = (text: string) =>
+  text
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/\p{M}/gu, '')
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+/** Dice coefficient over the word sets of two normalized strings (0 = disjoint, 1 = same words). */
+export const textSimilarity = (a: string, b: string) => {
+  const wordsA = new Set(a.split(' ').filter(Boolean));
+  const wordsB = new Set(b.split(' ').filter(Boolean));
+  if (wordsA.size === 0 && wordsB.size === 0) return 1;
+  let shared = 0;
+  wordsA.forEach(w => { if (wordsB.has(w)) shared++; });
+  return (2 * shared) / (wordsA.size + wordsB.size);
+};
+
+// Ebook exports usually carry the full "Title: Subtitle" while catalogue lookups often
+// store only the main title, so compare on the part before any subtitle separator.
+const mainTitle = (title: string) => normalizeText(title.split(/[:(\[]/)[0]);
+
+const authorTokens = (author: string) =>
+  new Set(normalizeText(author).split(' ').filter(t => t.length > 1 && t !== 'unknown' && t !== 'author'));
+
+const authorsCompatible = (a: string, b: string) => {
+  const tokensA = authorTokens(a);
+  const tokensB = authorTokens(b);
+  if (tokensA.size === 0 || tokensB.size === 0) return true;
+  return Array.from(tokensA).some(t => tokensB.has(t));
+};
+
+/**
+ * Finds the library book an imported book belongs to: same ISBN, or same main title
+ * by a compatible author. Two different "Essays" by different authors stay separate.
+ */
+export const matchBook = (imported: { title: string; author: string; isbn?: string }, books: Book[]): Book | null => {
+  const { isbn10, isbn13 } = imported.isbn ? splitIsbn(imported.isbn) : {};
+  if (isbn10 || isbn13) {
+    const byIsbn = books.find(b => (isbn13 && b.isbn13 === isbn13) || (isbn10 && b.isbn10 === isbn10));
+    if (byIsbn) return byIsbn;
+  }
+  const title = mainTitle(imported.title);
+  return books.find(b => mainTitle(b.title) === title && authorsCompatible(b.author, imported.author)) || null;
+};
+
+// Fragments shorter than this are too common to count as part of another highlight:
+// "the art" appears in plenty of passages it has nothing to do with.
+const MIN_CONTAINED_WORDS = 3;
+
+const wordCount = (normalized: string) => (normalized ? normalized.split(' ').length : 0);
+
+/** Whether `longer` holds `shorter` as a run of whole words, with `shorter` long enough to mean it. */
+const containsPassage = (longer: string, shorter: string) =>
+  wordCount(shorter) >= MIN_CONTAINED_WORDS && ` ${longer} `.includes(` ${shorter} `);
+
+interface Candidate {
+  normalized: string;
+  createdAt?: string;
+  existing?: Highlight;
+  planned?: PlannedHighlight;
+}
+
+const isNewer = (incoming?: string, existing?: string) =>
+  !incoming || !existing || new Date(incoming).getTime() >= new Date(existing).getTime();
+
+const hasNewNotes = (incoming: ImportedHighlight, existing: Highlight) => {
+  const known = new Set(existing.thoughts.map(t => normalizeText(t.text)));
+  return (incoming.notes || []).some(n => !known.has(normalizeText(n)));
+};
+
+/**
+ * Compares one incoming highlight with what the book already has.
+ * - Same text, or a run of at least MIN_CONTAINED_WORDS words from an existing highlight: duplicate.
+ * - Text that extends an existing highlight, or is at least `threshold` similar and newer: updated.
+ * - Anything else, including text with no words to compare: new.
+ */
+const classify = (incoming: ImportedHighlight, candidates: Candidate[], threshold: number) => {
+  const normalized = normalizeText(incoming.text);
+  let best: { candidate: Candidate; similarity: number; status: ImportStatus } | null = null;
+  if (!normalized) return best;
+
+  for (const candidate of candidates) {
+    if (!candidate.normalized) continue;
+    let status: ImportStatus | null = null;
+    let similarity = 1;
+    if (candidate.normalized === normalized || containsPassage(candidate.normalized, normalized)) {
+      status = 'duplicate';
+    } else if (containsPassage(normalized, candidate.normalized)) {
+      status = 'updated';
+      similarity = candidate.normalized.length / normalized.length;
+    } else {
+      similarity = textSimilarity(normalized, candidate.normalized);
+      if (similarity >= threshold) {
+        status = isNewer(incoming.createdAt, candidate.createdAt) ? 'updated' : 'duplicate';
+      }
+    }
+    if (status && (!best || similarity > best.similarity)) {
+      best = { candidate, similarity, status };
+    }
+  }
+  return best;
+};
+
+/**
+ * Matches parsed books and highlights against the library without writing anything,
+ * so the result can be previewed and adjusted before `applyImportPlan`.
+ * `bookOverrides` maps a planned book's key to the library book id the user chose
+ * for it, or null to force a new book, replacing automatic book matching.
+ */
+export const buildImportPlan = async (
+  importedBooks: ImportedBookData[],
+  threshold: number = getSimilarityThreshold(),
+  bookOverrides: Record<string, string | null> = {}
+): Promise<ImportPlan> => {
+  const [books, allHighlights] = await Promise.all([BookRepository.getAll(), HighlightRepository.getAll()]);
+  const highlightsByBook = new Map<string, Highlight[]>();
+  allHighlights.forEach(h => {
+    if (!highlightsByBook.has(h.bookId)) highlightsByBook.set(h.bookId, []);
+    highlightsByBook.get(h.bookId)!.push(h);
+  });
+
+  const plannedBooks: PlannedBook[] = importedBooks.map((imported, bookIndex) => {
+    const key = String(bookIndex);
+    const match = key in bookOverrides
+      ? books.find(b => b.id === bookOverrides[key]) || null
+      : matchBook(imported, books);
+    const candidates: Candidate[] = (match ? highlightsByBook.get(match.id) || [] : []).map(h => ({
+      normalized: normalizeText(h.text),
+      createdAt: h.createdAt,
+      existing: h,
+    }));
+
+    const highlights: PlannedHighlight[] = [];
+    imported.highlights.forEach((incoming, index) => {
+      const highlightKey = `${key}:${index}`;
+      const best = classify(incoming, candidates, threshold);
+
+      if (!best) {
+        const planned: PlannedHighlight = { key: highlightKey, incoming, status: 'new' };
+        highlights.push(planned);
+        candidates.push({ normalized: normalizeText(incoming.text), createdAt: incoming.createdAt, planned });
+        return;
+      }
+
+      const { candidate, similarity, status } = best;
+      if (candidate.planned) {
+        // Kindle keeps every revision of an edited highlight; fold later revisions into the first.
+        if (status === 'updated') {
+          candidate.planned.incoming = {
+            ...incoming,
+            notes: [...(candidate.planned.incoming.notes || []), ...(incoming.notes || [])],
+          };
+          candidate.normalized = normalizeText(incoming.text);
+        }
+        highlights.push({ key: highlightKey, incoming, status: 'duplicate', similarity });
+        return;
+      }
+
+      const existing = candidate.existing!;
+      const finalStatus = status === 'duplicate' && hasNewNotes(incoming, existing) ? 'updated' : status;
+      const normalized = normalizeText(incoming.text);
+      const keepText = finalStatus === 'updated' && (candidate.normalized === normalized || containsPassage(candidate.normalized, normalized));
+      highlights.push({ key: highlightKey, incoming, status: finalStatus, match: existing, similarity, keepText });
+    });
+
+    return { key, imported, match, highlights };
+  });
+
+  return { threshold, books: plannedBooks };
+};
+
+const mergeNotes = (thoughts: Thought[], notes: string[] | undefined, createdAt: string): Thought[] => {
+  const known = new Set(thoughts.map(t => normalizeText(t.text)));
+  const added = (notes || [])
+    .filter(n => !known.has(normalizeText(n)))
+    .map(text => ({ id: crypto.randomUUID(), text, createdAt }));
+  return [...thoughts, ...added];
+};
+
+const mergeTags = (tags: string[], incoming: string[] | undefined) =>
+  Array.from(new Set([...tags, ...(incoming || []).map(normalizeTag)])).filter(Boolean);
+
+/**
+ * Commits a (possibly user-adjusted) plan. New books are looked up for cover art first;
+ * updated highlights keep their id and thoughts but take the newer text.
+ */
+export const applyImportPlan = async (plan: ImportPlan): Promise<ImportResult> => {
+  const booksToWrite = new Map<string, Book>();
+  const highlightsToWrite: Highlight[] = [];
+  const result: ImportResult = { totalBooksProcessed: plan.books.length, totalHighlightsAdded: 0, totalHighlightsUpdated: 0, updates: [] };
+
+  for (const planned of plan.books) {
+    const toAdd = planned.highlights.filter(h => h.status === 'new');
+    const toUpdate = planned.highlights.filter(h => h.status === 'updated' && h.match);
+    if (toAdd.length === 0 && toUpdate.length === 0) continue;
+
+    let book = planned.match ? booksToWrite.get(planned.match.id) || { ...planned.match } : null;
+    if (!book) {
+      const { title, author, isbn } = planned.imported;
+      const meta = await searchForBook({ isbn: isbn && normalizeIsbn(isbn), title, author });
+      book = meta || { id: crypto.randomUUID(), title, author, authors: [author], ...(isbn ? splitIsbn(isbn) : {}), coverUrl: placeholderCover(title), totalHighlights: 0 };
+      book.createdAt = new Date().toISOString();
+    }
+    const bookId = book.id;
+
+    toAdd.forEach(({ incoming }) => {
+      const createdAt = incoming.createdAt || new Date().toISOString();
+      highlightsToWrite.push({
+        id: crypto.randomUUID(),
+        bookId,
+        text: incoming.text,
+        pageNumber: incoming.page ? parseInt(incoming.page) : undefined,
+        location: incoming.location,
+        thoughts: mergeNotes([], incoming.notes, createdAt),
+        tags: mergeTags([], incoming.tags),
+        createdAt,
+        source: 'digital',
+      });
+    });
+
+    toUpdate.forEach(({ incoming, match, keepText }) => {
+      const createdAt = incoming.createdAt || new Date().toISOString();
+      highlightsToWrite.push({
+        ...match!,
+        text: keepText ? match!.text : incoming.text,
+        pageNumber: match!.pageNumber ?? (incoming.page ? parseInt(incoming.page) : undefined),
+        location: match!.location ?? incoming.location,
+        thoughts: mergeNotes(match!.thoughts, incoming.notes, createdAt),
+        tags: mergeTags(match!.tags, incoming.tags),
+      });
+    });
+
+    book.totalHighlights += toAdd.length;
+    booksToWrite.set(bookId, book);
+    result.totalHighlightsAdded += toAdd.length;
+    result.totalHighlightsUpdated += toUpdate.length;
+    result.updates.push({ title: book.title, newCount: toAdd.length, updatedCount: toUpdate.length });
+  }
+
+  await BookRepository.putMany(Array.from(booksToWrite.values()));
+  await HighlightRepository.putMany(highlightsToWrite);
+  return result;
+};
+
+/** Drops the highlights the user deselected in the preview. */
+export const withoutExcluded = (plan: ImportPlan, excludedKeys: Set<string>): ImportPlan => ({
+  ...plan,
+  books: plan.books.map(book => ({ ...book, highlights: book.highlights.filter(h => !excludedKeys.has(h.key)) })),
+});
+
+export const countByStatus = (plan: ImportPlan) => {
+  const counts: Record<ImportStatus, number> = { new: 0, updated: 0, duplicate: 0 };
+  plan.books.forEach(b => b.highlights.forEach(h => { counts[h.status]++; }));
+  return counts;
+};
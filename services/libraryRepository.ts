@@ -0,0 +1,440 @@
+import { Book, Conversation, Flashcard, Highlight, Shelf } from "../types";
+import { migrateBook, migrateHighlight, migrateReadable, toPersisted } from "./schemaMigrations";
+
+const DB_NAME = 'lumina';
+const DB_VERSION = 5;
+const STORE_BOOKS = 'books';
+const STORE_HIGHLIGHTS = 'highlights';
+const STORE_SHELVES = 'shelves';
+const STORE_EMBEDDINGS = 'embeddings';
+const STORE_FLASHCARDS = 'flashcards';
+const STORE_CONVERSATIONS = 'conversations';
+
+// Keys used by the original localStorage implementation. Read once and removed.
+const LEGACY_KEY_BOOKS = 'lumina_books';
+const LEGACY_KEY_HIGHLIGHTS = 'lumina_highlights';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+const byCreatedAtDesc = <T extends { createdAt?: string }>(a: T, b: T) =>
+  new Date(b.createdAt || 0).getTime() - new Date(a.createdAt || 0).getTime();
+
+/**
+ * Moves any library still stored under the legacy localStorage keys into IndexedDB.
+ * Books are given descending `createdAt` stamps so their existing order survives.
+ */
+const migrateLegacyStorage = async (db: IDBDatabase) => {
+  const storedBooks = localStorage.getItem(LEGACY_KEY_BOOKS);
+  const storedHighlights = localStorage.getItem(LEGACY_KEY_HIGHLIGHTS);
+  if (storedBooks === null && storedHighlights === null) return;
+
+  const books: Book[] = storedBooks ? JSON.parse(storedBooks) : [];
+  const highlights: Highlight[] = storedHighlights ? JSON.parse(storedHighlights) : [];
+  const now = Date.now();
+
+  const tx = db.transaction([STORE_BOOKS, STORE_HIGHLIGHTS], 'readwrite');
+  const bookStore = tx.objectStore(STORE_BOOKS);
+  const highlightStore = tx.objectStore(STORE_HIGHLIGHTS);
+  books.forEach((book, index) => {
+    const stamped = { ...book, createdAt: book.createdAt || new Date(now - index).toISOString() };
+    bookStore.put(toPersisted(migrateBook(stamped)));
+  });
+  highlights.forEach(h => highlightStore.put(toPersisted(migrateHighlight(h))));
+  await transactionDone(tx);
+
+  localStorage.removeItem(LEGACY_KEY_BOOKS);
+  localStorage.removeItem(LEGACY_KEY_HIGHLIGHTS);
+};
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORE_BOOKS)) {
+          db.createObjectStore(STORE_BOOKS, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(STORE_HIGHLIGHTS)) {
+          const highlights = db.createObjectStore(STORE_HIGHLIGHTS, { keyPath: 'id' });
+          highlights.createIndex('bookId', 'bookId', { unique: false });
+          highlights.createIndex('createdAt', 'createdAt', { unique: false });
+        }
+        if (!db.objectStoreNames.contains(STORE_SHELVES)) {
+          db.createObjectStore(STORE_SHELVES, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(STORE_EMBEDDINGS)) {
+          db.createObjectStore(STORE_EMBEDDINGS, { keyPath: 'highlightId' });
+        }
+        if (!db.objectStoreNames.contains(STORE_FLASHCARDS)) {
+          const flashcards = db.createObjectStore(STORE_FLASHCARDS, { keyPath: 'id' });
+          flashcards.createIndex('highlightId', 'highlightId', { unique: false });
+          flashcards.createIndex('bookId', 'bookId', { unique: false });
+        }
+        if (!db.objectStoreNames.contains(STORE_CONVERSATIONS)) {
+          db.createObjectStore(STORE_CONVERSATIONS, { keyPath: 'scopeId' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    }).then(async db => {
+      await migrateLegacyStorage(db);
+      return db;
+    });
+  }
+  return dbPromise;
+};
+
+const withStore = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  fn: (store: IDBObjectStore) => IDBRequest<T> | void
+): Promise<T | undefined> => {
+  const db = await openDatabase();
+  const tx = db.transaction(storeName, mode);
+  const request = fn(tx.objectStore(storeName));
+  const result = request ? await requestToPromise(request) : undefined;
+  await transactionDone(tx);
+  return result;
+};
+
+export interface BookRepositoryApi {
+  getAll(): Promise<Book[]>;
+  get(id: string): Promise<Book | undefined>;
+  put(book: Book): Promise<void>;
+  putMany(books: Book[]): Promise<void>;
+  delete(id: string): Promise<void>;
+  clear(): Promise<void>;
+}
+
+export interface HighlightRepositoryApi {
+  getAll(): Promise<Highlight[]>;
+  getByBook(bookId: string): Promise<Highlight[]>;
+  put(highlight: Highlight): Promise<void>;
+  putMany(highlights: Highlight[]): Promise<void>;
+  delete(id: string): Promise<void>;
+  deleteByBook(bookId: string): Promise<void>;
+  clear(): Promise<void>;
+}
+
+export interface ShelfRepositoryApi {
+  getAll(): Promise<Shelf[]>;
+  put(shelf: Shelf): Promise<void>;
+  putMany(shelves: Shelf[]): Promise<void>;
+  delete(id: string): Promise<void>;
+  clear(): Promise<void>;
+}
+
+/** A cached embedding. Derived data: not versioned, not backed up, rebuilt when stale. */
+export interface StoredEmbedding {
+  highlightId: string;
+  /** Embedder id plus the embedded text, so edits and model changes invalidate the vector. */
+  signature: string;
+  vector: number[];
+}
+
+export interface EmbeddingRepositoryApi {
+  getAll(): Promise<StoredEmbedding[]>;
+  putMany(embeddings: StoredEmbedding[]): Promise<void>;
+  deleteMany(highlightIds: string[]): Promise<void>;
+  clear(): Promise<void>;
+}
+
+export interface FlashcardRepositoryApi {
+  getAll(): Promise<Flashcard[]>;
+  getByBook(bookId: string): Promise<Flashcard[]>;
+  getByHighlight(highlightId: string): Promise<Flashcard[]>;
+  put(card: Flashcard): Promise<void>;
+  putMany(cards: Flashcard[]): Promise<void>;
+  delete(id: string): Promise<void>;
+  clear(): Promise<void>;
+}
+
+export interface ConversationRepositoryApi {
+  getAll(): Promise<Conversation[]>;
+  get(scopeId: string): Promise<Conversation | undefined>;
+  put(conversation: Conversation): Promise<void>;
+  delete(scopeId: string): Promise<void>;
+  clear(): Promise<void>;
+}
+
+// Deletes every record in `storeName` whose `indexName` equals `value`, inside an open transaction.
+const deleteByIndex = async (tx: IDBTransaction, storeName: string, indexName: string, value: string) => {
+  const store = tx.objectStore(storeName);
+  const keys = await requestToPromise(store.index(indexName).getAllKeys(IDBKeyRange.only(value)));
+  keys.forEach(key => store.delete(key));
+};
+
+export const BookRepository: BookRepositoryApi = {
+  async getAll() {
+    const books = await withStore<any[]>(STORE_BOOKS, 'readonly', store => store.getAll());
+    return migrateReadable(books || [], migrateBook).sort(byCreatedAtDesc);
+  },
+
+  async get(id) {
+    const book = await withStore<any>(STORE_BOOKS, 'readonly', store => store.get(id));
+    return book ? migrateReadable([book], migrateBook)[0] : undefined;
+  },
+
+  async put(book) {
+    await withStore(STORE_BOOKS, 'readwrite', store => {
+      store.put(toPersisted({ ...book, createdAt: book.createdAt || new Date().toISOString() }));
+    });
+  },
+
+  async putMany(books) {
+    await withStore(STORE_BOOKS, 'readwrite', store => {
+      books.forEach(book => store.put(toPersisted({ ...book, createdAt: book.createdAt || new Date().toISOString() })));
+    });
+  },
+
+  /** Removes the book together with its highlights, flashcards and chat history. */
+  async delete(id) {
+    const db = await openDatabase();
+    const tx = db.transaction([STORE_BOOKS, STORE_HIGHLIGHTS, STORE_FLASHCARDS, STORE_CONVERSATIONS], 'readwrite');
+    tx.objectStore(STORE_BOOKS).delete(id);
+    tx.objectStore(STORE_CONVERSATIONS).delete(id);
+    await deleteByIndex(tx, STORE_HIGHLIGHTS, 'bookId', id);
+    await deleteByIndex(tx, STORE_FLASHCARDS, 'bookId', id);
+    await transactionDone(tx);
+  },
+
+  async clear() {
+    await withStore(STORE_BOOKS, 'readwrite', store => {
+      store.clear();
+    });
+  },
+};
+
+export const HighlightRepository: HighlightRepositoryApi = {
+  async getAll() {
+    const highlights = await withStore<any[]>(STORE_HIGHLIGHTS, 'readonly', store =>
+      store.index('createdAt').getAll()
+    );
+    return migrateReadable(highlights || [], migrateHighlight).reverse();
+  },
+
+  async getByBook(bookId) {
+    const highlights = await withStore<any[]>(STORE_HIGHLIGHTS, 'readonly', store =>
+      store.index('bookId').getAll(IDBKeyRange.only(bookId))
+    );
+    return migrateReadable(highlights || [], migrateHighlight).sort(byCreatedAtDesc);
+  },
+
+  async put(highlight) {
+    await withStore(STORE_HIGHLIGHTS, 'readwrite', store => {
+      store.put(toPersisted(highlight));
+    });
+  },
+
+  async putMany(highlights) {
+    await withStore(STORE_HIGHLIGHTS, 'readwrite', store => {
+      highlights.forEach(h => store.put(toPersisted(h)));
+    });
+  },
+
+  /** Removes the highlight and any flashcards made from it. */
+  async delete(id) {
+    const db = await openDatabase();
+    const tx = db.transaction([STORE_HIGHLIGHTS, STORE_FLASHCARDS], 'readwrite');
+    tx.objectStore(STORE_HIGHLIGHTS).delete(id);
+    await deleteByIndex(tx, STORE_FLASHCARDS, 'highlightId', id);
+    await transactionDone(tx);
+  },
+
+  async deleteByBook(bookId) {
+    const db = await openDatabase();
+    const tx = db.transaction([STORE_HIGHLIGHTS, STORE_FLASHCARDS], 'readwrite');
+    await deleteByIndex(tx, STORE_HIGHLIGHTS, 'bookId', bookId);
+    await deleteByIndex(tx, STORE_FLASHCARDS, 'bookId', bookId);
+    await transactionDone(tx);
+  },
+
+  async clear() {
+    await withStore(STORE_HIGHLIGHTS, 'readwrite', store => {
+      store.clear();
+    });
+  },
+};
+
+export const ShelfRepository: ShelfRepositoryApi = {
+  async getAll() {
+    const shelves = await withStore<Shelf[]>(STORE_SHELVES, 'readonly', store => store.getAll());
+    return (shelves || []).sort((a, b) => a.name.localeCompare(b.name));
+  },
+
+  async put(shelf) {
+    await withStore(STORE_SHELVES, 'readwrite', store => {
+      store.put(shelf);
+    });
+  },
+
+  async putMany(shelves) {
+    await withStore(STORE_SHELVES, 'readwrite', store => {
+      shelves.forEach(shelf => store.put(shelf));
+    });
+  },
+
+  /** Removes the shelf and takes it off every book that was on it; the books themselves stay. */
+  async delete(id) {
+    const db = await openDatabase();
+    const tx = db.transaction([STORE_SHELVES, STORE_BOOKS], 'readwrite');
+    tx.objectStore(STORE_SHELVES).delete(id);
+    const bookStore = tx.objectStore(STORE_BOOKS);
+    const books = await requestToPromise<any[]>(bookStore.getAll());
+    migrateReadable(books, migrateBook)
+      .filter(book => book.shelfIds?.includes(id))
+      .forEach(book => bookStore.put(toPersisted({ ...book, shelfIds: book.shelfIds!.filter(s => s !== id) })));
+    await transactionDone(tx);
+  },
+
+  async clear() {
+    await withStore(STORE_SHELVES, 'readwrite', store => {
+      store.clear();
+    });
+  },
+};
+
+export const EmbeddingRepository: EmbeddingRepositoryApi = {
+  async getAll() {
+    return (await withStore<StoredEmbedding[]>(STORE_EMBEDDINGS, 'readonly', store => store.getAll())) || [];
+  },
+
+  async putMany(embeddings) {
+    await withStore(STORE_EMBEDDINGS, 'readwrite', store => {
+      embeddings.forEach(e => store.put(e));
+    });
+  },
+
+  async deleteMany(highlightIds) {
+    await withStore(STORE_EMBEDDINGS, 'readwrite', store => {
+      highlightIds.forEach(id => store.delete(id));
+    });
+  },
+
+  async clear() {
+    await withStore(STORE_EMBEDDINGS, 'readwrite', store => {
+      store.clear();
+    });
+  },
+};
+
+export const FlashcardRepository: FlashcardRepositoryApi = {
+  async getAll() {
+    const cards = await withStore<Flashcard[]>(STORE_FLASHCARDS, 'readonly', store => store.getAll());
+    return (cards || []).sort(byCreatedAtDesc);
+  },
+
+  async getByBook(bookId) {
+    const cards = await withStore<Flashcard[]>(STORE_FLASHCARDS, 'readonly', store =>
+      store.index('bookId').getAll(IDBKeyRange.only(bookId))
+    );
+    return (cards || []).sort(byCreatedAtDesc);
+  },
+
+  async getByHighlight(highlightId) {
+    const cards = await withStore<Flashcard[]>(STORE_FLASHCARDS, 'readonly', store =>
+      store.index('highlightId').getAll(IDBKeyRange.only(highlightId))
+    );
+    return (cards || []).sort(byCreatedAtDesc);
+  },
+
+  async put(card) {
+    await withStore(STORE_FLASHCARDS, 'readwrite', store => {
+      store.put(card);
+    });
+  },
+
+  async putMany(cards) {
+    await withStore(STORE_FLASHCARDS, 'readwrite', store => {
+      cards.forEach(card => store.put(card));
+    });
+  },
+
+  async delete(id) {
+    await withStore(STORE_FLASHCARDS, 'readwrite', store => {
+      store.delete(id);
+    });
+  },
+
+  async clear() {
+    await withStore(STORE_FLASHCARDS, 'readwrite', store => {
+      store.clear();
+    });
+  },
+};
+
+export const ConversationRepository: ConversationRepositoryApi = {
+  async getAll() {
+    return (await withStore<Conversation[]>(STORE_CONVERSATIONS, 'readonly', store => store.getAll())) || [];
+  },
+
+  async get(scopeId) {
+    return withStore<Conversation>(STORE_CONVERSATIONS, 'readonly', store => store.get(scopeId));
+  },
+
+  async put(conversation) {
+    await withStore(STORE_CONVERSATIONS, 'readwrite', store => {
+      store.put(conversation);
+    });
+  },
+
+  async delete(scopeId) {
+    await withStore(STORE_CONVERSATIONS, 'readwrite', store => {
+      store.delete(scopeId);
+    });
+  },
+
+  async clear() {
+    await withStore(STORE_CONVERSATIONS, 'readwrite', store => {
+      store.clear();
+    });
+  },
+};
+
+export interface LibraryWrite {
+  /** Empties the library first, chats included. */
+  replace: boolean;
+  books: Book[];
+  highlights: Highlight[];
+  shelves: Shelf[];
+  flashcards: Flashcard[];
+  conversations: Conversation[];
+}
+
+/**
+ * Writes a restore in one transaction, so a record that fails to store (quota, bad data)
+ * rolls everything back instead of leaving a half-cleared library.
+ */
+export const writeLibrary = async ({ replace, books, highlights, shelves, flashcards, conversations }: LibraryWrite) => {
+  const db = await openDatabase();
+  const stores = [STORE_BOOKS, STORE_HIGHLIGHTS, STORE_SHELVES, STORE_FLASHCARDS, STORE_CONVERSATIONS];
+  const tx = db.transaction(stores, 'readwrite');
+  const done = transactionDone(tx);
+  try {
+    if (replace) stores.forEach(name => tx.objectStore(name).clear());
+    shelves.forEach(shelf => tx.objectStore(STORE_SHELVES).put(shelf));
+    books.forEach(book => tx.objectStore(STORE_BOOKS).put(toPersisted({ ...book, createdAt: book.createdAt || new Date().toISOString() })));
+    highlights.forEach(h => tx.objectStore(STORE_HIGHLIGHTS).put(toPersisted(h)));
+    flashcards.forEach(card => tx.objectStore(STORE_FLASHCARDS).put(card));
+    conversations.forEach(conversation => tx.objectStore(STORE_CONVERSATIONS).put(conversation));
+  } catch (error) {
+    tx.abort();
+    await done.catch(() => {});
+    throw error;
+  }
+  await done;
+};
@@ -0,0 +1,71 @@
+import { Book, Highlight, ReadingStatus } from "../types";
+
+const STORAGE_KEY_VIEW = 'lumina_library_view';
+
+export type LibrarySort = 'recently-added' | 'recently-highlighted' | 'title' | 'author' | 'highlight-count';
+
+export interface LibraryView {
+  sort: LibrarySort;
+  /** Empty means every status, including books without one. */
+  statuses: ReadingStatus[];
+  sources: Highlight['source'][];
+  shelfId: string | null;
+}
+
+export const DEFAULT_LIBRARY_VIEW: LibraryView = {
+  sort: 'recently-added',
+  statuses: [],
+  sources: [],
+  shelfId: null,
+};
+
+export const LIBRARY_SORTS: { id: LibrarySort; label: string }[] = [
+  { id: 'recently-added', label: 'Recently Added' },
+  { id: 'recently-highlighted', label: 'Recently Highlighted' },
+  { id: 'title', label: 'Title' },
+  { id: 'author', label: 'Author' },
+  { id: 'highlight-count', label: 'Most Highlights' },
+];
+
+export const getLibraryView = (): LibraryView => {
+  try {
+    return { ...DEFAULT_LIBRARY_VIEW, ...JSON.parse(localStorage.getItem(STORAGE_KEY_VIEW) || '{}') };
+  } catch (e) {
+    return DEFAULT_LIBRARY_VIEW;
+  }
+};
+
+export const setLibraryView = (view: LibraryView) => {
+  localStorage.setItem(STORAGE_KEY_VIEW, JSON.stringify(view));
+};
+
+const time = (date?: string) => (date ? new Date(date).getTime() : 0);
+
+/**
+ * Filters and orders the library for display. Filters of different kinds combine
+ * with AND; several values of the same kind (e.g. two statuses) combine with OR.
+ */
+export const applyLibraryView = (books: Book[], highlights: Highlight[], view: LibraryView): Book[] => {
+  const sourcesByBook = new Map<string, Set<Highlight['source']>>();
+  const lastHighlightByBook = new Map<string, number>();
+  highlights.forEach(h => {
+    if (!sourcesByBook.has(h.bookId)) sourcesByBook.set(h.bookId, new Set());
+    sourcesByBook.get(h.bookId)!.add(h.source);
+    lastHighlightByBook.set(h.bookId, Math.max(lastHighlightByBook.get(h.bookId) || 0, time(h.createdAt)));
+  });
+
+  const filtered = books.filter(book =>
+    (view.statuses.length === 0 || (!!book.readingStatus && view.statuses.includes(book.readingStatus))) &&
+    (view.sources.length === 0 || view.sources.some(s => sourcesByBook.get(book.id)?.has(s))) &&
+    (!view.shelfId || !!book.shelfIds?.includes(view.shelfId))
+  );
+
+  const compare: Record<LibrarySort, (a: Book, b: Book) => number> = {
+    'recently-added': (a, b) => time(b.createdAt) - time(a.createdAt),
+    'recently-highlighted': (a, b) => (lastHighlightByBook.get(b.id) || 0) - (lastHighlightByBook.get(a.id) || 0),
+    'title': (a, b) => a.title.localeCompare(b.title),
+    'author': (a, b) => a.author.localeCompare(b.author) || a.title.localeCompare(b.title),
+    'highlight-count': (a, b) => b.totalHighlights - a.totalHighlights,
+  };
+  return [...filtered].sort(compare[view.sort] || compare['recently-added']);
+};
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { Book, Highlight } from '../types';
+import { bookFileName, highlightBlockId, renderBookNote } from './markdownExportService';
+
+const book: Book = { id: 'b1', title: 'Meditations', author: 'Marcus Aurelius', coverUrl: '', totalHighlights: 2, lastRead: '2024-03-01T00:00:00.000Z' };
+
+const highlight = (id: string, text: string, fields: Partial<Highlight> = {}): Highlight =>
+  ({ id, bookId: 'b1', text, thoughts: [], tags: [], createdAt: '2024-01-01T00:00:00.000Z', source: 'digital', ...fields });
+
+const highlights = [
+  highlight('h1', 'You have power over your mind.', { pageNumber: 12, thoughts: [{ id: 't1', text: 'Not outside events.', createdAt: '2024-01-02T00:00:00.000Z' }] }),
+  highlight('h2', 'Waste no more time arguing.', { location: '1234-1240' }),
+];
+
+describe('renderBookNote', () => {
+  it('cites the page, else the ebook location', () => {
+    const note = renderBookNote(book, highlights);
+    expect(note).toContain(`> — Page 12 ^${highlightBlockId(highlights[0])}`);
+    expect(note).toContain(`> — Location 1234-1240 ^${highlightBlockId(highlights[1])}`);
+    expect(note).toContain('  - Not outside events.');
+  });
+
+  it("re-exports over a user-edited note without touching the user's properties or writing", () => {
+    const first = renderBookNote(book, highlights.slice(0, 1));
+    const edited = first
+      .replace('---\n', '---\n# my vault template\n')
+      .replace('\n---\n', '\ntags:\n  - stoicism\n  - philosophy\naliases:\n- Meds\nsummary: >\n  Notes to self,\n  written on campaign.\n---\n')
+      .replace('# Meditations\n', '# Meditations\n\nMy own intro.\n')
+      .concat('\n## Reflections\nRead again in spring.\n');
+
+    const note = renderBookNote(book, highlights, edited);
+
+    expect(note).toMatch(/^---\n# my vault template\nlumina-id: "b1"\n/);
+    expect(note).toContain('highlights: 2\n');
+    expect(note).toContain('tags:\n  - stoicism\n  - philosophy\naliases:\n- Meds\nsummary: >\n  Notes to self,\n  written on campaign.\n---\n');
+    expect(note).toContain('My own intro.');
+    expect(note).toContain('Location 1234-1240');
+    expect(note.endsWith('## Reflections\nRead again in spring.\n')).toBe(true);
+    expect(note.match(/^highlights:/gm)).toHaveLength(1);
+    expect(renderBookNote(book, highlights, note)).toBe(note);
+  });
+});
+
+describe('bookFileName', () => {
+  it('gives same-titled books distinct notes', () => {
+    const taken = new Set<string>();
+    expect(bookFileName(book, taken)).toBe('Meditations.md');
+    expect(bookFileName(book, taken)).toBe('Meditations (Marcus Aurelius).md');
+    expect(bookFileName(book, taken)).toBe('Meditations (Marcus Aurelius, b1).md');
+  });
+});
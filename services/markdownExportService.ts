@@ -0,0 +1,199 @@
+import { Book, Highlight } from "../types";
+import { BookRepository, HighlightRepository } from "./libraryRepository";
+import { downloadFile } from "./downloadService";
+
+// Everything between these markers is owned by Lumina and rewritten on every export.
+// Anything a user writes above or below them in their vault is left untouched.
+const REGION_START = '<!-- lumina:start -->';
+const REGION_END = '<!-- lumina:end -->';
+const ID_KEY = 'lumina-id';
+
+export interface MarkdownExportSummary {
+  created: number;
+  updated: number;
+  unchanged: number;
+}
+
+const yamlString = (value: string) => JSON.stringify(value);
+
+/** Obsidian/Logseq block reference that stays the same across exports of the same highlight. */
+export const highlightBlockId = (highlight: Highlight) =>
+  `lumina-${highlight.id.replace(/[^a-zA-Z0-9]/g, '').slice(0, 12).toLowerCase()}`;
+
+const safeFileName = (value: string) => value.replace(/[\\/:*?"<>|#^[\]]/g, '').replace(/\s+/g, ' ').trim();
+
+/**
+ * The note's file name: the title, then title and author, then a short id, whichever is
+ * first not in `taken` (lower-cased names), so two books called "Meditations" never share a note.
+ */
+export const bookFileName = (book: Book, taken: Set<string> = new Set()) => {
+  const title = safeFileName(book.title) || 'Untitled';
+  const author = safeFileName(book.author);
+  const candidates = [
+    title,
+    ...(author ? [`${title} (${author})`] : []),
+    `${title} (${author ? `${author}, ` : ''}${book.id.replace(/[^a-zA-Z0-9]/g, '').slice(0, 8)})`,
+  ];
+  const name = candidates.map(c => `${c}.md`).find(c => !taken.has(c.toLowerCase())) || `${title} (${book.id}).md`;
+  taken.add(name.toLowerCase());
+  return name;
+};
+
+const lastReadOf = (book: Book, highlights: Highlight[]) => {
+  if (book.lastRead) return book.lastRead;
+  const latest = highlights.reduce<string | undefined>(
+    (max, h) => (!max || h.createdAt > max ? h.createdAt : max),
+    undefined
+  );
+  return latest || book.createdAt || '';
+};
+
+const renderFrontMatterFields = (book: Book, highlights: Highlight[]): [string, string][] => [
+  [ID_KEY, yamlString(book.id)],
+  ['title', yamlString(book.title)],
+  ['author', yamlString(book.author)],
+  ['cover', yamlString(book.coverUrl.startsWith('data:') ? '' : book.coverUrl)],
+  ['highlights', String(highlights.length)],
+  ['lastRead', yamlString(lastReadOf(book, highlights))],
+];
+
+const renderHighlight = (highlight: Highlight) => {
+  const quoteLines = highlight.text.trim().split(/\r?\n/).map(line => `  > ${line}`.trimEnd());
+  quoteLines[0] = `- ${quoteLines[0].trimStart()}`;
+  const citation = highlight.pageNumber
+    ? `Page ${highlight.pageNumber}`
+    : highlight.location ? `Location ${highlight.location}` : 'No page';
+  const lines = [...quoteLines, `  > — ${citation} ^${highlightBlockId(highlight)}`];
+  highlight.thoughts.forEach(thought => {
+    const [first, ...rest] = thought.text.trim().split(/\r?\n/);
+    lines.push(`  - ${first}`);
+    rest.forEach(line => lines.push(`    ${line}`));
+  });
+  return lines.join('\n');
+};
+
+const renderRegion = (highlights: Highlight[]) => {
+  const ordered = [...highlights].sort((a, b) =>
+    (a.pageNumber ?? Number.MAX_SAFE_INTEGER) - (b.pageNumber ?? Number.MAX_SAFE_INTEGER) ||
+    a.createdAt.localeCompare(b.createdAt)
+  );
+  return [REGION_START, '## Highlights', '', ...ordered.map(renderHighlight), REGION_END].join('\n');
+};
+
+/**
+ * A top-level front matter property with the lines that belong to it: nested lists and maps,
+ * folded strings, comments. Lines before the first key have a null key.
+ */
+interface FrontMatterEntry {
+  key: string | null;
+  lines: string[];
+}
+
+const TOP_LEVEL_KEY = /^([^\s#-][^:]*):(?:\s|$)/;
+
+const splitFrontMatter = (content: string): { entries: FrontMatterEntry[]; body: string } => {
+  const match = content.match(/^---\r?\n([\s\S]*?)\r?\n---\r?\n?/);
+  if (!match) return { entries: [], body: content };
+  const entries: FrontMatterEntry[] = [];
+  match[1].split(/\r?\n/).forEach(line => {
+    const key = line.match(TOP_LEVEL_KEY)?.[1].trim();
+    if (key) entries.push({ key, lines: [line] });
+    else if (entries.length > 0) entries[entries.length - 1].lines.push(line);
+    else entries.push({ key: null, lines: [line] });
+  });
+  return { entries, body: content.slice(match[0].length) };
+};
+
+const entryValue = (entry: FrontMatterEntry) => entry.lines[0].slice(entry.lines[0].indexOf(':') + 1).trim();
+
+const joinFrontMatter = (entries: FrontMatterEntry[], body: string) =>
+  `---\n${entries.flatMap(e => e.lines).join('\n')}\n---\n${body}`;
+
+/**
+ * Builds the note for a book. When `existing` is given, Lumina's front matter keys and
+ * managed region are replaced in place and everything else in the note is preserved.
+ */
+export const renderBookNote = (book: Book, highlights: Highlight[], existing?: string): string => {
+  const ours = renderFrontMatterFields(book, highlights).map(([key, value]): FrontMatterEntry => ({ key, lines: [`${key}: ${value}`] }));
+  const region = renderRegion(highlights);
+
+  if (!existing) {
+    return joinFrontMatter(ours, `\n# ${book.title}\n\n${region}\n`);
+  }
+
+  const { entries, body } = splitFrontMatter(existing);
+  const ourKeys = new Set(ours.map(e => e.key));
+  const preamble = entries.filter(e => e.key === null);
+  const merged = [...preamble, ...ours, ...entries.filter(e => e.key !== null && !ourKeys.has(e.key))];
+
+  const start = body.indexOf(REGION_START);
+  const end = body.indexOf(REGION_END);
+  const newBody = start !== -1 && end > start
+    ? body.slice(0, start) + region + body.slice(end + REGION_END.length)
+    : `${body.trimEnd()}\n\n${region}\n`;
+
+  return joinFrontMatter(merged, newBody);
+};
+
+const readNoteId = (content: string) => {
+  const entry = splitFrontMatter(content).entries.find(e => e.key === ID_KEY);
+  if (!entry) return null;
+  const value = entryValue(entry);
+  try { return JSON.parse(value) as string; } catch (e) { return value; }
+};
+
+const writeFile = async (dir: any, name: string, content: string) => {
+  const handle = await dir.getFileHandle(name, { create: true });
+  const writable = await handle.createWritable();
+  await writable.write(content);
+  await writable.close();
+};
+
+/**
+ * Writes one note per book into a vault folder the user picks. Existing notes are found by
+ * their `lumina-id` front matter, so renamed books and hand-edited notes update in place.
+ * Browsers without directory access get individual file downloads instead.
+ */
+export const exportMarkdownVault = async (): Promise<MarkdownExportSummary> => {
+  const [books, highlights] = await Promise.all([BookRepository.getAll(), HighlightRepository.getAll()]);
+  const byBook = new Map<string, Highlight[]>();
+  highlights.forEach(h => {
+    if (!byBook.has(h.bookId)) byBook.set(h.bookId, []);
+    byBook.get(h.bookId)!.push(h);
+  });
+  const summary: MarkdownExportSummary = { created: 0, updated: 0, unchanged: 0 };
+
+  if (!('showDirectoryPicker' in window)) {
+    const taken = new Set<string>();
+    books.forEach(book => {
+      downloadFile(renderBookNote(book, byBook.get(book.id) || []), bookFileName(book, taken), 'text/markdown');
+      summary.created++;
+    });
+    return summary;
+  }
+
+  const dir = await (window as any).showDirectoryPicker({ mode: 'readwrite' });
+  const existingById = new Map<string, { name: string; content: string }>();
+  // Every note already in the folder is off limits to new books, whoever it belongs to.
+  const taken = new Set<string>();
+  for await (const entry of dir.values()) {
+    if (entry.kind !== 'file' || !entry.name.endsWith('.md')) continue;
+    taken.add(entry.name.toLowerCase());
+    const content = await (await entry.getFile()).text();
+    const id = readNoteId(content);
+    if (id) existingById.set(id, { name: entry.name, content });
+  }
+
+  for (const book of books) {
+    const existing = existingById.get(book.id);
+    const note = renderBookNote(book, byBook.get(book.id) || [], existing?.content);
+    if (existing && existing.content === note) {
+      summary.unchanged++;
+      continue;
+    }
+    await writeFile(dir, existing ? existing.name : bookFileName(book, taken), note);
+    if (existing) summary.updated++; else summary.created++;
+  }
+
+  return summary;
+};
@@ -0,0 +1,144 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import {
+  createGoogleBooksProvider,
+  createOpenLibraryProvider,
+  fetchJsonWithRetry,
+  manualEntryProvider,
+  MetadataHttpError,
+  searchBookMetadata,
+} from './metadataService';
+
+type Handler = (req: IncomingMessage, res: ServerResponse) => void;
+
+let server: Server;
+let baseUrl: string;
+let handler: Handler;
+let requests: string[];
+
+const json = (body: unknown, status = 200, headers: Record<string, string> = {}): Handler => (_req, res) => {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(body));
+};
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    requests.push(req.url || '');
+    handler(req, res);
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+beforeEach(() => {
+  requests = [];
+  handler = json({});
+});
+
+describe('fetchJsonWithRetry', () => {
+  it('retries a server error and returns the next good response', async () => {
+    let calls = 0;
+    handler = (req, res) => (++calls === 1 ? json({}, 503) : json({ ok: true }))(req, res);
+    await expect(fetchJsonWithRetry(`${baseUrl}/x`, { baseDelayMs: 1 })).resolves.toEqual({ ok: true });
+    expect(calls).toBe(2);
+  });
+
+  it('returns null for a 404 without retrying', async () => {
+    handler = json({}, 404);
+    await expect(fetchJsonWithRetry(`${baseUrl}/x`, { baseDelayMs: 1 })).resolves.toBeNull();
+    expect(requests).toHaveLength(1);
+  });
+
+  it('gives up at once when Retry-After is longer than it is worth waiting', async () => {
+    handler = json({}, 429, { 'Retry-After': '3600' });
+    const startedAt = Date.now();
+    await expect(fetchJsonWithRetry(`${baseUrl}/x`, { baseDelayMs: 1 })).rejects.toBeInstanceOf(MetadataHttpError);
+    expect(requests).toHaveLength(1);
+    expect(Date.now() - startedAt).toBeLessThan(1000);
+  });
+});
+
+describe('createGoogleBooksProvider', () => {
+  it('maps volumes to metadata', async () => {
+    handler = json({
+      items: [{
+        volumeInfo: {
+          title: 'Middlemarch',
+          authors: ['George Eliot'],
+          imageLinks: { thumbnail: 'http://books.google.com/cover?id=1&zoom=1' },
+          industryIdentifiers: [{ type: 'ISBN_13', identifier: '9780141439549' }],
+          pageCount: 880,
+        },
+      }],
+    });
+    const provider = createGoogleBooksProvider({ baseUrl, baseDelayMs: 1 });
+    const [meta] = await provider.search({ isbn: '9780141439549' }, 1);
+    expect(requests[0]).toBe('/volumes?q=isbn%3A9780141439549&maxResults=1');
+    expect(meta).toMatchObject({
+      title: 'Middlemarch',
+      authors: ['George Eliot'],
+      coverUrl: 'https://books.google.com/cover?id=1&zoom=0',
+      isbn13: '9780141439549',
+      pageCount: 880,
+      provider: 'google-books',
+    });
+  });
+});
+
+describe('createOpenLibraryProvider', () => {
+  it('looks an ISBN up through the books API', async () => {
+    handler = json({
+      'ISBN:9780141439549': { title: 'Middlemarch', authors: [{ name: 'George Eliot' }], publishers: [{ name: 'Penguin' }] },
+    });
+    const provider = createOpenLibraryProvider({ baseUrl, coversUrl: 'https://covers.test', baseDelayMs: 1 });
+    const [meta] = await provider.search({ isbn: '9780141439549' }, 1);
+    expect(requests[0]).toBe('/api/books?bibkeys=ISBN:9780141439549&format=json&jscmd=data');
+    expect(meta).toMatchObject({
+      title: 'Middlemarch',
+      authors: ['George Eliot'],
+      publisher: 'Penguin',
+      coverUrl: 'https://covers.test/b/isbn/9780141439549-L.jpg',
+      provider: 'open-library',
+    });
+  });
+
+  it('searches by title and author', async () => {
+    handler = json({ docs: [{ title: 'Middlemarch', author_name: ['George Eliot'], cover_i: 42, first_publish_year: 1871 }] });
+    const provider = createOpenLibraryProvider({ baseUrl, coversUrl: 'https://covers.test', baseDelayMs: 1 });
+    const [meta] = await provider.search({ title: 'Middlemarch', author: 'George Eliot' }, 5);
+    expect(requests[0]).toBe('/search.json?title=Middlemarch&author=George%20Eliot&limit=5');
+    expect(meta).toMatchObject({ coverUrl: 'https://covers.test/b/id/42-L.jpg', publishedDate: '1871' });
+  });
+});
+
+describe('searchBookMetadata', () => {
+  it('falls through to the next provider when one is rate-limited', async () => {
+    handler = (req, res) => req.url!.startsWith('/volumes')
+      ? json({}, 429, { 'Retry-After': '3600' })(req, res)
+      : json({ docs: [{ title: 'Middlemarch', author_name: ['George Eliot'] }] })(req, res);
+    const providers = [createGoogleBooksProvider({ baseUrl, baseDelayMs: 1 }), createOpenLibraryProvider({ baseUrl, baseDelayMs: 1 })];
+    const [meta] = await searchBookMetadata({ text: 'middlemarch' }, { providers, useCache: false });
+    expect(meta.provider).toBe('open-library');
+  });
+
+  it('returns nothing when no catalogue knows the book', async () => {
+    handler = json({}, 404);
+    const providers = [createGoogleBooksProvider({ baseUrl, baseDelayMs: 1 }), createOpenLibraryProvider({ baseUrl, baseDelayMs: 1 })];
+    await expect(searchBookMetadata({ title: 'Unpublished Notes' }, { providers, useCache: false })).resolves.toEqual([]);
+  });
+});
+
+describe('manualEntryProvider', () => {
+  it('echoes the query back as a record', async () => {
+    await expect(manualEntryProvider.search({ title: 'Unpublished Notes', author: 'A. Reader', isbn: '9780141439549' }, 1)).resolves.toEqual([{
+      title: 'Unpublished Notes',
+      authors: ['A. Reader'],
+      isbn13: '9780141439549',
+      isbn10: '0141439548',
+      provider: 'manual',
+    }]);
+  });
+});
@@ -0,0 +1,374 @@
+import { Book } from "../types";
+
+export type MetadataProviderId = 'google-books' | 'open-library' | 'manual';
+/** Providers that look a book up somewhere; manual entry only echoes the query back. */
+export type CatalogueProviderId = Exclude<MetadataProviderId, 'manual'>;
+
+export interface MetadataQuery {
+  /** Free-text search as typed by the user. */
+  text?: string;
+  title?: string;
+  author?: string;
+  isbn?: string;
+}
+
+export interface BookMetadata {
+  title: string;
+  authors: string[];
+  coverUrl?: string;
+  isbn10?: string;
+  isbn13?: string;
+  publisher?: string;
+  publishedDate?: string;
+  pageCount?: number;
+  categories?: string[];
+  language?: string;
+  provider: MetadataProviderId;
+}
+
+export interface MetadataProvider {
+  id: MetadataProviderId;
+  name: string;
+  search(query: MetadataQuery, limit: number): Promise<BookMetadata[]>;
+}
+
+type FetchFn = typeof fetch;
+
+export interface HttpProviderOptions {
+  /** Override to point a provider at a mirror or a local mock server. */
+  baseUrl?: string;
+  fetchFn?: FetchFn;
+  retries?: number;
+  baseDelayMs?: number;
+}
+
+const STORAGE_KEY_PROVIDER_ORDER = 'lumina_metadata_provider_order';
+const STORAGE_KEY_CACHE = 'lumina_metadata_cache';
+const CACHE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+const CACHE_MAX_ENTRIES = 200;
+/** Longest wait between attempts; a longer Retry-After is better spent on the next provider. */
+const MAX_RETRY_DELAY_MS = 5000;
+
+export const DEFAULT_PROVIDER_ORDER: CatalogueProviderId[] = ['google-books', 'open-library'];
+
+export const placeholderCover = (title: string) => `https://placehold.co/400x600?text=${encodeURIComponent(title)}`;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export class MetadataHttpError extends Error {
+  constructor(public status: number, url: string) {
+    super(`Metadata request failed with ${status}: ${url}`);
+    this.name = 'MetadataHttpError';
+  }
+}
+
+/**
+ * GETs JSON, retrying network failures, 429s and 5xx responses with exponential
+ * backoff. A `Retry-After` header from a rate-limited API takes precedence; one past
+ * MAX_RETRY_DELAY_MS gives up at once so the caller can fall through to another provider.
+ */
+export const fetchJsonWithRetry = async (
+  url: string,
+  { fetchFn = fetch, retries = 2, baseDelayMs = 400 }: Pick<HttpProviderOptions, 'fetchFn' | 'retries' | 'baseDelayMs'> = {}
+): Promise<any> => {
+  let lastError: unknown;
+  for (let attempt = 0; attempt <= retries; attempt++) {
+    let delay = Math.min(baseDelayMs * 2 ** attempt, MAX_RETRY_DELAY_MS);
+    try {
+      const response = await fetchFn(url);
+      if (response.ok) return await response.json();
+      if (response.status === 404) return null;
+      lastError = new MetadataHttpError(response.status, url);
+      if (response.status !== 429 && response.status < 500) break;
+      const retryAfter = Number(response.headers.get('Retry-After'));
+      if (retryAfter * 1000 > MAX_RETRY_DELAY_MS) break;
+      if (retryAfter > 0) delay = retryAfter * 1000;
+    } catch (error) {
+      lastError = error;
+    }
+    if (attempt < retries) await sleep(delay);
+  }
+  throw lastError;
+};
+
+export const normalizeIsbn = (isbn: string) => isbn.replace(/[^0-9Xx]/g, '').toUpperCase();
+
+export const isbn10To13 = (isbn10: string) => {
+  const core = '978' + isbn10.slice(0, 9);
+  const sum = core.split('').reduce((acc, d, i) => acc + Number(d) * (i % 2 === 0 ? 1 : 3), 0);
+  return core + ((10 - (sum % 10)) % 10);
+};
+
+/** Only 978-prefixed ISBN-13s have an ISBN-10 equivalent. */
+export const isbn13To10 = (isbn13: string) => {
+  if (!isbn13.startsWith('978')) return undefined;
+  const core = isbn13.slice(3, 12);
+  const sum = core.split('').reduce((acc, d, i) => acc + Number(d) * (10 - i), 0);
+  const check = (11 - (sum % 11)) % 11;
+  return core + (check === 10 ? 'X' : String(check));
+};
+
+/** Fills in both forms from whichever one is known. */
+export const splitIsbn = (isbn: string): { isbn10?: string; isbn13?: string } => {
+  const clean = normalizeIsbn(isbn);
+  if (clean.length === 13) return { isbn13: clean, isbn10: isbn13To10(clean) };
+  if (clean.length === 10) return { isbn10: clean, isbn13: isbn10To13(clean) };
+  return {};
+};
+
+/** Accepts the `isbn:9780...` shorthand the app has always used for cover-scan lookups. */
+export const parseQueryText = (text: string): MetadataQuery => {
+  const trimmed = text.trim();
+  if (trimmed.toLowerCase().startsWith('isbn:')) return { isbn: normalizeIsbn(trimmed.slice(5)) };
+  return { text: trimmed };
+};
+
+export const createGoogleBooksProvider = (options: HttpProviderOptions = {}): MetadataProvider => {
+  const baseUrl = options.baseUrl || 'https://www.googleapis.com/books/v1';
+  return {
+    id: 'google-books',
+    name: 'Google Books',
+    async search(query, limit) {
+      const q = query.isbn
+        ? `isbn:${query.isbn}`
+        : query.text || [query.title && `intitle:${query.title}`, query.author && `inauthor:${query.author}`].filter(Boolean).join(' ');
+      const data = await fetchJsonWithRetry(`${baseUrl}/volumes?q=${encodeURIComponent(q)}&maxResults=${limit}`, options);
+      return (data?.items || []).map((item: any): BookMetadata => {
+        const info = item.volumeInfo || {};
+        // Upgrade http to https and drop the zoom parameter for a larger cover.
+        const cover = (info.imageLinks?.thumbnail || info.imageLinks?.smallThumbnail)
+          ?.replace('http:', 'https:')
+          .replace('&zoom=1', '&zoom=0');
+        const ids: { type: string; identifier: string }[] = info.industryIdentifiers || [];
+        const isbn = splitIsbn(ids.find(i => i.type === 'ISBN_13')?.identifier || ids.find(i => i.type === 'ISBN_10')?.identifier || '');
+        return {
+          title: info.title,
+          authors: info.authors || [],
+          coverUrl: cover || (isbn.isbn13 ? `https://covers.openlibrary.org/b/isbn/${isbn.isbn13}-L.jpg` : undefined),
+          ...isbn,
+          publisher: info.publisher,
+          publishedDate: info.publishedDate,
+          pageCount: info.pageCount || undefined,
+          categories: info.categories,
+          language: info.language,
+          provider: 'google-books',
+        };
+      }).filter((m: BookMetadata) => m.title);
+    },
+  };
+};
+
+export const createOpenLibraryProvider = (options: HttpProviderOptions & { coversUrl?: string } = {}): MetadataProvider => {
+  const baseUrl = options.baseUrl || 'https://openlibrary.org';
+  const coversUrl = options.coversUrl || 'https://covers.openlibrary.org';
+  return {
+    id: 'open-library',
+    name: 'Open Library',
+    async search(query, limit) {
+      if (query.isbn) {
+        const key = `ISBN:${query.isbn}`;
+        const data = await fetchJsonWithRetry(`${baseUrl}/api/books?bibkeys=${key}&format=json&jscmd=data`, options);
+        const edition = data?.[key];
+        if (!edition) return [];
+        return [{
+          title: edition.title,
+          authors: (edition.authors || []).map((a: any) => a.name),
+          coverUrl: edition.cover?.large || `${coversUrl}/b/isbn/${query.isbn}-L.jpg`,
+          ...splitIsbn(query.isbn),
+          publisher: edition.publishers?.[0]?.name,
+          publishedDate: edition.publish_date,
+          pageCount: edition.number_of_pages,
+          categories: edition.subjects?.slice(0, 5).map((subject: any) => subject.name),
+          provider: 'open-library',
+        }];
+      }
+
+      const params = query.text
+        ? `q=${encodeURIComponent(query.text)}`
+        : [query.title && `title=${encodeURIComponent(query.title)}`, query.author && `author=${encodeURIComponent(query.author)}`].filter(Boolean).join('&');
+      const data = await fetchJsonWithRetry(`${baseUrl}/search.json?${params}&limit=${limit}`, options);
+      return (data?.docs || []).map((doc: any): BookMetadata => ({
+        title: doc.title,
+        authors: doc.author_name || [],
+        coverUrl: doc.cover_i ? `${coversUrl}/b/id/${doc.cover_i}-L.jpg` : undefined,
+        ...splitIsbn(doc.isbn?.find((i: string) => i.length === 13) || doc.isbn?.[0] || ''),
+        publisher: doc.publisher?.[0],
+        publishedDate: doc.first_publish_year ? String(doc.first_publish_year) : undefined,
+        pageCount: doc.number_of_pages_median,
+        categories: doc.subject?.slice(0, 5),
+        language: doc.language?.[0],
+        provider: 'open-library',
+      })).filter((m: BookMetadata) => m.title);
+    },
+  };
+};
+
+/**
+ * Offline fallback: turns whatever the user or importer already knows into a record,
+ * so adding a book never depends on a catalogue being reachable.
+ */
+export const manualEntryProvider: MetadataProvider = {
+  id: 'manual',
+  name: 'Manual entry',
+  async search(query) {
+    const title = query.title || query.text || (query.isbn ? `ISBN ${query.isbn}` : '');
+    if (!title) return [];
+    return [{
+      title,
+      authors: query.author ? [query.author] : [],
+      ...(query.isbn ? splitIsbn(query.isbn) : {}),
+      provider: 'manual',
+    }];
+  },
+};
+
+const PROVIDERS: Record<CatalogueProviderId, MetadataProvider> = {
+  'google-books': createGoogleBooksProvider(),
+  'open-library': createOpenLibraryProvider(),
+};
+
+export const getMetadataProviders = () => Object.values(PROVIDERS);
+
+export const getProviderOrder = (): CatalogueProviderId[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY_PROVIDER_ORDER) || 'null');
+    if (Array.isArray(stored)) {
+      const valid = stored.filter((id: string): id is CatalogueProviderId => id in PROVIDERS);
+      if (valid.length > 0) return valid;
+    }
+  } catch (e) {}
+  return DEFAULT_PROVIDER_ORDER;
+};
+
+export const setProviderOrder = (order: CatalogueProviderId[]) => {
+  localStorage.setItem(STORAGE_KEY_PROVIDER_ORDER, JSON.stringify(order));
+};
+
+interface CacheEntry {
+  storedAt: number;
+  results: BookMetadata[];
+}
+
+const readCache = (): Record<string, CacheEntry> => {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY_CACHE) || '{}');
+  } catch (e) {
+    return {};
+  }
+};
+
+const getCached = (key: string): BookMetadata[] | null => {
+  const entry = readCache()[key];
+  return entry && Date.now() - entry.storedAt < CACHE_TTL_MS ? entry.results : null;
+};
+
+const setCached = (key: string, results: BookMetadata[]) => {
+  const cache = readCache();
+  cache[key] = { storedAt: Date.now(), results };
+  const keys = Object.keys(cache);
+  if (keys.length > CACHE_MAX_ENTRIES) {
+    keys
+      .sort((a, b) => cache[a].storedAt - cache[b].storedAt)
+      .slice(0, keys.length - CACHE_MAX_ENTRIES)
+      .forEach(k => delete cache[k]);
+  }
+  try {
+    localStorage.setItem(STORAGE_KEY_CACHE, JSON.stringify(cache));
+  } catch (e) {
+    localStorage.removeItem(STORAGE_KEY_CACHE);
+  }
+};
+
+export interface MetadataSearchOptions {
+  limit?: number;
+  providers?: MetadataProvider[];
+  useCache?: boolean;
+}
+
+/**
+ * Asks each provider in the configured order and returns the first non-empty result.
+ * A provider that errors (offline, rate-limited past its retries) is skipped, not fatal.
+ */
+export const searchBookMetadata = async (
+  query: MetadataQuery,
+  { limit = 1, providers = getProviderOrder().map(id => PROVIDERS[id]), useCache = true }: MetadataSearchOptions = {}
+): Promise<BookMetadata[]> => {
+  for (const provider of providers) {
+    const cacheKey = `${provider.id}|${limit}|${JSON.stringify(query)}`;
+    const cached = useCache && provider.id !== 'manual' ? getCached(cacheKey) : null;
+    if (cached && cached.length > 0) return cached;
+
+    try {
+      const results = await provider.search(query, limit);
+      if (results.length > 0) {
+        if (useCache && provider.id !== 'manual') setCached(cacheKey, results);
+        return results;
+      }
+    } catch (error) {
+      console.warn(`Lumina: ${provider.name} lookup failed`, error);
+    }
+  }
+  return [];
+};
+
+const STUDY_AID_PATTERN = /\b(summary|study guide|sparknotes|cliffsnotes|workbook|analysis of|notes on|companion to)\b/i;
+
+const wordsOf = (text: string) =>
+  new Set(text.toLowerCase().replace(/[^\p{L}\p{N}\s]/gu, ' ').split(/\s+/).filter(Boolean));
+
+/**
+ * Scores a candidate against what was typed: the share of query words found in its
+ * title and authors, a small bonus for a cover and an ISBN, and a penalty for study
+ * guides and summaries that would otherwise outrank the book itself.
+ */
+export const scoreCandidate = (meta: BookMetadata, query: MetadataQuery): number => {
+  if (query.isbn && meta.isbn13 && meta.isbn13 === splitIsbn(query.isbn).isbn13) return 2;
+  const queryWords = wordsOf(query.text || [query.title, query.author].filter(Boolean).join(' '));
+  const candidateWords = wordsOf(`${meta.title} ${meta.authors.join(' ')}`);
+  let matched = 0;
+  queryWords.forEach(w => { if (candidateWords.has(w)) matched++; });
+  let score = queryWords.size > 0 ? matched / queryWords.size : 0;
+  if (meta.coverUrl) score += 0.1;
+  if (meta.isbn13 || meta.isbn10) score += 0.05;
+  if (STUDY_AID_PATTERN.test(meta.title) && !STUDY_AID_PATTERN.test(query.text || query.title || '')) score -= 0.5;
+  return score;
+};
+
+/**
+ * Search results for the add-book picker, best match first. The manual entry is always
+ * offered last so a book missing from every catalogue can still be added as typed.
+ */
+export const searchBookCandidates = async (query: string | MetadataQuery, limit = 10): Promise<BookMetadata[]> => {
+  const parsed = typeof query === 'string' ? parseQueryText(query) : query;
+  const results = await searchBookMetadata(parsed, { limit });
+  const ranked = results
+    .map((meta, index) => ({ meta, index, score: scoreCandidate(meta, parsed) }))
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .map(r => r.meta);
+  return [...ranked, ...(await manualEntryProvider.search(parsed, 1))];
+};
+
+export const metadataToBook = (meta: BookMetadata): Book => ({
+  id: crypto.randomUUID(),
+  title: meta.title,
+  author: meta.authors[0] || "Unknown Author",
+  authors: meta.authors,
+  coverUrl: meta.coverUrl || placeholderCover(meta.title),
+  isbn10: meta.isbn10,
+  isbn13: meta.isbn13,
+  publisher: meta.publisher,
+  publishedDate: meta.publishedDate,
+  pageCount: meta.pageCount,
+  categories: meta.categories,
+  language: meta.language,
+  totalHighlights: 0,
+});
+
+/**
+ * The best catalogue match for a book, or null when no catalogue knows it (or none is
+ * reachable). Callers decide what to fall back to, since only they know what else they have.
+ */
+export const searchForBook = async (query: string | MetadataQuery): Promise<Book | null> => {
+  const [first] = await searchBookMetadata(typeof query === 'string' ? parseQueryText(query) : query);
+  return first ? metadataToBook(first) : null;
+};
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { detectPageNumber, extractFromLines, joinLines, OcrLine } from './ocrService';
+
+// Lines laid out top to bottom on a 1000 x 1500 photo, 40px apart.
+const line = (text: string, row: number, fields: Partial<OcrLine> = {}): OcrLine => ({
+  text,
+  confidence: 90,
+  bbox: { x0: 100, y0: 100 + row * 40, x1: 900, y1: 130 + row * 40 },
+  paragraph: 0,
+  ...fields,
+});
+
+const body = [
+  line('Miss Brooke had that kind of beau-', 2, { paragraph: 1 }),
+  line('ty which seems to be thrown into', 3, { paragraph: 1 }),
+  line('relief by poor dress.', 4, { paragraph: 1 }),
+  line('Her hand and wrist were so finely', 6, { paragraph: 2 }),
+  line('formed.', 7, { paragraph: 2 }),
+  line('Then came a full stop and much more text here', 20, { paragraph: 3 }),
+  line('that runs to the foot of the page, ending.', 21, { paragraph: 3 }),
+];
+
+describe('joinLines', () => {
+  it('mends words hyphenated across a line break but keeps real hyphens', () => {
+    expect(joinLines(body.slice(0, 3))).toBe('Miss Brooke had that kind of beauty which seems to be thrown into relief by poor dress.');
+    expect(joinLines([line('a well-', 0), line('Known face', 1)])).toBe('a well- Known face');
+  });
+});
+
+describe('detectPageNumber', () => {
+  it('prefers a lone folio to a number in a running head', () => {
+    const lines = [line('12 MIDDLEMARCH', 0), ...body, line('13', 23)];
+    expect(detectPageNumber(lines).pageNumber).toBe(13);
+  });
+
+  it('reads a running head, or "p. 7", when there is no lone number', () => {
+    expect(detectPageNumber([line('MIDDLEMARCH 124', 0), ...body]).pageNumber).toBe(124);
+    expect(detectPageNumber([...body, line('p. 7', 23)]).pageNumber).toBe(7);
+  });
+
+  it('ignores numbers in the body of the page', () => {
+    expect(detectPageNumber([...body.slice(0, 3), line('1871', 10), ...body.slice(5)])).toEqual({ pageNumber: null, line: null });
+  });
+});
+
+describe('extractFromLines', () => {
+  it('returns one passage per paragraph without the folio or unreadable lines', () => {
+    const lines = [...body, line('garbled ~~ facing page', 22, { paragraph: 3, confidence: 20 }), line('14', 23, { paragraph: 4 })];
+    const result = extractFromLines(lines, { width: 1000, height: 1500 });
+    expect(result.pageNumber).toBe(14);
+    expect(result.passages.map(p => p.text)).toEqual([
+      'Miss Brooke had that kind of beauty which seems to be thrown into relief by poor dress.',
+      'Her hand and wrist were so finely formed.',
+      'Then came a full stop and much more text here that runs to the foot of the page, ending.',
+    ]);
+    expect(result.passages[1].box).toEqual({ x: 0.1, y: 340 / 1500, width: 0.8, height: 70 / 1500 });
+  });
+
+  it('leaves boxes out without the image size', () => {
+    expect(extractFromLines(body).passages.every(p => p.box === undefined)).toBe(true);
+  });
+});
@@ -0,0 +1,150 @@
+import type { Bbox, Page, Worker } from "tesseract.js";
+import workerUrl from "tesseract.js/dist/worker.min.js?url";
+import coreUrl from "tesseract.js-core/tesseract-core-lstm.wasm.js?url";
+import simdCoreUrl from "tesseract.js-core/tesseract-core-simd-lstm.wasm.js?url";
+import englishDataUrl from "@tesseract.js-data/eng/4.0.0_best_int/eng.traineddata.gz?url";
+import { BoundingBox, ExtractionResult } from "../types";
+import { loadImage } from "./highlightRegionService";
+
+const OCR_LANGUAGE = 'eng';
+/** Share of the text's height at the top and bottom where running heads and folios sit. */
+const MARGIN_RATIO = 0.12;
+const MAX_MARGIN_WORDS = 8;
+/** Tesseract's 0-100 line confidence; below this a line is usually page curl or the facing page. */
+const MIN_LINE_CONFIDENCE = 35;
+const PAGE_NUMBER = /^(?:p\.?|page)?\s*(\d{1,4})$/i;
+
+export interface OcrLine {
+  text: string;
+  confidence: number;
+  bbox: Bbox;
+  paragraph: number;
+}
+
+export class OcrError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'OcrError';
+  }
+}
+
+export const linesFromPage = (page: Page): OcrLine[] =>
+  (page.blocks || [])
+    .flatMap(block => block.paragraphs)
+    .flatMap((paragraph, index) => paragraph.lines.map(line => ({
+      text: line.text.trim(),
+      confidence: line.confidence,
+      bbox: line.bbox,
+      paragraph: index,
+    })))
+    .filter(line => line.text);
+
+// A folio stands alone ("124") or leads or ends a short running head ("124 THE TITLE").
+const folioOf = (line: OcrLine): number | null => {
+  const whole = line.text.match(PAGE_NUMBER);
+  if (whole) return Number(whole[1]);
+  const words = line.text.split(/\s+/);
+  if (words.length > MAX_MARGIN_WORDS) return null;
+  const edge = [words[0], words[words.length - 1]].map(w => w.match(/^(\d{1,4})$/)).find(Boolean);
+  return edge ? Number(edge[1]) : null;
+};
+
+const marginLines = (lines: OcrLine[]) => {
+  if (lines.length < 2) return [];
+  const top = Math.min(...lines.map(l => l.bbox.y0));
+  const bottom = Math.max(...lines.map(l => l.bbox.y1));
+  const band = (bottom - top) * MARGIN_RATIO;
+  return lines.filter(l => l.bbox.y1 <= top + band || l.bbox.y0 >= bottom - band);
+};
+
+/**
+ * Finds the printed page number among the lines in the top and bottom margins.
+ * Lone numbers win over running heads; among equals, the line nearest the edge.
+ */
+export const detectPageNumber = (lines: OcrLine[]): { pageNumber: number | null, line: OcrLine | null } => {
+  const candidates = marginLines(lines)
+    .map(line => ({ line, pageNumber: folioOf(line), alone: PAGE_NUMBER.test(line.text) }))
+    .filter(c => c.pageNumber !== null && c.pageNumber > 0);
+  if (candidates.length === 0) return { pageNumber: null, line: null };
+
+  const top = Math.min(...lines.map(l => l.bbox.y0));
+  const bottom = Math.max(...lines.map(l => l.bbox.y1));
+  const edgeDistance = (l: OcrLine) => Math.min(l.bbox.y0 - top, bottom - l.bbox.y1);
+  candidates.sort((a, b) => Number(b.alone) - Number(a.alone) || edgeDistance(a.line) - edgeDistance(b.line));
+  return { pageNumber: candidates[0].pageNumber, line: candidates[0].line };
+};
+
+/** Joins a paragraph's lines, mending words hyphenated across a line break. */
+export const joinLines = (lines: OcrLine[]) =>
+  lines.reduce((text, line) => /\w-$/.test(text) && /^[a-z]/.test(line.text)
+    ? text.slice(0, -1) + line.text
+    : text ? `${text} ${line.text}` : line.text, '').replace(/\s+/g, ' ').trim();
+
+const boxAround = (lines: OcrLine[], size: { width: number, height: number }): BoundingBox => {
+  const x0 = Math.min(...lines.map(l => l.bbox.x0));
+  const y0 = Math.min(...lines.map(l => l.bbox.y0));
+  const x1 = Math.max(...lines.map(l => l.bbox.x1));
+  const y1 = Math.max(...lines.map(l => l.bbox.y1));
+  return { x: x0 / size.width, y: y0 / size.height, width: (x1 - x0) / size.width, height: (y1 - y0) / size.height };
+};
+
+/**
+ * The extraction for a recognised page: one passage per paragraph, without the running
+ * head or folio. Boxes need the image's pixel size, since Tesseract reports pixels.
+ */
+export const extractFromLines = (lines: OcrLine[], size?: { width: number, height: number }): ExtractionResult => {
+  const { pageNumber, line: folio } = detectPageNumber(lines);
+  const paragraphs = new Map<number, OcrLine[]>();
+  lines.filter(l => l !== folio && l.confidence >= MIN_LINE_CONFIDENCE).forEach(line => {
+    paragraphs.set(line.paragraph, [...(paragraphs.get(line.paragraph) || []), line]);
+  });
+  const passages = Array.from(paragraphs.values())
+    .map(paragraph => ({ text: joinLines(paragraph), box: size ? boxAround(paragraph, size) : undefined }))
+    .filter(passage => passage.text);
+  return { passages, pageNumber };
+};
+
+let workerPromise: Promise<Worker> | null = null;
+
+const fetchEnglishData = async () => {
+  const response = await fetch(englishDataUrl);
+  if (!response.ok) throw new OcrError(`Couldn't load OCR language data (${response.status}).`);
+  return new Uint8Array(await response.arrayBuffer());
+};
+
+// Tesseract's worker, WASM core and English data ship with the app rather than coming
+// from its CDN, so the fallback works wherever the app itself has loaded.
+const getWorker = () => {
+  if (!workerPromise) {
+    workerPromise = Promise.all([import('tesseract.js'), import('wasm-feature-detect'), fetchEnglishData()])
+      .then(async ([{ default: Tesseract }, { simd }, data]) =>
+        Tesseract.createWorker([{ code: OCR_LANGUAGE, data }], Tesseract.OEM.LSTM_ONLY, {
+          workerPath: workerUrl,
+          corePath: (await simd()) ? simdCoreUrl : coreUrl,
+        }))
+      .catch(error => {
+        workerPromise = null;
+        throw error;
+      });
+  }
+  return workerPromise;
+};
+
+/**
+ * Reads a photographed page on the device. Tesseract can't see marker ink, so this
+ * returns every paragraph; the user keeps the ones they meant.
+ */
+export const recognizeHighlight = async (base64Image: string): Promise<ExtractionResult> => {
+  let page: Page;
+  let image: HTMLImageElement;
+  try {
+    const worker = await getWorker();
+    [{ data: page }, image] = await Promise.all([worker.recognize(base64Image, {}, { blocks: true }), loadImage(base64Image)]);
+  } catch (error) {
+    console.error("On-device OCR failed:", error);
+    throw new OcrError("On-device text recognition couldn't start.");
+  }
+  const result = extractFromLines(linesFromPage(page), { width: image.naturalWidth, height: image.naturalHeight });
+  if (result.passages.length === 0) throw new OcrError("No readable text was found. Try a sharper, closer photo.");
+  return result;
+};
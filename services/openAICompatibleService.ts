@@ -0,0 +1,123 @@
+import { Type } from "@google/genai";
+import {
+  AIProvider,
+  AIProviderError,
+  EXTRACT_HIGHLIGHT_PROMPT,
+  EXTRACTION_SCHEMA,
+  extractJson,
+  identifyBookPrompt,
+  synthesisPrompt,
+  toExtractionResult,
+  toJsonSchema,
+  TRANSCRIBE_PROMPT,
+} from "./aiProvider";
+
+/** Ollama's OpenAI-compatible endpoint; llama.cpp's server listens on :8080/v1 instead. */
+export const DEFAULT_OPENAI_BASE_URL = 'http://localhost:11434/v1';
+
+export interface OpenAICompatibleOptions {
+  baseUrl?: string;
+  /** Optional: local servers usually don't check it. */
+  apiKey?: string;
+  fetchFn?: typeof fetch;
+}
+
+type ContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: { url: string } };
+
+const asDataUrl = (base64: string, mimeType: string) =>
+  base64.startsWith('data:') ? base64 : `data:${mimeType};base64,${base64}`;
+
+/**
+ * Talks to any server implementing OpenAI's `/chat/completions`, `/audio/transcriptions`
+ * and `/embeddings`: OpenAI itself, Ollama, llama.cpp, LM Studio, vLLM.
+ * Image tasks need a vision model; structured output uses JSON mode plus the
+ * schema spelled out in the prompt, which local servers handle more reliably.
+ */
+export const createOpenAICompatibleProvider = ({
+  baseUrl = DEFAULT_OPENAI_BASE_URL,
+  apiKey,
+  fetchFn = fetch,
+}: OpenAICompatibleOptions = {}): AIProvider => {
+  const root = baseUrl.replace(/\/+$/, '');
+  const authHeaders: Record<string, string> = apiKey ? { Authorization: `Bearer ${apiKey}` } : {};
+
+  const post = async (path: string, body: BodyInit, headers: Record<string, string> = {}) => {
+    const response = await fetchFn(`${root}${path}`, { method: 'POST', headers: { ...authHeaders, ...headers }, body });
+    if (!response.ok) {
+      throw new AIProviderError(response.status, 'OpenAI-compatible', await response.text().catch(() => ''));
+    }
+    return response.json();
+  };
+
+  const chat = async (model: string, content: string | ContentPart[], json = false): Promise<string> => {
+    const data = await post('/chat/completions', JSON.stringify({
+      model,
+      messages: [{ role: 'user', content }],
+      ...(json ? { response_format: { type: 'json_object' } } : {}),
+    }), { 'Content-Type': 'application/json' });
+    return data?.choices?.[0]?.message?.content || '';
+  };
+
+  return {
+    id: 'openai-compatible',
+    name: 'OpenAI-compatible',
+
+    async identifyBookFromCover(base64Image, model) {
+      const text = await chat(model, [
+        { type: 'text', text: identifyBookPrompt(false) },
+        { type: 'image_url', image_url: { url: asDataUrl(base64Image, 'image/jpeg') } },
+      ], true);
+      try {
+        const parsed = JSON.parse(extractJson(text || "{}"));
+        return parsed?.title ? parsed : null;
+      } catch (e) {
+        console.warn("Failed to parse identification JSON", text);
+        return null;
+      }
+    },
+
+    async analyzeHighlightImage(base64Image, model) {
+      const text = await chat(model, [
+        { type: 'text', text: `${EXTRACT_HIGHLIGHT_PROMPT}\nRespond with JSON matching this schema: ${JSON.stringify(toJsonSchema(EXTRACTION_SCHEMA))}` },
+        { type: 'image_url', image_url: { url: asDataUrl(base64Image, 'image/jpeg') } },
+      ], true);
+      return toExtractionResult(JSON.parse(extractJson(text || "{}")));
+    },
+
+    async synthesizeBook(book, highlights, model) {
+      return (await chat(model, synthesisPrompt(book, highlights))) || "Unable to generate synthesis.";
+    },
+
+    // Whisper-style transcription endpoints return verbatim text, so the filler-word
+    // cleanup in TRANSCRIBE_PROMPT is passed along as a style hint only.
+    async transcribeAudio(base64Audio, mimeType, model) {
+      const bytes = Uint8Array.from(atob(base64Audio.split(',')[1] || base64Audio), c => c.charCodeAt(0));
+      const audio = new Blob([bytes], { type: mimeType });
+      const form = new FormData();
+      form.append('file', audio, `note.${mimeType.split('/')[1]?.split(';')[0] || 'webm'}`);
+      form.append('model', model);
+      form.append('prompt', TRANSCRIBE_PROMPT);
+      const data = await post('/audio/transcriptions', form);
+      return String(data?.text || '').trim();
+    },
+
+    async generateJson(prompt, schema, model) {
+      // JSON mode only allows an object at the top level, so arrays travel wrapped in one.
+      const isArray = schema.type === Type.ARRAY;
+      const expected = isArray ? { type: 'object', properties: { items: toJsonSchema(schema) }, required: ['items'] } : toJsonSchema(schema);
+      const text = await chat(model, `${prompt}\n\nRespond with JSON matching this schema: ${JSON.stringify(expected)}`, true);
+      const parsed = JSON.parse(extractJson(text) || 'null');
+      return isArray ? (Array.isArray(parsed) ? parsed : parsed?.items || []) : parsed;
+    },
+
+    async embed(texts, model) {
+      const data = await post('/embeddings', JSON.stringify({ model, input: texts }), { 'Content-Type': 'application/json' });
+      // The spec tags each vector with its input's index rather than promising order.
+      return [...(data?.data || [])]
+        .sort((a: any, b: any) => a.index - b.index)
+        .map((item: any) => item.embedding || []);
+    },
+  };
+};
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { Highlight, ReviewState } from '../types';
+import { advanceSchedule, buildReviewQueue, DAY_MS, MAX_REVIEWS_PER_DAY, NEW_PER_DAY, scheduleReview, startOfDay } from './reviewService';
+
+const now = new Date(2024, 0, 10, 9, 30);
+const daysFromToday = (days: number) => new Date(startOfDay(now).getTime() + days * DAY_MS).toISOString();
+
+const highlight = (id: string, fields: Partial<Highlight> = {}): Highlight =>
+  ({ id, bookId: 'b1', text: id, thoughts: [], tags: [], createdAt: '2023-01-01T00:00:00.000Z', source: 'digital', ...fields });
+
+const reviewed = (dueAt: string, fields: Partial<ReviewState> = {}): ReviewState =>
+  ({ easeFactor: 2.5, intervalDays: 6, repetitions: 2, dueAt, history: [{ reviewedAt: '2023-12-01T00:00:00.000Z', grade: 'keep' }], ...fields });
+
+describe('advanceSchedule', () => {
+  it('follows SM-2: one day, six days, then interval times ease', () => {
+    const first = advanceSchedule(undefined, 4, now);
+    expect(first).toEqual({ easeFactor: 2.5, intervalDays: 1, repetitions: 1, dueAt: daysFromToday(1) });
+    const second = advanceSchedule(first, 4, now);
+    expect(second).toMatchObject({ intervalDays: 6, repetitions: 2 });
+    expect(advanceSchedule(second, 5, now)).toMatchObject({ easeFactor: 2.6, intervalDays: 16, repetitions: 3 });
+  });
+
+  it('starts over after a failed recall, never dropping the ease below 1.3', () => {
+    const failed = advanceSchedule({ easeFactor: 1.4, intervalDays: 30, repetitions: 5, dueAt: now.toISOString() }, 0, now);
+    expect(failed).toMatchObject({ easeFactor: 1.3, intervalDays: 1, repetitions: 0 });
+  });
+
+  it('stretches the interval without changing the ease', () => {
+    const stretched = advanceSchedule(reviewed(now.toISOString()), 4, now, 1.5);
+    expect(stretched).toMatchObject({ easeFactor: 2.5, intervalDays: 23, dueAt: daysFromToday(23) });
+  });
+});
+
+describe('scheduleReview', () => {
+  it('pushes "less often" further out than "keep" and records each grade', () => {
+    const state = reviewed(now.toISOString());
+    const keep = scheduleReview(state, 'keep', now);
+    const lessOften = scheduleReview(state, 'less-often', now);
+    expect(lessOften.intervalDays).toBeGreaterThan(keep.intervalDays);
+    expect(keep.history.map(h => h.grade)).toEqual(['keep', 'keep']);
+  });
+
+  it('suspends a highlight marked "never"', () => {
+    expect(scheduleReview(undefined, 'never', now)).toMatchObject({ suspended: true, history: [{ grade: 'never' }] });
+  });
+});
+
+describe('buildReviewQueue', () => {
+  it('puts due highlights first, most overdue first, then new ones oldest first', () => {
+    const queue = buildReviewQueue([
+      highlight('new-later', { createdAt: '2023-05-01T00:00:00.000Z' }),
+      highlight('due-today', { review: reviewed(daysFromToday(0)) }),
+      highlight('not-due', { review: reviewed(daysFromToday(1)) }),
+      highlight('overdue', { review: reviewed(daysFromToday(-3)) }),
+      highlight('suspended', { review: reviewed(daysFromToday(-3), { suspended: true }) }),
+      highlight('new-earlier', { createdAt: '2023-02-01T00:00:00.000Z' }),
+    ], now);
+    expect(queue.map(h => h.id)).toEqual(['overdue', 'due-today', 'new-earlier', 'new-later']);
+  });
+
+  it('caps reviews and new highlights per day, counting ones already introduced today', () => {
+    const due = Array.from({ length: MAX_REVIEWS_PER_DAY + 5 }, (_, i) => highlight(`due-${i}`, { review: reviewed(daysFromToday(-1)) }));
+    const fresh = Array.from({ length: NEW_PER_DAY + 5 }, (_, i) => highlight(`new-${i}`));
+    const introduced = Array.from({ length: 3 }, (_, i) => highlight(`today-${i}`, {
+      review: reviewed(daysFromToday(1), { history: [{ reviewedAt: now.toISOString(), grade: 'keep' }] }),
+    }));
+    const queue = buildReviewQueue([...due, ...fresh, ...introduced], now);
+    expect(queue.filter(h => h.review)).toHaveLength(MAX_REVIEWS_PER_DAY);
+    expect(queue.filter(h => !h.review)).toHaveLength(NEW_PER_DAY - 3);
+  });
+});
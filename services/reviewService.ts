@@ -0,0 +1,80 @@
+import { Highlight, RepetitionSchedule, ReviewGrade, ReviewState } from "../types";
+import { HighlightRepository } from "./libraryRepository";
+
+export const DAY_MS = 24 * 60 * 60 * 1000;
+const INITIAL_EASE = 2.5;
+const MIN_EASE = 1.3;
+export const NEW_PER_DAY = 10;
+export const MAX_REVIEWS_PER_DAY = 40;
+
+// SM-2 answer quality for each grade. Rereading a highlight is always a "pass", so the
+// grades only decide how quickly it drifts away: "less often" counts as an easy recall.
+const QUALITY: Record<Exclude<ReviewGrade, 'never'>, number> = {
+  'keep': 4,
+  'less-often': 5,
+};
+
+export const startOfDay = (date: Date) => {
+  const d = new Date(date);
+  d.setHours(0, 0, 0, 0);
+  return d;
+};
+
+/**
+ * One SM-2 step. Quality runs 0-5; below 3 the item starts over from a one-day interval.
+ * `stretch` lengthens the resulting interval without touching the ease factor.
+ */
+export const advanceSchedule = (previous: RepetitionSchedule | undefined, quality: number, now = new Date(), stretch = 1): RepetitionSchedule => {
+  const current = previous || { easeFactor: INITIAL_EASE, intervalDays: 0, repetitions: 0, dueAt: now.toISOString() };
+  const easeFactor = Math.max(MIN_EASE, current.easeFactor + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02)));
+  const repetitions = quality < 3 ? 0 : current.repetitions + 1;
+  const baseInterval = repetitions <= 1 ? 1 : repetitions === 2 ? 6 : Math.round(current.intervalDays * easeFactor);
+  const intervalDays = Math.max(1, Math.round(baseInterval * stretch));
+  return {
+    easeFactor,
+    intervalDays,
+    repetitions,
+    dueAt: new Date(startOfDay(now).getTime() + intervalDays * DAY_MS).toISOString(),
+  };
+};
+
+/** Applies one review to a highlight's schedule; "less often" stretches the next interval. */
+export const scheduleReview = (state: ReviewState | undefined, grade: ReviewGrade, now = new Date()): ReviewState => {
+  const history = [...(state?.history || []), { reviewedAt: now.toISOString(), grade }];
+  if (grade === 'never') {
+    return { ...(state || advanceSchedule(undefined, QUALITY.keep, now)), suspended: true, history };
+  }
+  return { ...advanceSchedule(state, QUALITY[grade], now, grade === 'less-often' ? 1.5 : 1), history };
+};
+
+const introducedToday = (highlights: Highlight[], now: Date) => {
+  const today = startOfDay(now).getTime();
+  return highlights.filter(h => h.review?.history[0] && new Date(h.review.history[0].reviewedAt).getTime() >= today).length;
+};
+
+/**
+ * Today's queue: highlights that are due (most overdue first), then up to `NEW_PER_DAY`
+ * never-reviewed highlights, oldest first, less any already introduced today.
+ */
+export const buildReviewQueue = (highlights: Highlight[], now = new Date()): Highlight[] => {
+  const endOfToday = startOfDay(now).getTime() + DAY_MS;
+  const due = highlights
+    .filter(h => h.review && !h.review.suspended && new Date(h.review.dueAt).getTime() < endOfToday)
+    .sort((a, b) => new Date(a.review!.dueAt).getTime() - new Date(b.review!.dueAt).getTime())
+    .slice(0, MAX_REVIEWS_PER_DAY);
+  const newSlots = Math.max(0, NEW_PER_DAY - introducedToday(highlights, now));
+  const fresh = highlights
+    .filter(h => !h.review)
+    .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime())
+    .slice(0, newSlots);
+  return [...due, ...fresh];
+};
+
+export const recordReview = async (highlight: Highlight, grade: ReviewGrade, now = new Date()): Promise<Highlight> => {
+  const updated = { ...highlight, review: scheduleReview(highlight.review, grade, now) };
+  await HighlightRepository.put(updated);
+  return updated;
+};
+
+/** How many highlights are waiting in today's queue, for the dashboard badge. */
+export const countDue = (highlights: Highlight[], now = new Date()) => buildReviewQueue(highlights, now).length;
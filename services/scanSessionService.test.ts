@@ -0,0 +1,111 @@
+import { describe, expect, it, vi } from 'vitest';
+import { ExtractionResult } from '../types';
+import { createScanQueue, resolvePageNumbers, ScanItem } from './scanSessionService';
+
+type Extraction = ExtractionResult & { source?: 'ai' | 'ocr' };
+
+// An extractor whose pages finish only when the test says so.
+const controlledExtract = () => {
+  const pending: { imageSrc: string; resolve: (r: Extraction) => void; reject: (e: Error) => void }[] = [];
+  const extract = vi.fn((imageSrc: string) => new Promise<Extraction>((resolve, reject) => { pending.push({ imageSrc, resolve, reject }); }));
+  return { extract, pending };
+};
+
+const settle = () => new Promise(resolve => setTimeout(resolve, 0));
+
+const page = (pageNumber: number | null, text = 'A passage.'): Extraction =>
+  ({ passages: text ? [{ text }] : [], pageNumber, source: 'ocr' });
+
+const item = (id: string, pageNumber: number | null, fields: Partial<ScanItem> = {}): ScanItem =>
+  ({ id, imageSrc: id, status: 'done', drafts: [], pageNumber, ...fields });
+
+describe('createScanQueue', () => {
+  it('reads one page at a time, in the order they were taken', async () => {
+    const { extract, pending } = controlledExtract();
+    const queue = createScanQueue({ onChange: () => {}, extract });
+    queue.add('one');
+    queue.add('two');
+    expect(extract).toHaveBeenCalledOnce();
+    expect(queue.items().map(i => i.status)).toEqual(['processing', 'queued']);
+
+    pending[0].resolve(page(12));
+    await settle();
+    expect(pending.map(p => p.imageSrc)).toEqual(['one', 'two']);
+    expect(queue.items()[0]).toMatchObject({ status: 'done', pageNumber: 12, source: 'ocr', drafts: [{ text: 'A passage.' }] });
+
+    pending[1].resolve(page(null, ''));
+    await settle();
+    expect(queue.items()[1]).toMatchObject({ status: 'done', pageNumber: null, drafts: [{ text: '' }] });
+  });
+
+  it('marks a failed page and reads it again on retry', async () => {
+    const { extract, pending } = controlledExtract();
+    const queue = createScanQueue({ onChange: () => {}, extract });
+    queue.add('one');
+    pending[0].reject(new Error('Quota exceeded'));
+    await settle();
+    const [failed] = queue.items();
+    expect(failed).toMatchObject({ status: 'failed', error: 'Quota exceeded' });
+
+    queue.retry(failed.id);
+    expect(queue.items()[0]).toMatchObject({ status: 'processing', error: undefined });
+    pending[1].resolve(page(3));
+    await settle();
+    expect(queue.items()[0]).toMatchObject({ status: 'done', pageNumber: 3 });
+  });
+
+  it('keeps a page number typed while the page was being read', async () => {
+    const { extract, pending } = controlledExtract();
+    const queue = createScanQueue({ onChange: () => {}, extract });
+    queue.add('one');
+    queue.update(queue.items()[0].id, { pageNumber: 40, pageEdited: true });
+    pending[0].resolve(page(14));
+    await settle();
+    expect(queue.items()[0]).toMatchObject({ pageNumber: 40, pageEdited: true });
+  });
+
+  it('stops reporting changes once disposed', async () => {
+    const { extract, pending } = controlledExtract();
+    const onChange = vi.fn();
+    const queue = createScanQueue({ onChange, extract });
+    queue.add('one');
+    queue.add('two');
+    const calls = onChange.mock.calls.length;
+    queue.dispose();
+    pending[0].resolve(page(1));
+    await settle();
+    expect(onChange).toHaveBeenCalledTimes(calls);
+    expect(extract).toHaveBeenCalledOnce();
+  });
+});
+
+describe('resolvePageNumbers', () => {
+  it('guesses missing pages from the one before', () => {
+    const resolved = resolvePageNumbers([item('a', null), item('b', 10), item('c', null), item('d', null)]);
+    expect(Array.from(resolved.values())).toEqual([
+      { pageNumber: null, check: null },
+      { pageNumber: 10, check: 'read' },
+      { pageNumber: 11, check: 'guessed' },
+      { pageNumber: 12, check: 'guessed' },
+    ]);
+  });
+
+  it('flags numbers that go backwards or past the end, unless typed', () => {
+    const resolved = resolvePageNumbers([
+      item('a', 50),
+      item('b', 5),
+      item('c', 51),
+      item('d', 900),
+      item('e', 20, { pageEdited: true }),
+      item('f', null),
+    ], 300);
+    expect(Array.from(resolved.values()).map(r => r.check)).toEqual(['read', 'suspect', 'read', 'suspect', 'read', 'guessed']);
+    expect(resolved.get('f')!.pageNumber).toBe(21);
+  });
+
+  it('leaves pages that are still being read alone', () => {
+    const resolved = resolvePageNumbers([item('a', 10), item('b', null, { status: 'processing' }), item('c', null)]);
+    expect(resolved.get('b')).toEqual({ pageNumber: null, check: null });
+    expect(resolved.get('c')).toEqual({ pageNumber: 11, check: 'guessed' });
+  });
+});
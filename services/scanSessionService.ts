@@ -0,0 +1,134 @@
+import { ExtractionResult } from "../types";
+import { analyzeHighlightImage } from "./aiService";
+import { draftsFromExtraction, emptyDraft, HighlightDraft } from "./highlightDraftService";
+
+export type ScanStatus = 'queued' | 'processing' | 'done' | 'failed';
+
+/** One photographed page in a scan session, from capture through review. */
+export interface ScanItem {
+  id: string;
+  imageSrc: string;
+  status: ScanStatus;
+  drafts: HighlightDraft[];
+  /** As read from the page, or as typed in review; null until known. */
+  pageNumber: number | null;
+  /** Set once the user types a page number, which is then trusted over any check. */
+  pageEdited?: boolean;
+  source?: 'ai' | 'ocr';
+  error?: string;
+}
+
+export interface ScanQueue {
+  add(imageSrc: string): void;
+  retry(id: string): void;
+  update(id: string, changes: Partial<Pick<ScanItem, 'drafts' | 'pageNumber' | 'pageEdited'>>): void;
+  remove(id: string): void;
+  items(): ScanItem[];
+  /** Stops reporting changes; a page already being read finishes unseen. */
+  dispose(): void;
+}
+
+export interface ScanQueueOptions {
+  onChange: (items: ScanItem[]) => void;
+  extract?: (imageSrc: string) => Promise<ExtractionResult & { source?: 'ai' | 'ocr' }>;
+}
+
+/**
+ * Reads captured pages one at a time in the background, so the camera stays free
+ * and a rate-limited model or the single OCR worker is never asked twice at once.
+ */
+export const createScanQueue = ({ onChange, extract = analyzeHighlightImage }: ScanQueueOptions): ScanQueue => {
+  let items: ScanItem[] = [];
+  let isRunning = false;
+  let isDisposed = false;
+
+  const set = (id: string, changes: Partial<ScanItem>) => {
+    items = items.map(item => item.id === id ? { ...item, ...changes } : item);
+    if (!isDisposed) onChange(items);
+  };
+
+  const pump = async () => {
+    if (isRunning) return;
+    isRunning = true;
+    let next: ScanItem | undefined;
+    while (!isDisposed && (next = items.find(item => item.status === 'queued'))) {
+      const { id, imageSrc } = next;
+      set(id, { status: 'processing', error: undefined });
+      try {
+        const result = await extract(imageSrc);
+        const current = items.find(item => item.id === id);
+        set(id, {
+          status: 'done',
+          source: result.source,
+          drafts: result.passages.length > 0 ? draftsFromExtraction(result) : [emptyDraft()],
+          pageNumber: current?.pageEdited ? current.pageNumber : result.pageNumber,
+        });
+      } catch (error) {
+        set(id, { status: 'failed', error: error instanceof Error ? error.message : "Couldn't read this page." });
+      }
+    }
+    isRunning = false;
+  };
+
+  return {
+    add(imageSrc) {
+      items = [...items, { id: crypto.randomUUID(), imageSrc, status: 'queued', drafts: [], pageNumber: null }];
+      onChange(items);
+      pump();
+    },
+    retry(id) {
+      set(id, { status: 'queued', error: undefined });
+      pump();
+    },
+    update(id, changes) {
+      set(id, changes);
+    },
+    remove(id) {
+      items = items.filter(item => item.id !== id);
+      onChange(items);
+    },
+    items: () => items,
+    dispose() {
+      isDisposed = true;
+    },
+  };
+};
+
+export type PageCheck = 'read' | 'guessed' | 'suspect';
+
+export interface ResolvedPage {
+  pageNumber: number | null;
+  check: PageCheck | null;
+}
+
+/**
+ * Fills in and sanity-checks page numbers across a session, relying on pages being
+ * photographed in reading order. A missing number is guessed as one past the page
+ * before; a read number that goes backwards or past the book's end is flagged, since
+ * a misread digit is likelier than a reader turning back. Typed numbers are trusted.
+ */
+export const resolvePageNumbers = (items: ScanItem[], pageCount?: number): Map<string, ResolvedPage> => {
+  const resolved = new Map<string, ResolvedPage>();
+  let previous: number | null = null;
+  items.forEach(item => {
+    if (item.status !== 'done') {
+      resolved.set(item.id, { pageNumber: item.pageNumber, check: null });
+      return;
+    }
+    if (item.pageNumber === null) {
+      const guess = previous === null ? null : previous + 1;
+      resolved.set(item.id, { pageNumber: guess, check: guess === null ? null : 'guessed' });
+      previous = guess;
+      return;
+    }
+    const outOfOrder = previous !== null && item.pageNumber < previous;
+    const pastEnd = !!pageCount && item.pageNumber > pageCount;
+    if (!item.pageEdited && (outOfOrder || pastEnd)) {
+      resolved.set(item.id, { pageNumber: item.pageNumber, check: 'suspect' });
+      return;
+    }
+    resolved.set(item.id, { pageNumber: item.pageNumber, check: 'read' });
+    previous = item.pageNumber;
+  });
+  return resolved;
+};
@@ -0,0 +1,68 @@
+import { describe, expect, it, vi } from 'vitest';
+import { CURRENT_SCHEMA_VERSION, migrateBook, migrateHighlight, migrateReadable, NewerSchemaError, toPersisted } from './schemaMigrations';
+
+const bookAt = (schemaVersion: number, fields: object = {}) => ({ id: 'b1', title: 'Middlemarch', author: 'George Eliot', coverUrl: '', schemaVersion, ...fields });
+const highlightAt = (schemaVersion: number, fields: object = {}) => ({ id: 'h1', bookId: 'b1', text: 'A passage.', createdAt: '2021-05-03T00:00:00.000Z', schemaVersion, ...fields });
+
+describe('migrations', () => {
+  it('treats records without a version as version 1', () => {
+    const { schemaVersion, ...unversioned } = bookAt(1);
+    expect(migrateBook(unversioned)).toEqual(migrateBook(bookAt(1)));
+  });
+
+  it('2: defaults totalHighlights, source and thoughts', () => {
+    expect(migrateBook(bookAt(1)).totalHighlights).toBe(0);
+    expect(migrateBook(bookAt(1, { totalHighlights: 4 })).totalHighlights).toBe(4);
+    expect(migrateHighlight(highlightAt(1))).toMatchObject({ source: 'scanned', thoughts: [] });
+    expect(migrateHighlight(highlightAt(1, { source: 'digital' })).source).toBe('digital');
+  });
+
+  it('3: stamps books with when they were added', () => {
+    expect(migrateBook(bookAt(2, { lastRead: '2020-01-01T00:00:00.000Z' })).createdAt).toBe('2020-01-01T00:00:00.000Z');
+    expect(migrateBook(bookAt(2)).createdAt).toBe(new Date(0).toISOString());
+    expect(migrateBook(bookAt(2, { createdAt: '2022-02-02T00:00:00.000Z' })).createdAt).toBe('2022-02-02T00:00:00.000Z');
+  });
+
+  it('4: splits isbn and lists authors', () => {
+    const book = migrateBook(bookAt(3, { isbn: '978-0-14-143954-9' }));
+    expect(book).toMatchObject({ isbn13: '9780141439549', isbn10: '0141439548', authors: ['George Eliot'] });
+    expect(book).not.toHaveProperty('isbn');
+    expect(migrateBook(bookAt(3, { authors: ['A', 'B'] })).authors).toEqual(['A', 'B']);
+  });
+
+  it('5: gives highlights a tag list', () => {
+    expect(migrateHighlight(highlightAt(4)).tags).toEqual([]);
+    expect(migrateHighlight(highlightAt(4, { tags: ['ethics'] })).tags).toEqual(['ethics']);
+  });
+
+  it('6: keeps a text location and drops anything else', () => {
+    expect(migrateHighlight(highlightAt(5, { location: '1234-1240' })).location).toBe('1234-1240');
+    expect(migrateHighlight(highlightAt(5, { location: 1234 }))).not.toHaveProperty('location');
+    expect(migrateHighlight(highlightAt(5, { location: '' }))).not.toHaveProperty('location');
+  });
+
+  it('leaves current records alone apart from the version stamp', () => {
+    const highlight = { ...highlightAt(CURRENT_SCHEMA_VERSION), source: 'digital', thoughts: [], tags: ['x'] };
+    const { schemaVersion, ...expected } = highlight;
+    expect(migrateHighlight(highlight)).toEqual(expected);
+    expect(toPersisted(expected).schemaVersion).toBe(CURRENT_SCHEMA_VERSION);
+  });
+
+  it('refuses a record from a newer schema', () => {
+    expect(() => migrateBook(bookAt(CURRENT_SCHEMA_VERSION + 1))).toThrow(NewerSchemaError);
+  });
+});
+
+describe('migrateReadable', () => {
+  it('skips records from a newer schema with a warning', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const books = migrateReadable([bookAt(1), bookAt(CURRENT_SCHEMA_VERSION + 1, { id: 'b2' })], migrateBook);
+    expect(books.map(b => b.id)).toEqual(['b1']);
+    expect(warn).toHaveBeenCalledOnce();
+    warn.mockRestore();
+  });
+
+  it('still throws other errors', () => {
+    expect(() => migrateReadable([{}], () => { throw new TypeError('broken'); })).toThrow(TypeError);
+  });
+});
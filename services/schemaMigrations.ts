@@ -0,0 +1,123 @@
+import { Book, Highlight } from "../types";
+import { splitIsbn } from "./metadataService";
+
+/**
+ * Version of the Book/Highlight shapes in types.ts. Bump this and append a
+ * migration below whenever a persisted field is added, renamed or re-typed.
+ */
+export const CURRENT_SCHEMA_VERSION = 6;
+
+/** A record as it sits in storage: the model fields plus the schema version they were written with. */
+export type Persisted<T> = T & { schemaVersion: number };
+
+export interface SchemaMigration {
+  /** The version a record has after this migration runs. */
+  version: number;
+  description: string;
+  book?: (book: any) => any;
+  highlight?: (highlight: any) => any;
+}
+
+/**
+ * Ordered list of upgrade steps. Records written before versioning existed have
+ * no `schemaVersion` and are treated as version 1.
+ */
+export const MIGRATIONS: SchemaMigration[] = [
+  {
+    version: 2,
+    description: "Highlights without a source predate ebook import and were camera scans; ensure thoughts is an array.",
+    book: book => ({
+      ...book,
+      totalHighlights: typeof book.totalHighlights === 'number' ? book.totalHighlights : 0,
+    }),
+    highlight: highlight => ({
+      ...highlight,
+      source: highlight.source === 'digital' || highlight.source === 'scanned' ? highlight.source : 'scanned',
+      thoughts: Array.isArray(highlight.thoughts) ? highlight.thoughts : [],
+    }),
+  },
+  {
+    version: 3,
+    description: "Books carry the date they were added to the library.",
+    book: book => ({
+      ...book,
+      createdAt: book.createdAt || book.lastRead || new Date(0).toISOString(),
+    }),
+  },
+  {
+    version: 4,
+    description: "The single isbn field splits into isbn10/isbn13; books list all their authors.",
+    book: ({ isbn, ...book }) => ({
+      ...book,
+      ...(isbn ? splitIsbn(isbn) : {}),
+      authors: Array.isArray(book.authors) ? book.authors : book.author ? [book.author] : [],
+    }),
+  },
+  {
+    version: 5,
+    description: "Highlights carry a list of tags.",
+    highlight: highlight => ({
+      ...highlight,
+      tags: Array.isArray(highlight.tags) ? highlight.tags : [],
+    }),
+  },
+  {
+    version: 6,
+    description: "Imported highlights may carry an ebook location as text.",
+    highlight: ({ location, ...highlight }) => ({
+      ...highlight,
+      ...(typeof location === 'string' && location ? { location } : {}),
+    }),
+  },
+];
+
+export class NewerSchemaError extends Error {
+  constructor(public schemaVersion: number) {
+    super(`Record was written by a newer version of Lumina (schema ${schemaVersion}).`);
+    this.name = 'NewerSchemaError';
+  }
+}
+
+const versionOf = (record: any): number =>
+  typeof record?.schemaVersion === 'number' ? record.schemaVersion : 1;
+
+const runMigrations = (record: any, kind: 'book' | 'highlight') => {
+  let current = { ...record };
+  const from = versionOf(record);
+  if (from > CURRENT_SCHEMA_VERSION) {
+    throw new NewerSchemaError(from);
+  }
+  MIGRATIONS
+    .filter(m => m.version > from)
+    .forEach(m => {
+      const step = m[kind];
+      if (step) current = step(current);
+    });
+  delete current.schemaVersion;
+  return current;
+};
+
+export const migrateBook = (record: any): Book => runMigrations(record, 'book');
+
+export const migrateHighlight = (record: any): Highlight => runMigrations(record, 'highlight');
+
+/**
+ * Migrates the stored records this version can read. One written by a newer version
+ * (say, before a rollback) is skipped with a warning and left as it is in storage,
+ * so a single record can't make the whole library unreadable.
+ */
+export const migrateReadable = <T>(records: any[], migrate: (record: any) => T): T[] =>
+  records.flatMap(record => {
+    try {
+      return [migrate(record)];
+    } catch (error) {
+      if (!(error instanceof NewerSchemaError)) throw error;
+      console.warn(`Lumina: skipping record ${record?.id}`, error);
+      return [];
+    }
+  });
+
+export const toPersisted = <T extends object>(record: T): Persisted<T> => ({
+  ...record,
+  schemaVersion: CURRENT_SCHEMA_VERSION,
+});
@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import { Book, Highlight } from '../types';
+import { createSearchIndex, parseSearchQuery, stem } from './searchIndex';
+
+const books: Record<string, Book> = {
+  b1: { id: 'b1', title: 'Atomic Habits', author: 'James Clear', coverUrl: '', totalHighlights: 2 },
+  b2: { id: 'b2', title: 'Middlemarch', author: 'George Eliot', authors: ['George Eliot', 'Mary Ann Evans'], coverUrl: '', totalHighlights: 1 },
+};
+
+const highlight = (id: string, bookId: string, text: string, fields: Partial<Highlight> = {}): Highlight =>
+  ({ id, bookId, text, thoughts: [], tags: [], createdAt: '2023-06-01T00:00:00.000Z', source: 'digital', ...fields });
+
+const library = [
+  highlight('h1', 'b1', 'You do not rise to the level of your goals. You fall to the level of your systems.', { tags: ['focus'] }),
+  highlight('h2', 'b1', 'Every action is a vote for the type of person you wish to become. Habits compound.', { createdAt: '2024-02-01T00:00:00.000Z' }),
+  highlight('h3', 'b2', 'The growing good of the world is partly dependent on unhistoric acts.', {
+    thoughts: [{ id: 't1', text: 'Small habits again', createdAt: '2023-06-02T00:00:00.000Z' }],
+  }),
+];
+
+const indexOf = (highlights: Highlight[]) => {
+  const index = createSearchIndex();
+  index.sync(highlights.map(h => ({ highlight: h, book: books[h.bookId] })));
+  return index;
+};
+
+const ids = (index: ReturnType<typeof createSearchIndex>, query: string) => index.search(query).map(r => r.highlight.id).sort();
+
+describe('stem', () => {
+  it('brings plurals and verb forms together without over-stemming', () => {
+    expect(['habits', 'habit'].map(stem)).toEqual(['habit', 'habit']);
+    expect(['leading', 'lead'].map(stem)).toEqual(['lead', 'lead']);
+    expect(stem('stories')).toBe('story');
+    expect(stem('focused')).toBe('focus');
+    expect(['glass', 'focus', 'sing', 'bus'].map(stem)).toEqual(['glass', 'focus', 'sing', 'bus']);
+  });
+});
+
+describe('parseSearchQuery', () => {
+  it('separates operators, phrases, terms and the word being typed', () => {
+    const parsed = parseSearchQuery('author:"George Eliot" tag:#Focus "level of your systems" growing hab');
+    expect(parsed.filters).toEqual({ author: 'george eliot', tag: 'focus' });
+    expect(parsed.phrases).toEqual([['level', 'of', 'your', 'system']]);
+    expect(parsed.terms).toEqual(['grow']);
+    expect(parsed.prefix).toBe('hab');
+    expect(parseSearchQuery('habits ').prefix).toBeUndefined();
+  });
+
+  it('reads dates and drops ones that do not parse', () => {
+    expect(parseSearchQuery('before:2024-01-01 after:2023-01-01').filters).toEqual({
+      before: new Date('2024-01-01'),
+      after: new Date('2023-01-01'),
+    });
+    expect(parseSearchQuery('before:garbage after:soon').filters).toEqual({});
+  });
+});
+
+describe('createSearchIndex', () => {
+  it('finds stemmed terms in highlights and their thoughts, best match first', () => {
+    const index = indexOf(library);
+    expect(ids(index, 'habit ')).toEqual(['h2', 'h3']);
+    const [best] = index.search('level systems ');
+    expect(best.highlight.id).toBe('h1');
+    expect(best.snippet.filter(p => p.match).map(p => p.text)).toEqual(['level', 'level', 'systems']);
+  });
+
+  it('requires phrases in order and completes the word being typed', () => {
+    const index = indexOf(library);
+    expect(ids(index, '"level of your systems"')).toEqual(['h1']);
+    expect(ids(index, '"systems your level"')).toEqual([]);
+    expect(ids(index, 'unhist')).toEqual(['h3']);
+  });
+
+  it('applies operators, alone or with text', () => {
+    const index = indexOf(library);
+    expect(ids(index, 'book:middle')).toEqual(['h3']);
+    expect(ids(index, 'author:evans')).toEqual(['h3']);
+    expect(ids(index, 'tag:focus level')).toEqual(['h1']);
+    expect(ids(index, 'after:2024-01-01')).toEqual(['h2']);
+    expect(ids(index, 'before:2024-01-01 habits ')).toEqual(['h3']);
+    expect(ids(index, 'before:garbage')).toEqual([]);
+  });
+
+  it('picks up edits, retags and deletions on sync', () => {
+    const index = indexOf(library);
+    index.sync([
+      { highlight: { ...library[0], text: 'Identity comes first.', tags: [] }, book: books.b1 },
+      { highlight: { ...library[1], tags: ['focus'] }, book: books.b1 },
+    ]);
+    expect(index.size).toBe(2);
+    expect(ids(index, 'level ')).toEqual([]);
+    expect(ids(index, 'identity ')).toEqual(['h1']);
+    expect(ids(index, 'tag:focus')).toEqual(['h2']);
+    expect(ids(index, 'unhistoric ')).toEqual([]);
+  });
+});
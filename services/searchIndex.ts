@@ -0,0 +1,275 @@
+import { Book, Highlight } from "../types";
+import { normalizeTag, tagsOf } from "./tagService";
+
+export interface SearchFilters {
+  author?: string;
+  book?: string;
+  tag?: string;
+  before?: Date;
+  after?: Date;
+}
+
+export interface ParsedQuery {
+  terms: string[];
+  phrases: string[][];
+  filters: SearchFilters;
+  /** The last bare word while it is still being typed, matched as a prefix. */
+  prefix?: string;
+}
+
+export interface SnippetPart {
+  text: string;
+  match: boolean;
+}
+
+export interface SearchResult {
+  highlight: Highlight;
+  book: Book;
+  score: number;
+  snippet: SnippetPart[];
+}
+
+interface Token {
+  term: string;
+  start: number;
+  end: number;
+}
+
+interface IndexedDoc {
+  highlight: Highlight;
+  book: Book;
+  content: string;
+  tokens: Token[];
+  signature: string;
+}
+
+const WORD_PATTERN = /[\p{L}\p{N}]+/gu;
+const OPERATOR_PATTERN = /(author|book|tag|before|after):(?:"([^"]*)"|(\S+))/gi;
+const SNIPPET_RADIUS = 80;
+
+// BM25 tuning; the usual defaults suit passages of a few sentences.
+const K1 = 1.2;
+const B = 0.75;
+const PHRASE_BONUS = 1.5;
+
+const fold = (text: string) => text.normalize('NFKD').replace(/\p{M}/gu, '').toLowerCase();
+
+/**
+ * A light English stemmer: enough for "habits"/"habit" and "leading"/"lead" to meet
+ * without the over-stemming of a full Porter implementation.
+ */
+export const stem = (word: string) => {
+  if (word.length <= 3) return word;
+  if (word.endsWith('ies') && word.length > 4) return word.slice(0, -3) + 'y';
+  if (word.endsWith('sses')) return word.slice(0, -2);
+  if (word.endsWith('ing') && word.length > 5) return word.slice(0, -3);
+  if (word.endsWith('edly') && word.length > 6) return word.slice(0, -4);
+  if (word.endsWith('ed') && word.length > 4) return word.slice(0, -2);
+  if (word.endsWith('ly') && word.length > 4) return word.slice(0, -2);
+  if (word.endsWith('s') && !word.endsWith('ss') && !word.endsWith('us')) return word.slice(0, -1);
+  return word;
+};
+
+export const tokenize = (text: string): Token[] =>
+  Array.from(text.matchAll(WORD_PATTERN), m => ({
+    term: stem(fold(m[0])),
+    start: m.index!,
+    end: m.index! + m[0].length,
+  }));
+
+const terms = (text: string) => tokenize(text).map(t => t.term);
+
+const parseDate = (value: string) => {
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? undefined : date;
+};
+
+/** Splits `"exact phrase" tag:focus before:2024-01-01 habits` into its parts. */
+export const parseSearchQuery = (query: string): ParsedQuery => {
+  const filters: SearchFilters = {};
+  let rest = query.replace(OPERATOR_PATTERN, (_, key: string, quoted?: string, bare?: string) => {
+    const value = (quoted ?? bare ?? '').trim();
+    switch (key.toLowerCase()) {
+      case 'author': filters.author = fold(value); break;
+      case 'book': filters.book = fold(value); break;
+      case 'tag': filters.tag = normalizeTag(value); break;
+      case 'before':
+      case 'after': {
+        // A date that doesn't parse is dropped rather than kept as a filter that matches everything.
+        const date = parseDate(value);
+        if (date) filters[key.toLowerCase() as 'before' | 'after'] = date;
+        break;
+      }
+    }
+    return ' ';
+  });
+
+  const phrases: string[][] = [];
+  rest = rest.replace(/"([^"]*)"?/g, (_, phrase: string) => {
+    const words = terms(phrase);
+    if (words.length > 1) phrases.push(words);
+    else if (words.length === 1) return ` ${phrase} `;
+    return ' ';
+  });
+
+  const tokens = tokenize(rest);
+  const last = tokens[tokens.length - 1];
+  const isTyping = !!last && last.end === rest.length;
+  return {
+    terms: (isTyping ? tokens.slice(0, -1) : tokens).map(t => t.term),
+    phrases,
+    filters,
+    prefix: isTyping ? fold(rest.slice(last.start, last.end)) : undefined,
+  };
+};
+
+const signatureOf = (highlight: Highlight) =>
+  [highlight.text, ...highlight.thoughts.map(t => t.text)].join('\u0000');
+
+const containsPhrase = (tokens: Token[], phrase: string[]) => {
+  for (let i = 0; i + phrase.length <= tokens.length; i++) {
+    if (phrase.every((term, j) => tokens[i + j].term === term)) return true;
+  }
+  return false;
+};
+
+const buildSnippet = (content: string, tokens: Token[], matchTerms: Set<string>): SnippetPart[] => {
+  const matches = tokens.filter(t => matchTerms.has(t.term));
+  const first = matches[0];
+  const from = first ? Math.max(0, first.start - SNIPPET_RADIUS) : 0;
+  const to = Math.min(content.length, (first ? first.end : 0) + SNIPPET_RADIUS * 2);
+
+  const parts: SnippetPart[] = [];
+  let cursor = from;
+  matches
+    .filter(t => t.start >= from && t.end <= to)
+    .forEach(t => {
+      if (t.start > cursor) parts.push({ text: content.slice(cursor, t.start), match: false });
+      parts.push({ text: content.slice(t.start, t.end), match: true });
+      cursor = t.end;
+    });
+  if (cursor < to) parts.push({ text: content.slice(cursor, to), match: false });
+  if (from > 0) parts.unshift({ text: '…', match: false });
+  if (to < content.length) parts.push({ text: '…', match: false });
+  return parts;
+};
+
+/**
+ * An in-memory inverted index over highlights and their thoughts. `sync` only
+ * re-tokenizes highlights whose text or thoughts changed since the last call.
+ */
+export const createSearchIndex = () => {
+  const docs = new Map<string, IndexedDoc>();
+  const postings = new Map<string, Map<string, number>>();
+  let totalLength = 0;
+
+  const removeDoc = (id: string) => {
+    const doc = docs.get(id);
+    if (!doc) return;
+    new Set(doc.tokens.map(t => t.term)).forEach(term => {
+      const list = postings.get(term);
+      list?.delete(id);
+      if (list && list.size === 0) postings.delete(term);
+    });
+    totalLength -= doc.tokens.length;
+    docs.delete(id);
+  };
+
+  const addDoc = (highlight: Highlight, book: Book, signature: string) => {
+    const content = [highlight.text, ...highlight.thoughts.map(t => t.text)].join('\n\n');
+    const tokens = tokenize(content);
+    docs.set(highlight.id, { highlight, book, content, tokens, signature });
+    tokens.forEach(({ term }) => {
+      if (!postings.has(term)) postings.set(term, new Map());
+      const list = postings.get(term)!;
+      list.set(highlight.id, (list.get(highlight.id) || 0) + 1);
+    });
+    totalLength += tokens.length;
+  };
+
+  const sync = (items: { highlight: Highlight, book: Book }[]) => {
+    const seen = new Set<string>();
+    items.forEach(({ highlight, book }) => {
+      seen.add(highlight.id);
+      const signature = signatureOf(highlight);
+      const existing = docs.get(highlight.id);
+      if (existing && existing.signature === signature) {
+        // Same text; refresh the objects so tag, date and book filters see current values.
+        existing.highlight = highlight;
+        existing.book = book;
+        return;
+      }
+      removeDoc(highlight.id);
+      addDoc(highlight, book, signature);
+    });
+    Array.from(docs.keys()).filter(id => !seen.has(id)).forEach(removeDoc);
+  };
+
+  const passesFilters = (doc: IndexedDoc, filters: SearchFilters) => {
+    const created = new Date(doc.highlight.createdAt).getTime();
+    return (!filters.author || fold(doc.book.author).includes(filters.author) || !!doc.book.authors?.some(a => fold(a).includes(filters.author!))) &&
+      (!filters.book || fold(doc.book.title).includes(filters.book)) &&
+      (!filters.tag || tagsOf(doc.highlight).includes(filters.tag)) &&
+      (!filters.before || created < filters.before.getTime()) &&
+      (!filters.after || created >= filters.after.getTime());
+  };
+
+  const search = (query: string | ParsedQuery, limit = 50): SearchResult[] => {
+    const parsed = typeof query === 'string' ? parseSearchQuery(query) : query;
+    const required = Array.from(new Set([...parsed.terms, ...parsed.phrases.flat()]));
+    const prefixTerms = parsed.prefix
+      ? Array.from(postings.keys()).filter(term => term.startsWith(stem(parsed.prefix!)) || term.startsWith(parsed.prefix!))
+      : [];
+    const hasTextQuery = required.length > 0 || !!parsed.prefix;
+    if (!hasTextQuery && Object.keys(parsed.filters).length === 0) return [];
+
+    // Every required term must appear; a trailing prefix must match at least one term.
+    let candidates: string[] = hasTextQuery ? [] : Array.from(docs.keys());
+    if (required.length > 0) {
+      const lists = required.map(term => postings.get(term));
+      if (lists.some(list => !list)) return [];
+      lists.sort((a, b) => a!.size - b!.size);
+      candidates = Array.from(lists[0]!.keys()).filter(id => lists.every(list => list!.has(id)));
+    }
+    if (parsed.prefix) {
+      const withPrefix = new Set(prefixTerms.flatMap(term => Array.from(postings.get(term)!.keys())));
+      candidates = required.length > 0 ? candidates.filter(id => withPrefix.has(id)) : Array.from(withPrefix);
+    }
+
+    const averageLength = docs.size > 0 ? totalLength / docs.size : 1;
+    const idf = (term: string) => {
+      const df = postings.get(term)?.size || 0;
+      return Math.log(1 + (docs.size - df + 0.5) / (df + 0.5));
+    };
+    const scoreTerm = (term: string, id: string, length: number) => {
+      const tf = postings.get(term)?.get(id) || 0;
+      return idf(term) * (tf * (K1 + 1)) / (tf + K1 * (1 - B + B * length / averageLength));
+    };
+
+    const matchTerms = new Set([...required, ...prefixTerms]);
+    return candidates
+      .map(id => docs.get(id)!)
+      .filter(doc => passesFilters(doc, parsed.filters) && parsed.phrases.every(p => containsPhrase(doc.tokens, p)))
+      .map(doc => {
+        const length = doc.tokens.length;
+        let score = required.reduce((sum, term) => sum + scoreTerm(term, doc.highlight.id, length), 0);
+        score += Math.max(0, ...prefixTerms.map(term => scoreTerm(term, doc.highlight.id, length)));
+        score += parsed.phrases.length * PHRASE_BONUS;
+        return {
+          highlight: doc.highlight,
+          book: doc.book,
+          score,
+          snippet: buildSnippet(doc.content, doc.tokens, matchTerms),
+        };
+      })
+      .sort((a, b) =>
+        b.score - a.score ||
+        new Date(b.highlight.createdAt).getTime() - new Date(a.highlight.createdAt).getTime()
+      )
+      .slice(0, limit);
+  };
+
+  return { sync, search, get size() { return docs.size; } };
+};
+
+export type SearchIndex = ReturnType<typeof createSearchIndex>;
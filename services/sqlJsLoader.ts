@@ -0,0 +1,20 @@
+import type { SqlJsStatic } from "sql.js";
+import wasmUrl from "sql.js/dist/sql-wasm.wasm?url";
+
+let sqlJs: Promise<SqlJsStatic> | null = null;
+
+/**
+ * sql.js for Kobo import and Anki export. The library is fetched on first use so it stays
+ * out of the main bundle, and its wasm binary ships with the app rather than a CDN.
+ */
+export const loadSqlJs = (): Promise<SqlJsStatic> => {
+  if (!sqlJs) {
+    sqlJs = import('sql.js')
+      .then(({ default: initSqlJs }) => initSqlJs({ locateFile: () => wasmUrl }))
+      .catch(error => {
+        sqlJs = null;
+        throw error;
+      });
+  }
+  return sqlJs;
+};
@@ -0,0 +1,51 @@
+import { Highlight } from "../types";
+import { HighlightRepository } from "./libraryRepository";
+
+const HASHTAG_PATTERN = /(^|[^\p{L}\p{N}_&#/])#([\p{L}\p{N}_-]+)/gu;
+
+/** Tags are compared lowercased, without the leading `#`, with spaces turned into dashes. */
+export const normalizeTag = (tag: string) =>
+  tag.trim().replace(/^#+/, '').toLowerCase().replace(/\s+/g, '-');
+
+export const parseHashtags = (text: string): string[] =>
+  Array.from(text.matchAll(HASHTAG_PATTERN), m => normalizeTag(m[2]));
+
+/** Manual tags plus every `#hashtag` written in the highlight's thoughts. */
+export const tagsOf = (highlight: Highlight): string[] => {
+  const tags = new Set(highlight.tags.map(normalizeTag));
+  highlight.thoughts.forEach(t => parseHashtags(t.text).forEach(tag => tags.add(tag)));
+  return Array.from(tags).filter(Boolean);
+};
+
+export const collectTags = (highlights: Highlight[]): { tag: string; count: number }[] => {
+  const counts = new Map<string, number>();
+  highlights.forEach(h => tagsOf(h).forEach(tag => counts.set(tag, (counts.get(tag) || 0) + 1)));
+  return Array.from(counts.entries())
+    .map(([tag, count]) => ({ tag, count }))
+    .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+};
+
+const rewriteHashtags = (text: string, from: string, to: string) =>
+  text.replace(HASHTAG_PATTERN, (match, prefix, tag) => (normalizeTag(tag) === from ? `${prefix}#${to}` : match));
+
+/**
+ * Renames a tag everywhere it is used, including hashtags inside thoughts.
+ * Renaming onto a tag that already exists merges the two.
+ * Returns the number of highlights that changed.
+ */
+export const renameTag = async (from: string, to: string): Promise<number> => {
+  const source = normalizeTag(from);
+  const target = normalizeTag(to);
+  if (!source || !target || source === target) return 0;
+
+  const highlights = await HighlightRepository.getAll();
+  const changed = highlights
+    .filter(h => tagsOf(h).includes(source))
+    .map(h => ({
+      ...h,
+      tags: Array.from(new Set(h.tags.map(normalizeTag).map(t => (t === source ? target : t)))),
+      thoughts: h.thoughts.map(t => ({ ...t, text: rewriteHashtags(t.text, source, target) })),
+    }));
+  await HighlightRepository.putMany(changed);
+  return changed.length;
+};
@@ -0,0 +1,91 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { Book, Highlight } from '../types';
+import { createScriptedJsonClient } from './fakeAIProvider';
+import { applyTagSuggestions, clusterThemes, suggestTags, themeToSuggestions } from './themeService';
+
+const { putMany } = vi.hoisted(() => ({ putMany: vi.fn(async (_highlights: Highlight[]) => {}) }));
+vi.mock('./libraryRepository', () => ({ HighlightRepository: { putMany } }));
+
+const highlight = (id: string, text: string, fields: Partial<Highlight> = {}): Highlight =>
+  ({ id, bookId: 'b1', text, thoughts: [], tags: [], createdAt: '2021-05-03T00:00:00.000Z', source: 'digital', ...fields });
+
+const book: Book = { id: 'b1', title: 'Middlemarch', author: 'George Eliot', coverUrl: '', totalHighlights: 3 };
+
+const highlights = [
+  highlight('h1', 'The growing good of the world is partly dependent on unhistoric acts.', { tags: ['ethics'] }),
+  highlight('h2', 'Marriage, which has been the bourne of so many narratives.'),
+  highlight('h3', 'What do we live for, if it is not to make life less difficult to each other?'),
+];
+
+beforeEach(() => putMany.mockClear());
+
+describe('suggestTags', () => {
+  it('normalises tags and leaves out ones the highlight already has', async () => {
+    const client = createScriptedJsonClient([[
+      { index: 0, tags: ['Ethics', 'History'] },
+      { index: 1, tags: ['#marriage', 'marriage'] },
+    ]]);
+    await expect(suggestTags(highlights, { client })).resolves.toEqual([
+      { highlightId: 'h1', tags: ['history'] },
+      { highlightId: 'h2', tags: ['marriage'] },
+    ]);
+  });
+
+  it('ignores entries for passages it was not shown', async () => {
+    const client = createScriptedJsonClient([[{ index: 7, tags: ['ghost'] }, { index: '1', tags: ['x'] }, { index: 2 }]]);
+    await expect(suggestTags(highlights, { client })).resolves.toEqual([]);
+  });
+
+  it('sends large libraries in batches and offers the existing vocabulary', async () => {
+    const many = Array.from({ length: 30 }, (_, i) => highlight(`h${i}`, `Passage ${i}`));
+    const client = createScriptedJsonClient([[{ index: 24, tags: ['a'] }], [{ index: 0, tags: ['b'] }]]);
+    const suggestions = await suggestTags(many, { client, vocabulary: ['ethics', 'kindness'] });
+    expect(client.prompts).toHaveLength(2);
+    expect(client.prompts[0]).toContain('ethics, kindness');
+    expect(suggestions).toEqual([{ highlightId: 'h24', tags: ['a'] }, { highlightId: 'h25', tags: ['b'] }]);
+  });
+});
+
+describe('clusterThemes', () => {
+  it('assigns each passage to at most one theme and drops empty ones', async () => {
+    const client = createScriptedJsonClient([[
+      { name: ' Small Kindnesses ', description: 'Quiet good.', passages: [0, 2] },
+      { name: 'Duplicates', description: '', passages: [2, 9] },
+      { name: 'Marriage', description: 'Unions.', passages: [1] },
+    ]]);
+    const themes = await clusterThemes(highlights, [book], { client });
+    expect(themes).toEqual([
+      { name: 'Small Kindnesses', description: 'Quiet good.', highlightIds: ['h1', 'h3'] },
+      { name: 'Marriage', description: 'Unions.', highlightIds: ['h2'] },
+    ]);
+    expect(client.prompts[0]).toContain('(Middlemarch)');
+  });
+
+  it('respects maxThemes and skips the model for an empty library', async () => {
+    const client = createScriptedJsonClient([[
+      { name: 'One', description: '', passages: [0] },
+      { name: 'Two', description: '', passages: [1] },
+    ]]);
+    expect(await clusterThemes(highlights, [], { client, maxThemes: 1 })).toHaveLength(1);
+    expect(await clusterThemes([], [], { client })).toEqual([]);
+    expect(client.prompts).toHaveLength(1);
+  });
+});
+
+describe('applyTagSuggestions', () => {
+  it('merges accepted tags into the highlights and saves only those that changed', async () => {
+    const updated = await applyTagSuggestions(highlights, [
+      { highlightId: 'h1', tags: ['Ethics', 'History'] },
+      { highlightId: 'h2', tags: [] },
+      { highlightId: 'missing', tags: ['x'] },
+    ]);
+    expect(updated).toEqual([{ ...highlights[0], tags: ['ethics', 'history'] }]);
+    expect(putMany).toHaveBeenCalledWith(updated);
+  });
+
+  it('tags every passage in an accepted theme', async () => {
+    const suggestions = themeToSuggestions({ name: 'Small Kindnesses', description: '', highlightIds: ['h1', 'h3'] });
+    const updated = await applyTagSuggestions(highlights, suggestions);
+    expect(updated.map(h => h.tags)).toEqual([['ethics', 'small-kindnesses'], ['small-kindnesses']]);
+  });
+});
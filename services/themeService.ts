@@ -0,0 +1,149 @@
+import { Type } from "@google/genai";
+import { Book, Highlight } from "../types";
+import { JsonModelClient } from "./aiProvider";
+import { aiJsonClient } from "./aiService";
+import { HighlightRepository } from "./libraryRepository";
+import { normalizeTag, tagsOf } from "./tagService";
+
+export interface TagSuggestion {
+  highlightId: string;
+  tags: string[];
+}
+
+export interface Theme {
+  name: string;
+  description: string;
+  highlightIds: string[];
+}
+
+export interface AiOrganizeOptions {
+  client?: JsonModelClient;
+  /** Tags already used in the library; the model is asked to reuse them where they fit. */
+  vocabulary?: string[];
+}
+
+const TAG_BATCH_SIZE = 25;
+const MAX_THEME_HIGHLIGHTS = 200;
+const PASSAGE_LENGTH = 400;
+
+// Highlights are sent as short numbered passages; the model answers with the numbers,
+// which is cheaper than echoing ids and easy to validate.
+const numbered = (highlights: Highlight[], books?: Map<string, Book>) =>
+  highlights
+    .map((h, i) => {
+      const book = books?.get(h.bookId);
+      const text = h.text.length > PASSAGE_LENGTH ? `${h.text.slice(0, PASSAGE_LENGTH)}…` : h.text;
+      return `[${i}]${book ? ` (${book.title})` : ''} ${text}`;
+    })
+    .join('\n');
+
+const validIndex = (value: unknown, length: number): value is number =>
+  Number.isInteger(value) && (value as number) >= 0 && (value as number) < length;
+
+/**
+ * Proposes 1-3 topical tags per highlight. Tags the highlight already has are left out,
+ * so an empty `tags` list means nothing new to suggest. Nothing is written.
+ */
+export const suggestTags = async (
+  highlights: Highlight[],
+  { client = aiJsonClient, vocabulary = [] }: AiOrganizeOptions = {}
+): Promise<TagSuggestion[]> => {
+  const suggestions: TagSuggestion[] = [];
+
+  for (let start = 0; start < highlights.length; start += TAG_BATCH_SIZE) {
+    const batch = highlights.slice(start, start + TAG_BATCH_SIZE);
+    const prompt = `You organise a reader's book highlights with short topical tags.
+    For each numbered passage below, propose 1 to 3 lowercase tags (single words or hyphenated phrases) naming what it is about.
+    ${vocabulary.length > 0 ? `Prefer these existing tags when they fit: ${vocabulary.join(', ')}.` : ''}
+
+    ${numbered(batch)}`;
+
+    const result = await client.generateJson(prompt, {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          index: { type: Type.INTEGER, description: "The passage number" },
+          tags: { type: Type.ARRAY, items: { type: Type.STRING } },
+        },
+        required: ["index", "tags"],
+      },
+    });
+
+    (Array.isArray(result) ? result : []).forEach((entry: any) => {
+      if (!validIndex(entry?.index, batch.length) || !Array.isArray(entry.tags)) return;
+      const highlight = batch[entry.index];
+      const existing = new Set(tagsOf(highlight));
+      const tags = Array.from(new Set<string>(entry.tags.map((t: unknown) => normalizeTag(String(t)))))
+        .filter(t => !!t && !existing.has(t));
+      suggestions.push({ highlightId: highlight.id, tags });
+    });
+  }
+
+  return suggestions;
+};
+
+/**
+ * Groups highlights into a handful of named themes. Each highlight belongs to at most
+ * one theme; passages the model leaves out simply stay unclustered.
+ */
+export const clusterThemes = async (
+  highlights: Highlight[],
+  books: Book[] = [],
+  { client = aiJsonClient, maxThemes = 6 }: AiOrganizeOptions & { maxThemes?: number } = {}
+): Promise<Theme[]> => {
+  const sample = highlights.slice(0, MAX_THEME_HIGHLIGHTS);
+  if (sample.length === 0) return [];
+
+  const prompt = `You are helping a reader see the big ideas running through their highlights.
+  Group the numbered passages below into at most ${maxThemes} themes.
+  For each theme give a short name (2-4 words), a one-sentence description, and the numbers of the passages that belong to it.
+  Every passage belongs to at most one theme; leave out passages that fit none.
+
+  ${numbered(sample, new Map(books.map(b => [b.id, b])))}`;
+
+  const result = await client.generateJson(prompt, {
+    type: Type.ARRAY,
+    items: {
+      type: Type.OBJECT,
+      properties: {
+        name: { type: Type.STRING },
+        description: { type: Type.STRING },
+        passages: { type: Type.ARRAY, items: { type: Type.INTEGER } },
+      },
+      required: ["name", "description", "passages"],
+    },
+  });
+
+  const assigned = new Set<number>();
+  return (Array.isArray(result) ? result : [])
+    .map((entry: any): Theme | null => {
+      if (!entry?.name || !Array.isArray(entry.passages)) return null;
+      const indexes = entry.passages.filter((i: unknown) => validIndex(i, sample.length) && !assigned.has(i as number));
+      indexes.forEach((i: number) => assigned.add(i));
+      return {
+        name: String(entry.name).trim(),
+        description: String(entry.description || '').trim(),
+        highlightIds: indexes.map((i: number) => sample[i].id),
+      };
+    })
+    .filter((theme): theme is Theme => !!theme && theme.highlightIds.length > 0)
+    .slice(0, maxThemes);
+};
+
+/** Turns a theme into tag suggestions so it can go through the same review step. */
+export const themeToSuggestions = (theme: Theme): TagSuggestion[] =>
+  theme.highlightIds.map(highlightId => ({ highlightId, tags: [normalizeTag(theme.name)] }));
+
+/** Writes the suggestions the reader accepted and returns the updated highlights. */
+export const applyTagSuggestions = async (highlights: Highlight[], accepted: TagSuggestion[]): Promise<Highlight[]> => {
+  const byId = new Map<string, Highlight>(highlights.map(h => [h.id, h]));
+  const updated = accepted
+    .filter(s => s.tags.length > 0 && byId.has(s.highlightId))
+    .map(s => {
+      const highlight = byId.get(s.highlightId)!;
+      return { ...highlight, tags: Array.from(new Set([...highlight.tags, ...s.tags.map(normalizeTag)])) };
+    });
+  await HighlightRepository.putMany(updated);
+  return updated;
+};
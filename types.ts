@@ -1,11 +1,32 @@
 
+export type ReadingStatus = 'want-to-read' | 'reading' | 'finished' | 'abandoned';
+
 export interface Book {
   id: string;
   title: string;
-  author: string;
+  author: string; // Primary author, shown wherever a single name fits
+  authors?: string[];
   coverUrl: string;
+  isbn10?: string;
+  isbn13?: string;
+  publisher?: string;
+  publishedDate?: string;
+  pageCount?: number;
+  categories?: string[];
+  language?: string;
+  readingStatus?: ReadingStatus;
+  startedAt?: string;
+  finishedAt?: string;
+  shelfIds?: string[];
   totalHighlights: number;
   lastRead?: string;
+  createdAt?: string; // When the book was added to the library
+}
+
+export interface Shelf {
+  id: string;
+  name: string;
+  createdAt: string;
 }
 
 export interface Thought {
@@ -14,19 +35,93 @@ export interface Thought {
   createdAt: string;
 }
 
+export type ReviewGrade = 'keep' | 'less-often' | 'never';
+
+/** SM-2 scheduling state, shared by highlight review and flashcards. */
+export interface RepetitionSchedule {
+  easeFactor: number;
+  intervalDays: number;
+  repetitions: number;
+  dueAt: string;
+}
+
+export interface ReviewState extends RepetitionSchedule {
+  suspended?: boolean; // "Never show" takes the highlight out of review for good
+  history: { reviewedAt: string; grade: ReviewGrade }[];
+}
+
 export interface Highlight {
   id: string;
   bookId: string;
   text: string;
   pageNumber?: number;
+  location?: string; // Ebook position without a page: a Kindle location range or a chapter
   thoughts: Thought[];
+  tags: string[]; // Added by hand; #hashtags in thoughts count as tags too
+  review?: ReviewState; // Absent until the highlight is first reviewed
   createdAt: string;
   imageUrl?: string; // The captured snippet
   source: 'scanned' | 'digital'; // Smart Categorization
 }
 
-export interface ExtractionResult {
+export type FlashcardKind = 'cloze' | 'qa';
+
+export type FlashcardGrade = 'again' | 'hard' | 'good' | 'easy';
+
+export interface Flashcard {
+  id: string;
+  highlightId: string;
+  bookId: string;
+  kind: FlashcardKind;
+  front: string; // Cloze cards: the passage with {{c1::hidden}} deletions
+  back: string; // Cloze cards: optional extra shown with the answer
+  createdAt: string;
+  schedule?: RepetitionSchedule; // Absent until the card is first studied
+  history: { reviewedAt: string; grade: FlashcardGrade }[];
+}
+
+/** A card's content before it is saved, as typed by the reader or proposed by the model. */
+export type FlashcardDraft = Pick<Flashcard, 'kind' | 'front' | 'back'>;
+
+export interface ChatCitation {
+  marker: number; // The [n] used for this passage in the answer text
+  highlightId: string;
+  bookId: string;
+  pageNumber?: number;
+}
+
+export interface ChatMessage {
+  id: string;
+  role: 'user' | 'assistant';
   text: string;
+  citations: ChatCitation[];
+  createdAt: string;
+}
+
+/** A chat about one book's highlights, or the whole library's (`scopeId` 'library'). */
+export interface Conversation {
+  scopeId: string;
+  messages: ChatMessage[];
+  updatedAt: string;
+}
+
+/** A rectangle in fractions of an image's width and height, so it survives rescaling. */
+export interface BoundingBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface ExtractedPassage {
+  text: string;
+  /** Where the passage sits in the photo, when the extractor reports it. */
+  box?: BoundingBox;
+}
+
+/** Every marked passage read from one page photo, top to bottom. */
+export interface ExtractionResult {
+  passages: ExtractedPassage[];
   pageNumber: number | null;
 }
 